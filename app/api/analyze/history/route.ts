@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeTokenHistory } from '@/lib/history';
+import { parseSourceTarget } from '@/lib/source-provider';
+import { analyzerOptionsFromBody, readRequestBody, resolveGithubToken } from '@/lib/request-options';
+import { checkResponse } from '@/lib/api-schemas';
+import { InvalidRequestError } from '@/lib/errors';
+import { errorResponse } from '@/lib/error-response';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readRequestBody(request, 'HistoryRequest');
+    const { repo, ref, path, minTokens = 1000000, points, interval = 'auto', jumpShare } = body;
+
+    const target = parseSourceTarget(repo);
+    const reference = target.reference;
+    if (!reference) {
+      return errorResponse(new InvalidRequestError('repo must be owner/repo or a GitHub repository URL', { field: 'repo' }));
+    }
+    // Sampling walks GitHub's commit listing
+    if (target.kind !== 'github') {
+      return errorResponse(new InvalidRequestError('Token history is only available for GitHub repositories', { field: 'repo', source: target.kind }));
+    }
+
+    // An explicit ref or path overrides whatever was taken from a /tree/ or /blob/ URL
+    if (ref) reference.ref = ref;
+    if (path) reference.path = path;
+
+    console.log('Sampling token history:', `${reference.owner}/${reference.repo}`, reference.ref || '(default branch)', reference.path || '');
+
+    const history = await analyzeTokenHistory(reference, {
+      token: resolveGithubToken(body, request),
+      minTokens,
+      points,
+      interval,
+      jumpShare,
+      analyzerOptions: analyzerOptionsFromBody(body)
+    });
+
+    return NextResponse.json(checkResponse('TokenHistory', history));
+  } catch (error) {
+    console.error('Token history error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GitHubRepoAnalyzer } from '@/lib/github-analyzer';
+import { parseSourceTarget } from '@/lib/source-provider';
+import { analyzerOptionsFromBody, readRequestBody, resolveGithubToken } from '@/lib/request-options';
+import { checkResponse } from '@/lib/api-schemas';
+import { InvalidRequestError } from '@/lib/errors';
+import { errorResponse } from '@/lib/error-response';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readRequestBody(request, 'RepoAnalysisRequest');
+    const { repo, ref, path, minTokens = 1000000 } = body;
+
+    const target = parseSourceTarget(repo);
+    const reference = target.reference;
+    if (!reference) {
+      return errorResponse(new InvalidRequestError('repo must be owner/repo, a GitHub, GitLab or Gitea repository URL, or a local checkout', { field: 'repo' }));
+    }
+
+    // An explicit ref or path overrides whatever was taken from a /tree/ or /blob/ URL
+    if (ref) reference.ref = ref;
+    if (path) reference.path = path;
+
+    console.log('Analyzing repository:', `${reference.owner}/${reference.repo}`, reference.ref || '(default branch)', reference.path || '');
+
+    const analyzer = new GitHubRepoAnalyzer(resolveGithubToken(body, request), analyzerOptionsFromBody(body, target));
+    const analysis = await analyzer.analyzeSingleRepository(reference, minTokens);
+
+    return NextResponse.json(checkResponse('RepoAnalysis', analysis));
+  } catch (error) {
+    console.error('Repository analysis error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from './route';
+
+const API = 'https://api.github.test';
+
+const analyze = (username: string) =>
+  POST(new NextRequest('http://localhost:3000/api/analyze', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ username, encoding: 'approximate' })
+  }));
+
+// Answers the account lookup, and the repository listing with `listing`
+function stubGitHub(listing: () => Response) {
+  vi.stubGlobal('fetch', async (input: string) => {
+    const path = input.replace(API, '');
+    if (path === '/users/alice') return Response.json({ login: 'alice', type: 'User' });
+    if (path.startsWith('/users/alice/repos?')) return listing();
+    return new Response('Not Found', { status: 404 });
+  });
+}
+
+describe('POST /api/analyze errors', () => {
+  beforeEach(() => {
+    vi.stubEnv('GITHUB_API_URL', API);
+    vi.stubEnv('GITHUB_TOKEN', '');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('answers a forbidden listing with 403, not 401', async () => {
+    stubGitHub(() => new Response('Forbidden', { status: 403 }));
+    const response = await analyze('alice');
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'auth_invalid', details: { status: 403 } });
+  });
+
+  it('answers an exhausted rate limit with 429', async () => {
+    const resetAt = Math.floor(Date.now() / 1000) + 3600;
+    stubGitHub(() => new Response('API rate limit exceeded', {
+      status: 403,
+      headers: { 'x-ratelimit-limit': '60', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) }
+    }));
+    const response = await analyze('alice');
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: 'rate_limited', retryable: true });
+  });
+
+  it('answers an unknown account with 404', async () => {
+    stubGitHub(() => Response.json([]));
+    const response = await analyze('nobody');
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).code).toBe('user_not_found');
+  });
+});
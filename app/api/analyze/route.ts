@@ -1,80 +1,88 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GitHubRepoAnalyzer } from '@/lib/github-analyzer';
+import { parseSourceTarget } from '@/lib/source-provider';
+import { analyzerOptionsFromBody, readRequestBody, resolveGithubToken } from '@/lib/request-options';
+import { checkResponse } from '@/lib/api-schemas';
+import { readSession } from '@/lib/session';
+import { API_BASE_PATH, buildOpenApiDocument } from '@/lib/openapi';
+import { errorFromInfo } from '@/lib/errors';
+import { errorResponse } from '@/lib/error-response';
 
 export async function POST(request: NextRequest) {
   try {
-    const { username, minTokens = 1000000, githubToken } = await request.json();
+    const body = await readRequestBody(request, 'AnalyzeRequest');
+    const { username, minTokens = 1000000, githubToken } = body;
 
-    if (!username) {
-      return NextResponse.json(
-        { error: 'Username is required' },
-        { status: 400 }
-      );
-    }
-
-    // Extract username from URL if full GitHub URL is provided
-    let cleanUsername = username;
-    if (username.includes('github.com/')) {
-      const match = username.match(/github\.com\/([^\/\?]+)/);
-      if (match) {
-        cleanUsername = match[1];
-      }
-    }
+    // A GitHub login or profile URL, a GitLab or Gitea group/user URL, or a local directory
+    const target = parseSourceTarget(username);
 
     // Use user-provided token, fallback to environment variable, or use no token
-    const tokenToUse = githubToken || process.env.GITHUB_TOKEN;
+    const tokenToUse = resolveGithubToken(body, request);
     
     console.log('GitHub token provided by user:', !!githubToken);
+    console.log('Signed-in session:', !!readSession(request));
     console.log('GitHub token from environment:', !!process.env.GITHUB_TOKEN);
     console.log('Using token:', !!tokenToUse);
-    console.log('Analyzing user:', cleanUsername);
+    console.log('Analyzing user:', target.account, `(${target.kind})`);
 
     // Initialize analyzer with the token (user-provided or environment)
-    const analyzer = new GitHubRepoAnalyzer(tokenToUse);
+    const analyzer = new GitHubRepoAnalyzer(tokenToUse, analyzerOptionsFromBody(body, target));
 
     // Run the analysis
-    const results = await analyzer.analyzeUserProfile(cleanUsername, minTokens);
+    const results = await analyzer.analyzeUserProfile(target.account, minTokens);
     
     // Check if the analyzer returned an error
-    if (results.error) {
+    if (results.error_info) {
       console.error('Analyzer returned error:', results.error);
-      return NextResponse.json(
-        { error: results.error },
-        { status: 400 }
-      );
+      return errorResponse(errorFromInfo(results.error_info));
     }
 
-    return NextResponse.json(results);
+    return NextResponse.json(checkResponse('AnalysisResult', results));
   } catch (error) {
     console.error('Analysis error:', error);
-    
-    // Provide more specific error messages
-    let errorMessage = 'Failed to analyze GitHub profile';
-    if (error instanceof Error) {
-      if (error.message.includes('Rate limit exceeded')) {
-        errorMessage = 'GitHub API rate limit exceeded. Please provide a GitHub Personal Access Token for higher rate limits.';
-      } else if (error.message.includes('not found')) {
-        errorMessage = 'GitHub user not found. Please check the username and try again.';
-      } else if (error.message.includes('403')) {
-        errorMessage = 'Access denied. This might be due to rate limiting. Please provide a GitHub Personal Access Token.';
-      } else if (error.message.includes('fetch')) {
-        errorMessage = 'Network error. Please check your connection and try again.';
-      } else {
-        errorMessage = `Error: ${error.message}`;
-      }
-    }
-    
-    return NextResponse.json(
-      { error: errorMessage },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  // The machine-readable description of the versioned API
+  if (request.nextUrl.searchParams.get('format') === 'openapi') {
+    return NextResponse.json(buildOpenApiDocument());
+  }
+
   return NextResponse.json({
     message: 'GitHub Repository Analyzer API',
-    usage: 'POST /api/analyze with { "username": "github_username", "minTokens": 1000000, "githubToken": "optional_github_token" }',
+    usage: 'POST /api/analyze with { "username": "github_username", "minTokens": 1000000, "githubToken": "optional_github_token", "listingBackend": "tree | contents", "discoveryBackend": "rest | graphql", "ingestionMode": "files | tarball", "useCache": true, "repoConcurrency": 3, "fileConcurrency": 5, "encoding": "cl100k_base", "profile": { "include": ["**/*.ts"], "exclude": ["docs/**"], "respectGitignore": true, "respectGitattributes": true, "excludeVendored": true, "excludeGenerated": true }, "repoFilters": { "visibility": "all | public | private", "includeForks": false, "includeArchived": true, "includeContributed": false, "includeTemplates": true, "includeMirrors": true, "pushedWithinDays": 365, "topics": ["cli"], "excludeTopics": ["homework"] }, "breakdownTopN": 10, "prescreen": false, "attribution": false }',
+    streaming: 'POST /api/analyze/stream with the same body returns newline-delimited JSON progress events (repos_listed, repo_started, repo_completed, repo_failed, summary, error)',
+    ingestion_modes: {
+      files: 'Downloads eligible files one at a time (default, capped at 200 files per repository)',
+      tarball: 'Downloads each repository archive once and counts every eligible file'
+    },
+    encodings: {
+      cl100k_base: 'GPT-4 / GPT-3.5 tokenizer (default)',
+      o200k_base: 'GPT-4o tokenizer',
+      p50k_base: 'Codex / text-davinci tokenizer',
+      approximate: 'Character-based estimate (~4.5 ASCII characters per token); also used automatically if an encoding fails to load'
+    },
+    single_repository: 'POST /api/analyze/repo with { "repo": "owner/repo or https://github.com/owner/repo/tree/branch/path", "ref": "optional branch, tag or SHA", "path": "optional subdirectory", "minTokens": 1000000 } returns one RepoAnalysis; the options above apply too',
+    accounts: 'Both users and organizations are accepted. Private repositories are listed when the token can see them; includeContributed only works for the account the token belongs to',
+    discovery: 'Set "discoveryBackend": "graphql" (needs a token) to list repositories through the GraphQL API: one query per 100 repositories returns the default branch head, language bytes, topics, template and mirror flags and the last push, so the cache check and the pre-screen skip their separate head commit and /languages lookups. Every RepoAnalysis carries this in metadata, and repoFilters can skip templates, mirrors, repositories not pushed to within pushedWithinDays, or select by topics and excludeTopics',
+    sources: 'username and repo also accept GitLab and Gitea URLs (gitlab.com, codeberg.org and https hosts listed in GITLAB_HOSTS / GITEA_HOSTS; "sourceToken", or GITLAB_TOKEN / GITEA_TOKEN for those hosts, for private projects) and, when LOCAL_SOURCE_ROOT is set, paths of git checkouts below it or of directories holding them. These read files one by one (at most 200 per repository on GitLab and Gitea); tarball ingestion, attribution, GraphQL discovery, batches and token history stay GitHub-only',
+    jobs: 'POST /api/jobs with the same body queues the analysis and returns a job id; GET /api/jobs/{id} reports status, progress, checkpointed repositories and errors, DELETE cancels and POST resumes from the checkpoints. Jobs belong to the signed-in user or the token they were created with (body or Authorization header) and are only found with it',
+    batch: 'POST /api/batch with { "usernames": ["torvalds", "octocat"] } (or "text" holding a list or CSV) screens up to 200 profiles on one rate-limit budget and streams NDJSON ending in a batch_summary leaderboard',
+    export: 'GET /api/export?username=octocat&format=csv | json | markdown runs an analysis and returns it as a file (table=extensions for the per-extension CSV, repo/ref/path for one repository); POST /api/export with { "result": AnalysisResult, "format": "csv" } converts an existing result',
+    breakdown: 'Each RepoAnalysis includes breakdown.top_files, breakdown.top_directories (breakdownTopN entries each) and breakdown.tree, a directory tree of token counts',
+    prescreen: 'Set "prescreen": true (or { "lowerFactor": 0.5, "upperFactor": 2 }) to estimate each repository from its size and /languages byte counts first; only repositories estimated between minTokens * lowerFactor and minTokens * upperFactor are tokenized. Every RepoAnalysis then carries estimate, and measured: false marks repositories whose total_tokens is the estimate. Measured repositories calibrate the per-language bytes-per-token ratios (persisted when CALIBRATION_FILE is set)',
+    attribution: 'Set "attribution": true to add attribution to every RepoAnalysis: the analyzed user\'s share of added lines (from the contributor statistics, or of commits when those are unavailable) and the matching authored_tokens. With { "applyThreshold": true }, meets_criteria compares authored_tokens instead of total_tokens with minTokens',
+    duplication: 'Each RepoAnalysis includes unique_tokens and duplication: framework boilerplate found (create-react-app, create-next-app, Vite, Angular CLI, Django, Rails), tokens repeated within it, and the other repositories it shares files with. Profile results add duplication.pairs, the repository pairs with the most content in common',
+    history: 'POST /api/analyze/history with { "repo": "owner/repo", "ref": "optional", "path": "optional", "points": 12, "interval": "auto | week | month | quarter", "jumpShare": 0.25 } samples token counts across the commit history; intervals adding at least jumpShare of the peak are flagged as jumps, with the responsible commit when one commit added most of it',
+    errors: 'Errors answer with { "error": message, "code", "retryable", "details" } and a matching status. Codes: invalid_request (400, e.g. malformed JSON), validation_failed (422, details.fields lists { field, message } for every value that breaks the request schema), user_not_found and no_repositories (404), rate_limited (429, details.reset_at), auth_invalid (401 or 403), oauth_failed (400, or 501 when sign-in is not configured), repo_unavailable (404 or the GitHub status), timeout (504), upstream_error (502), tokenizer_failed and internal_error (500). Profile results list the repositories that failed or were skipped in repo_errors, with the same fields',
+    completeness: 'Each RepoAnalysis includes completeness: files skipped by reason, truncated files, failed downloads, coverage, estimated_total_tokens and a conclusive flag that is false when a repository below the threshold was not read in full',
+    profile: 'Globs use .gitignore syntax. Files are excluded as not_included, excluded_pattern, gitignored, vendored, generated, minified or too_large, and each repository reports its exclusions in file_stats.excluded',
+    cache: 'Per-repo results are reused while the default branch head is unchanged; set ANALYSIS_CACHE_DIR to persist them on disk',
+    versioned_api: `Every endpoint is also served under ${API_BASE_PATH} (e.g. POST ${API_BASE_PATH}/analyze); integrations should use those paths, which keep their request and response shapes within the version`,
+    openapi: 'GET /api/analyze?format=openapi returns the OpenAPI 3.0 document of the versioned API, generated from the schemas requests are validated against',
+    sign_in: 'GET /api/auth/login (web flow) or POST /api/auth/device and POST /api/auth/device/poll (device flow) sign in with GitHub; the token is kept in an encrypted session cookie and used by every endpoint when the body has no githubToken. GET /api/auth/session shows the login and granted scopes, DELETE /api/auth/session signs out',
     note: 'For higher rate limits (5000 vs 60 requests/hour), provide your GitHub Personal Access Token',
     create_token: 'https://github.com/settings/tokens (only needs public_repo scope)',
     environment_token_configured: !!process.env.GITHUB_TOKEN
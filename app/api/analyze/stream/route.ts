@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { AnalysisProgressEvent, GitHubRepoAnalyzer } from '@/lib/github-analyzer';
+import { parseSourceTarget, SourceTarget } from '@/lib/source-provider';
+import { analyzerOptionsFromBody, readRequestBody, resolveGithubToken } from '@/lib/request-options';
+import { toErrorInfo } from '@/lib/errors';
+import { errorResponse } from '@/lib/error-response';
+
+export async function POST(request: NextRequest) {
+  // Invalid requests are answered before the stream starts, like the other analysis endpoints
+  let body: Record<string, any>;
+  let target: SourceTarget;
+  let analyzer: GitHubRepoAnalyzer;
+  try {
+    body = await readRequestBody(request, 'AnalyzeRequest');
+    target = parseSourceTarget(body.username);
+    analyzer = new GitHubRepoAnalyzer(resolveGithubToken(body, request), analyzerOptionsFromBody(body, target));
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const { minTokens = 1000000 } = body;
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  // Each progress event is written as one line of JSON (NDJSON) as soon as it happens
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisProgressEvent) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        await analyzer.analyzeUserProfile(target.account, minTokens, send, { isCancelled: () => cancelled });
+      } catch (error) {
+        console.error('Streaming analysis error:', error);
+        const { message, code, retryable } = toErrorInfo(error);
+        send({ type: 'error', error: message, code, retryable });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // The client went away; stop writing, and the analysis stops before its next repository
+      cancelled = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeCode, requireOAuthConfig, sessionForToken } from '@/lib/github-oauth';
+import { cookieOptions, PENDING_SIGN_IN_COOKIE, readPendingSignIn, sealSession, SESSION_COOKIE } from '@/lib/session';
+import { OAuthError, toAnalysisError } from '@/lib/errors';
+
+// GitHub redirects the browser here, so failures go back to the page as ?auth_error= rather than JSON
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const pending = readPendingSignIn(request);
+  const returnTo = pending?.method === 'web' ? pending.return_to : '/';
+
+  try {
+    const config = requireOAuthConfig();
+    if (params.get('error')) {
+      throw new OAuthError(params.get('error_description') || params.get('error')!, { oauth_error: params.get('error') });
+    }
+    if (!pending || pending.method !== 'web' || !params.get('state') || pending.state !== params.get('state')) {
+      throw new OAuthError('The sign-in expired or did not start here. Please sign in again.');
+    }
+
+    const token = await exchangeCode(config, params.get('code') || '', new URL('/api/auth/callback', request.url).toString());
+    const session = await sessionForToken(config, token, 'web');
+
+    const response = NextResponse.redirect(new URL(returnTo, request.url));
+    response.cookies.set(SESSION_COOKIE, sealSession(session), cookieOptions(request));
+    response.cookies.delete(PENDING_SIGN_IN_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('GitHub sign-in error:', error);
+    const target = new URL(returnTo, request.url);
+    target.searchParams.set('auth_error', toAnalysisError(error).message);
+    const response = NextResponse.redirect(target);
+    response.cookies.delete(PENDING_SIGN_IN_COOKIE);
+    return response;
+  }
+}
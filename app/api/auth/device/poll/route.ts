@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pollDeviceFlow, requireOAuthConfig, sessionForToken } from '@/lib/github-oauth';
+import { cookieOptions, describeSession, PENDING_SIGN_IN_COOKIE, readPendingSignIn, sealPendingSignIn, sealSession, SESSION_COOKIE } from '@/lib/session';
+import { OAuthError } from '@/lib/errors';
+import { errorResponse } from '@/lib/error-response';
+
+// Asks GitHub once whether the user entered the code. Answers { status: "pending" | "slow_down",
+// interval } until it is "complete" (with the session), "expired" or "denied".
+export async function POST(request: NextRequest) {
+  try {
+    const config = requireOAuthConfig();
+    const pending = readPendingSignIn(request);
+    if (!pending || pending.method !== 'device') {
+      throw new OAuthError('No device sign-in is in progress. Start one with POST /api/auth/device.');
+    }
+
+    const result = await pollDeviceFlow(config, pending.device_code, pending.interval);
+    if (result.status === 'pending' || result.status === 'slow_down') {
+      const response = NextResponse.json(result);
+      // GitHub expects every later poll to keep the longer interval
+      if (result.interval !== pending.interval) {
+        response.cookies.set(PENDING_SIGN_IN_COOKIE, sealPendingSignIn({ ...pending, interval: result.interval }), cookieOptions(request, 'pending'));
+      }
+      return response;
+    }
+
+    if (result.status !== 'complete') {
+      const response = NextResponse.json({ status: result.status });
+      response.cookies.delete(PENDING_SIGN_IN_COOKIE);
+      return response;
+    }
+
+    const session = await sessionForToken(config, result.token, 'device');
+
+    const response = NextResponse.json({ status: 'complete', session: describeSession(session) });
+    response.cookies.set(SESSION_COOKIE, sealSession(session), cookieOptions(request));
+    response.cookies.delete(PENDING_SIGN_IN_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Device flow error:', error);
+    return errorResponse(error);
+  }
+}
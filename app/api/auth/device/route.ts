@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOAuthConfig, startDeviceFlow } from '@/lib/github-oauth';
+import { cookieOptions, PENDING_SIGN_IN_COOKIE, sealPendingSignIn } from '@/lib/session';
+import { errorResponse } from '@/lib/error-response';
+
+// Starts the device flow. The page shows user_code and verification_uri and then polls
+// POST /api/auth/device/poll; the device code itself stays in the encrypted cookie.
+export async function POST(request: NextRequest) {
+  try {
+    const config = requireOAuthConfig();
+    const { device_code, user_code, verification_uri, expires_in, interval } = await startDeviceFlow(config);
+
+    const response = NextResponse.json({ user_code, verification_uri, expires_in, interval });
+    response.cookies.set(PENDING_SIGN_IN_COOKIE, sealPendingSignIn({
+      method: 'device',
+      device_code,
+      interval,
+      expires_at: new Date(Date.now() + expires_in * 1000).toISOString()
+    }), cookieOptions(request, 'pending'));
+    return response;
+  } catch (error) {
+    console.error('Device flow error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeUrl, requireOAuthConfig } from '@/lib/github-oauth';
+import { cookieOptions, PENDING_SIGN_IN_COOKIE, sealPendingSignIn } from '@/lib/session';
+import { errorResponse } from '@/lib/error-response';
+
+// Only paths on this site, so the login can't be used to redirect elsewhere. The value is
+// resolved the way browsers resolve it, which also catches `//host` and `/\host`; leading
+// slashes are collapsed so the stored path can't turn into `//host` either.
+function sameOriginPath(requested: string | null, requestUrl: string): string {
+  if (!requested) return '/';
+  try {
+    const base = new URL(requestUrl);
+    const target = new URL(requested, base);
+    if (target.origin !== base.origin) return '/';
+    return `${target.pathname.replace(/^\/+/, '/')}${target.search}${target.hash}`;
+  } catch {
+    return '/';
+  }
+}
+
+// Starts the web flow: redirects to GitHub's consent page with a one-time state that the
+// callback checks against the encrypted cookie set here
+export async function GET(request: NextRequest) {
+  try {
+    const config = requireOAuthConfig();
+    const state = randomBytes(16).toString('hex');
+    const returnTo = sameOriginPath(request.nextUrl.searchParams.get('return_to'), request.url);
+
+    const response = NextResponse.redirect(authorizeUrl(config, new URL('/api/auth/callback', request.url).toString(), state));
+    response.cookies.set(PENDING_SIGN_IN_COOKIE, sealPendingSignIn({ method: 'web', state, return_to: returnTo }), cookieOptions(request, 'pending'));
+    return response;
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,234 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET as login } from './login/route';
+import { GET as callback } from './callback/route';
+import { POST as startDevice } from './device/route';
+import { POST as pollDevice } from './device/poll/route';
+import { PENDING_SIGN_IN_COOKIE, readSession, sealPendingSignIn, SESSION_COOKIE } from '@/lib/session';
+
+const SITE = 'http://localhost:3000';
+
+interface StubRequest {
+  method: string;
+  path: string;
+  form: Record<string, string>;
+  authorization?: string;
+}
+
+// GitHub's OAuth endpoints and /user, as the flows use them. The device code `device-1` is
+// pending on the first poll, asks to slow down on the second and is granted on the third.
+function startStubGitHub(): Promise<{ server: Server; baseUrl: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = [];
+  let devicePolls = 0;
+
+  const readForm = (request: IncomingMessage) => new Promise<Record<string, string>>(resolve => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(Object.fromEntries(new URLSearchParams(body))));
+  });
+
+  const server = createServer(async (request, response) => {
+    const form = await readForm(request);
+    const path = request.url || '/';
+    requests.push({ method: request.method || 'GET', path, form, authorization: request.headers.authorization });
+    const send = (body: unknown, headers: Record<string, string> = {}) => {
+      response.writeHead(200, { 'content-type': 'application/json', ...headers });
+      response.end(JSON.stringify(body));
+    };
+
+    if (path === '/login/device/code') {
+      return send({ device_code: 'device-1', user_code: 'WDJB-MJHT', verification_uri: 'https://github.test/login/device', expires_in: 900, interval: 5 });
+    }
+    if (path === '/login/oauth/access_token' && form.code === 'unlucky-code') {
+      response.writeHead(502, { 'content-type': 'text/plain' });
+      return response.end('Bad Gateway');
+    }
+    if (path === '/login/oauth/access_token' && form.code) {
+      return send(form.code === 'good-code'
+        ? { access_token: 'web-token', token_type: 'bearer' }
+        : { error: 'bad_verification_code', error_description: 'The code passed is incorrect or expired.' });
+    }
+    if (path === '/login/oauth/access_token' && form.device_code === 'device-1') {
+      devicePolls++;
+      if (devicePolls === 1) return send({ error: 'authorization_pending' });
+      if (devicePolls === 2) return send({ error: 'slow_down', interval: 10 });
+      return send({ access_token: 'device-token', token_type: 'bearer' });
+    }
+    if (path === '/login/oauth/access_token' && form.device_code) {
+      return send({ error: 'access_denied' });
+    }
+    if (path === '/api/user' && request.headers.authorization) {
+      return send({ login: 'octocat', avatar_url: 'https://github.test/octocat.png' }, { 'x-oauth-scopes': 'read:user, public_repo' });
+    }
+    response.writeHead(404, { 'content-type': 'application/json' });
+    response.end(JSON.stringify({ message: 'Not Found' }));
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+const cookieHeader = (cookies: Record<string, string | undefined>) =>
+  Object.entries(cookies)
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ');
+
+const request = (path: string, cookies: Record<string, string | undefined> = {}, method = 'GET') =>
+  new NextRequest(`${SITE}${path}`, { method, headers: { cookie: cookieHeader(cookies) } });
+
+const sessionFrom = (sealed: string | undefined) =>
+  sealed ? readSession(new Request(SITE, { headers: { cookie: `${SESSION_COOKIE}=${sealed}` } })) : null;
+
+describe('GitHub sign-in', () => {
+  let stub: Awaited<ReturnType<typeof startStubGitHub>>;
+
+  beforeAll(async () => {
+    stub = await startStubGitHub();
+  });
+
+  afterAll(() => new Promise<void>(resolve => stub.server.close(() => resolve())));
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    vi.stubEnv('GITHUB_CLIENT_ID', 'client-id');
+    vi.stubEnv('GITHUB_CLIENT_SECRET', 'client-secret');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret');
+    vi.stubEnv('GITHUB_OAUTH_URL', stub.baseUrl);
+    vi.stubEnv('GITHUB_API_URL', `${stub.baseUrl}/api`);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('web flow', () => {
+    async function startSignIn(returnTo: string) {
+      const response = await login(request(`/api/auth/login?return_to=${encodeURIComponent(returnTo)}`));
+      const authorize = new URL(response.headers.get('location')!);
+      return { response, authorize, pending: response.cookies.get(PENDING_SIGN_IN_COOKIE)?.value };
+    }
+
+    it('redirects to the authorization page and signs in from the callback', async () => {
+      const { authorize, pending } = await startSignIn('/reports?user=octocat');
+
+      expect(`${authorize.origin}${authorize.pathname}`).toBe(`${stub.baseUrl}/login/oauth/authorize`);
+      expect(authorize.searchParams.get('client_id')).toBe('client-id');
+      expect(authorize.searchParams.get('redirect_uri')).toBe(`${SITE}/api/auth/callback`);
+      expect(authorize.searchParams.get('scope')).toBe('read:user public_repo');
+      expect(pending).toBeTruthy();
+
+      const state = authorize.searchParams.get('state');
+      const response = await callback(request(`/api/auth/callback?code=good-code&state=${state}`, { [PENDING_SIGN_IN_COOKIE]: pending }));
+
+      expect(response.headers.get('location')).toBe(`${SITE}/reports?user=octocat`);
+      expect(sessionFrom(response.cookies.get(SESSION_COOKIE)?.value)).toMatchObject({
+        token: 'web-token',
+        login: 'octocat',
+        scopes: ['read:user', 'public_repo'],
+        method: 'web'
+      });
+      expect(stub.requests.find(sent => sent.path === '/login/oauth/access_token')?.form).toEqual({
+        client_id: 'client-id',
+        client_secret: 'client-secret',
+        code: 'good-code',
+        redirect_uri: `${SITE}/api/auth/callback`
+      });
+      expect(stub.requests.find(sent => sent.path === '/api/user')?.authorization).toBe('token web-token');
+    });
+
+    it('returns to the home page instead of another site', async () => {
+      for (const returnTo of ['https://evil.test/', '//evil.test/', '/\\evil.test/', '/.//evil.test/']) {
+        const { authorize, pending } = await startSignIn(returnTo);
+        const response = await callback(request(`/api/auth/callback?code=good-code&state=${authorize.searchParams.get('state')}`, { [PENDING_SIGN_IN_COOKIE]: pending }));
+        expect(new URL(response.headers.get('location')!).origin).toBe(SITE);
+      }
+    });
+
+    it('refuses a callback whose state does not match the sign-in', async () => {
+      const { pending } = await startSignIn('/');
+      const response = await callback(request('/api/auth/callback?code=good-code&state=forged', { [PENDING_SIGN_IN_COOKIE]: pending }));
+
+      expect(new URL(response.headers.get('location')!).searchParams.get('auth_error')).toMatch(/sign in again/);
+      expect(response.cookies.get(SESSION_COOKIE)).toBeUndefined();
+      expect(stub.requests.some(sent => sent.path === '/login/oauth/access_token')).toBe(false);
+    });
+
+    it("passes GitHub's error back to the page", async () => {
+      const { authorize, pending } = await startSignIn('/');
+      const response = await callback(request(`/api/auth/callback?code=stale-code&state=${authorize.searchParams.get('state')}`, { [PENDING_SIGN_IN_COOKIE]: pending }));
+
+      expect(new URL(response.headers.get('location')!).searchParams.get('auth_error')).toBe('The code passed is incorrect or expired.');
+      expect(response.cookies.get(SESSION_COOKIE)).toBeUndefined();
+    });
+
+    it('sends the single-use code once, even when GitHub fails', async () => {
+      const { authorize, pending } = await startSignIn('/');
+      const response = await callback(request(`/api/auth/callback?code=unlucky-code&state=${authorize.searchParams.get('state')}`, { [PENDING_SIGN_IN_COOKIE]: pending }));
+
+      expect(new URL(response.headers.get('location')!).searchParams.get('auth_error')).toMatch(/502/);
+      expect(stub.requests.filter(sent => sent.path === '/login/oauth/access_token')).toHaveLength(1);
+    });
+
+    it('answers 501 when sign-in is not configured', async () => {
+      vi.stubEnv('GITHUB_CLIENT_ID', '');
+      const response = await login(request('/api/auth/login'));
+
+      expect(response.status).toBe(501);
+      expect((await response.json()).code).toBe('oauth_failed');
+    });
+  });
+
+  describe('device flow', () => {
+    it('polls until the code is granted, keeping the longer interval', async () => {
+      const started = await startDevice(request('/api/auth/device', {}, 'POST'));
+      expect(await started.json()).toEqual({ user_code: 'WDJB-MJHT', verification_uri: 'https://github.test/login/device', expires_in: 900, interval: 5 });
+      let pending = started.cookies.get(PENDING_SIGN_IN_COOKIE)?.value;
+
+      const first = await pollDevice(request('/api/auth/device/poll', { [PENDING_SIGN_IN_COOKIE]: pending }, 'POST'));
+      expect(await first.json()).toEqual({ status: 'pending', interval: 5 });
+
+      const second = await pollDevice(request('/api/auth/device/poll', { [PENDING_SIGN_IN_COOKIE]: pending }, 'POST'));
+      expect(await second.json()).toEqual({ status: 'slow_down', interval: 10 });
+      pending = second.cookies.get(PENDING_SIGN_IN_COOKIE)?.value;
+
+      const third = await pollDevice(request('/api/auth/device/poll', { [PENDING_SIGN_IN_COOKIE]: pending }, 'POST'));
+      const body = await third.json();
+      expect(body.status).toBe('complete');
+      expect(body.session).toMatchObject({ login: 'octocat', method: 'device', private_repos: false });
+      expect(body.session.token).toBeUndefined();
+      expect(sessionFrom(third.cookies.get(SESSION_COOKIE)?.value)?.token).toBe('device-token');
+
+      const polls = stub.requests.filter(sent => sent.path === '/login/oauth/access_token');
+      expect(polls.map(sent => sent.form)).toEqual(Array(3).fill({
+        client_id: 'client-id',
+        device_code: 'device-1',
+        grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+      }));
+    });
+
+    it('reports a denied code and clears the sign-in', async () => {
+      const pending = sealPendingSignIn({ method: 'device', device_code: 'device-2', interval: 5, expires_at: new Date(Date.now() + 60000).toISOString() });
+      const response = await pollDevice(request('/api/auth/device/poll', { [PENDING_SIGN_IN_COOKIE]: pending }, 'POST'));
+
+      expect(await response.json()).toEqual({ status: 'denied' });
+      expect(response.cookies.get(PENDING_SIGN_IN_COOKIE)?.value).toBe('');
+    });
+
+    it('refuses to poll without a sign-in in progress', async () => {
+      const response = await pollDevice(request('/api/auth/device/poll', {}, 'POST'));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).code).toBe('oauth_failed');
+    });
+  });
+});
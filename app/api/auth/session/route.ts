@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOAuthConfig } from '@/lib/github-oauth';
+import { describeSession, readSession, SESSION_COOKIE, sessionsEnabled } from '@/lib/session';
+
+// Who is signed in and the scopes their token was granted; the token itself never leaves the server
+export async function GET(request: NextRequest) {
+  const config = getOAuthConfig();
+  const session = readSession(request);
+  const available = !!config && sessionsEnabled();
+
+  return NextResponse.json({
+    authenticated: !!session,
+    session: session ? describeSession(session) : null,
+    sign_in: {
+      web: available && !!config!.clientSecret,
+      device: available,
+      scopes: config ? config.scopes : []
+    }
+  });
+}
+
+// Signs out by dropping the cookie. The OAuth grant itself stays until it is revoked on GitHub.
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
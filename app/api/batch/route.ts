@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { analyzeBatch, BatchProgressEvent, MAX_BATCH_USERS, parseUsernameList } from '@/lib/batch';
+import { analyzerOptionsFromBody, readRequestBody, resolveGithubToken } from '@/lib/request-options';
+import { toErrorInfo, ValidationError } from '@/lib/errors';
+import { errorResponse } from '@/lib/error-response';
+
+// Screens a list of profiles and streams per-user progress as NDJSON, ending with a
+// batch_summary event that holds the ranked leaderboard
+export async function POST(request: NextRequest) {
+  let body: Record<string, any>;
+  try {
+    body = await readRequestBody(request, 'BatchRequest');
+  } catch (error) {
+    return errorResponse(error);
+  }
+  const { usernames, text, minTokens = 1000000, userConcurrency } = body;
+
+  // Either an array of usernames/URLs or raw text (one per line, or CSV)
+  const list = parseUsernameList(usernames ? usernames.join('\n') : text || '');
+
+  if (!list.length) {
+    return errorResponse(new ValidationError([{ field: 'usernames', message: 'must hold at least one username' }]));
+  }
+  if (list.length > MAX_BATCH_USERS) {
+    return errorResponse(new ValidationError([{ field: 'usernames', message: `must hold at most ${MAX_BATCH_USERS} usernames (got ${list.length})` }]));
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: BatchProgressEvent) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        await analyzeBatch(list, {
+          token: resolveGithubToken(body, request),
+          minTokens,
+          userConcurrency,
+          analyzerOptions: analyzerOptionsFromBody(body),
+          onProgress: send,
+          // No point spending the budget on profiles nobody is waiting for
+          isCancelled: () => cancelled
+        });
+      } catch (error) {
+        console.error('Batch analysis error:', error);
+        const { message, code, retryable } = toErrorInfo(error);
+        send({ type: 'error', error: message, code, retryable });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { sealSession, SESSION_COOKIE } from '@/lib/session';
+
+const API = 'https://api.github.test';
+
+describe('GET /api/export', () => {
+  let authorizations: (string | undefined)[];
+
+  beforeEach(() => {
+    authorizations = [];
+    vi.stubEnv('GITHUB_API_URL', API);
+    vi.stubEnv('GITHUB_TOKEN', '');
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', async (input: string, init: RequestInit = {}) => {
+      authorizations.push((init.headers as Record<string, string> | undefined)?.['Authorization']);
+      const path = input.replace(API, '');
+      if (path === '/users/alice') return Response.json({ login: 'alice', type: 'User' });
+      if (path.startsWith('/users/alice/repos?')) return Response.json([]);
+      return new Response('Not Found', { status: 404 });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const session = () => sealSession({ token: 'session-token', login: 'alice', scopes: [], method: 'web', created_at: new Date().toISOString() });
+
+  it("doesn't spend the signed-in user's token", async () => {
+    await GET(new NextRequest(`http://localhost:3000/api/export?username=alice&format=csv`, {
+      headers: { cookie: `${SESSION_COOKIE}=${session()}` }
+    }));
+
+    expect(authorizations.length).toBeGreaterThan(0);
+    expect(authorizations).not.toContain('token session-token');
+  });
+
+  it('uses a token sent in the Authorization header', async () => {
+    await GET(new NextRequest(`http://localhost:3000/api/export?username=alice&format=csv`, {
+      headers: { authorization: 'token header-token', cookie: `${SESSION_COOKIE}=${session()}` }
+    }));
+
+    expect(authorizations).toContain('token header-token');
+    expect(authorizations).not.toContain('token session-token');
+  });
+});
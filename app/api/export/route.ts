@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { AnalysisResult, GitHubRepoAnalyzer } from '@/lib/github-analyzer';
+import { parseSourceTarget } from '@/lib/source-provider';
+import { analyzerOptionsFromBody, readRequestBody, resolveGithubToken } from '@/lib/request-options';
+import { validateRequest } from '@/lib/api-schemas';
+import { CsvTable, EXPORT_FORMATS, ExportFormat, exportResult, resultFromRepoAnalysis } from '@/lib/export';
+import { errorFromInfo, InvalidRequestError, ValidationError } from '@/lib/errors';
+import { errorResponse } from '@/lib/error-response';
+
+function fileResponse(result: AnalysisResult, format: ExportFormat, table: CsvTable, download: boolean) {
+  const file = exportResult(result, format, table);
+  return new Response(file.body, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${file.filename}"`
+    }
+  });
+}
+
+// Query parameters are strings; numbers are converted so the schema can reject "abc" or -5
+function numberParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  return value === null || value === '' ? undefined : Number(value);
+}
+
+// Runs an analysis and returns it in the requested format, e.g.
+// GET /api/export?username=octocat&format=csv. Tokens are never read from the URL:
+// send `Authorization: token ...` (the GitLab or Gitea token for those hosts) or rely on
+// GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN. The sign-in session is not used either: a link
+// on another site could otherwise spend the signed-in user's token, since the session cookie
+// is sent on top-level navigations.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const format = (params.get('format') || 'json') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return errorResponse(new ValidationError([{ field: 'format', message: `must be one of ${EXPORT_FORMATS.join(', ')}` }]));
+  }
+
+  const username = params.get('username');
+  const repo = params.get('repo');
+  const authorization = request.headers.get('authorization');
+  const target = repo
+    ? { repo, ref: params.get('ref') || undefined, path: params.get('path') || undefined }
+    : { username: username || undefined };
+  const table: CsvTable = params.get('table') === 'extensions' ? 'extensions' : 'summary';
+
+  try {
+    const sourceTarget = parseSourceTarget(repo || username || '');
+    const headerToken = authorization ? authorization.replace(/^(token|bearer)\s+/i, '') : undefined;
+    const body = validateRequest(repo ? 'RepoAnalysisRequest' : 'AnalyzeRequest', {
+      ...target,
+      minTokens: numberParam(params, 'minTokens'),
+      [sourceTarget.kind === 'github' ? 'githubToken' : 'sourceToken']: headerToken,
+      encoding: params.get('encoding') || undefined,
+      ingestionMode: params.get('ingestionMode') || undefined,
+      listingBackend: params.get('listingBackend') || undefined,
+      discoveryBackend: params.get('discoveryBackend') || undefined,
+      breakdownTopN: numberParam(params, 'breakdownTopN'),
+      prescreen: params.get('prescreen') === 'true',
+      attribution: params.get('attribution') === 'threshold' ? { applyThreshold: true } : params.get('attribution') === 'report'
+    });
+    const { minTokens = 1000000 } = body;
+    const analyzer = new GitHubRepoAnalyzer(resolveGithubToken(body), analyzerOptionsFromBody(body, sourceTarget));
+
+    if (repo) {
+      const reference = sourceTarget.reference;
+      if (!reference) {
+        return errorResponse(new InvalidRequestError('repo must be owner/repo, a GitHub, GitLab or Gitea repository URL, or a local checkout', { field: 'repo' }));
+      }
+      if (body.ref) reference.ref = body.ref;
+      if (body.path) reference.path = body.path;
+
+      const analysis = await analyzer.analyzeSingleRepository(reference, minTokens);
+      return fileResponse(resultFromRepoAnalysis(analysis, minTokens), format, table, params.has('download'));
+    }
+
+    const result = await analyzer.analyzeUserProfile(sourceTarget.account, minTokens);
+    if (result.error_info) {
+      return errorResponse(errorFromInfo(result.error_info));
+    }
+    return fileResponse(result, format, table, params.has('download'));
+  } catch (error) {
+    console.error('Export error:', error);
+    return errorResponse(error);
+  }
+}
+
+// Converts a result the caller already has, so finished analyses can be exported without re-running them
+export async function POST(request: NextRequest) {
+  try {
+    const { result, format = 'json', table = 'summary' } = await readRequestBody(request, 'ExportRequest');
+    return fileResponse(result, format, table, true);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
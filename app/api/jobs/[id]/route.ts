@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobQueue, publicJob } from '@/lib/job-queue';
+import { validateRequest } from '@/lib/api-schemas';
+import { requestOwner, resolveGithubToken } from '@/lib/request-options';
+import { errorResponse } from '@/lib/error-response';
+import { JobNotFoundError } from '@/lib/errors';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(id: string) {
+  return errorResponse(new JobNotFoundError(id));
+}
+
+// Status, progress, checkpointed repositories (the partial results) and errors. Jobs are only
+// found with the sign-in or token (Authorization header) they were created with.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const job = await getJobQueue().get(params.id, requestOwner(request));
+    return job ? NextResponse.json(publicJob(job)) : notFound(params.id);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Resumes an interrupted, failed or cancelled job from its checkpoints. Tokens are not
+// stored, so send githubToken or sourceToken again (or sign in) if the server restarted since
+// the job was created.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    // An empty body is allowed here
+    const body = validateRequest('ResumeJobRequest', await request.json().catch(() => ({})));
+    const job = await getJobQueue().resume(params.id, requestOwner(request, body), resolveGithubToken(body, request), body.sourceToken);
+    if (!job) return notFound(params.id);
+
+    return NextResponse.json(publicJob(job), { status: job.status === 'queued' ? 202 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Cancels the job; a running job stops before its next repository
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const job = await getJobQueue().cancel(params.id, requestOwner(request));
+    if (!job) return notFound(params.id);
+
+    return NextResponse.json(publicJob(job), { status: job.status === 'running' ? 202 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
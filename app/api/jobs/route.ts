@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractUsername } from '@/lib/github-url';
+import { getJobQueue, publicJob } from '@/lib/job-queue';
+import { readRequestBody, requestOwner, resolveGithubToken, sourceProviderFor } from '@/lib/request-options';
+import { parseSourceTarget } from '@/lib/source-provider';
+import { errorResponse } from '@/lib/error-response';
+
+// Enqueues a profile analysis and returns at once; poll GET /api/jobs/{id} for progress. The job
+// belongs to the signed-in user or the token sent, and only they can read, cancel or resume it.
+// There is no listing of jobs: callers keep the ids they were given.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readRequestBody(request, 'AnalyzeRequest');
+    // Hosts and directories the server won't read are refused now rather than when the job runs
+    sourceProviderFor(parseSourceTarget(body.username), body);
+    // Tokens are kept out of the stored options
+    const { username, minTokens = 1000000, githubToken, sourceToken, ...options } = body;
+
+    const job = await getJobQueue().enqueue(
+      { username: extractUsername(username), minTokens, options, owner: requestOwner(request, body) },
+      resolveGithubToken(body, request),
+      sourceToken
+    );
+
+    return NextResponse.json(publicJob(job), {
+      status: 202,
+      headers: { Location: `/api/jobs/${job.id}` }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
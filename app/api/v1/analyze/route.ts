@@ -0,0 +1,2 @@
+// /api/v1 serves the same handlers as /api; lib/openapi.ts describes the contract
+export { GET, POST } from '@/app/api/analyze/route';
@@ -0,0 +1 @@
+export { GET, POST } from '@/app/api/export/route';
@@ -0,0 +1 @@
+export { DELETE, GET, POST } from '@/app/api/jobs/[id]/route';
@@ -0,0 +1,389 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { parse as parsePath } from 'path';
+import { parseArgs } from 'util';
+import { AnalysisProgressEvent, AnalysisResult, AnalyzerOptions, GitHubRepoAnalyzer, RepoAnalysis } from '../lib/github-analyzer';
+import { analyzeBatch, BatchProgressEvent, BatchResult, MAX_BATCH_USERS, parseUsernameList } from '../lib/batch';
+import { exportResult, resultFromRepoAnalysis, toLeaderboardCsv } from '../lib/export';
+import { analyzerOptionsFromBody, resolveGithubToken, sourceProviderFor } from '../lib/request-options';
+import { parseSourceTarget, SourceTarget } from '../lib/source-provider';
+import { errorFromInfo, toAnalysisError } from '../lib/errors';
+
+type OutputFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv', 'markdown'];
+
+// Exit codes, so scripts can branch on the outcome without parsing the output
+const EXIT_QUALIFIES = 0;
+const EXIT_DOES_NOT_QUALIFY = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage:
+  gh-token-analyzer user <username|profile URL|directory> [options]
+  gh-token-analyzer repo <owner/repo|repository URL|checkout> [--ref <ref>] [--path <dir>] [options]
+  gh-token-analyzer batch <file|-> [--user-concurrency <n>] [options]
+
+Options:
+  --min-tokens <n>         Threshold a repository must reach (default 1000000)
+  --format <format>        table (default), json, csv or markdown (batch: table, json or csv)
+  --token <token>          GitHub token (default: $GITHUB_TOKEN)
+  --source-token <token>   GitLab or Gitea token (default: $GITLAB_TOKEN or $GITEA_TOKEN)
+  --encoding <name>        cl100k_base (default), o200k_base, p50k_base or approximate
+  --ingestion-mode <mode>  files (default) or tarball
+  --listing-backend <name> tree (default) or contents
+  --discovery <backend>    rest (default) or graphql (needs a token)
+  --skip-archived          Leave out archived repositories
+  --skip-templates         Leave out template repositories
+  --pushed-within <days>   Only repositories pushed to within this many days
+  --topic <name>           Only repositories with this topic (repeatable)
+  --concurrency <n>        Repositories analyzed at the same time
+  --prescreen              Settle clear cases from repository metadata
+  --attribution <mode>     report, or threshold to judge authored tokens
+  --no-cache               Ignore and don't store cached results
+  --quiet                  No progress on stderr
+  --verbose                Also print the analyzer's log on stderr
+  -h, --help               Show this help
+
+Profile and repository URLs may point at GitLab or Gitea (including
+self-hosted instances listed in $GITLAB_HOSTS or $GITEA_HOSTS), and paths
+name git checkouts on disk, or a directory of them.
+
+A batch file holds one username or profile URL per line, a comma-separated
+list, or a CSV with a username, login or url column; "-" reads stdin.
+
+Exit status: 0 when something qualifies (for a batch: at least one profile),
+1 when nothing does, 2 on errors.`;
+
+class UsageError extends Error {}
+
+function fail(message: string): never {
+  throw new UsageError(message);
+}
+
+function parseCount(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const count = Number(value);
+  if (!isFinite(count) || count < 0 || Math.floor(count) !== count) {
+    fail(`--${name} must be a whole number, got '${value}'`);
+  }
+  return count;
+}
+
+function parseCommandLine(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'min-tokens': { type: 'string' },
+      format: { type: 'string' },
+      token: { type: 'string' },
+      'source-token': { type: 'string' },
+      encoding: { type: 'string' },
+      'ingestion-mode': { type: 'string' },
+      'listing-backend': { type: 'string' },
+      discovery: { type: 'string' },
+      'skip-archived': { type: 'boolean' },
+      'skip-templates': { type: 'boolean' },
+      'pushed-within': { type: 'string' },
+      topic: { type: 'string', multiple: true },
+      concurrency: { type: 'string' },
+      'user-concurrency': { type: 'string' },
+      ref: { type: 'string' },
+      path: { type: 'string' },
+      prescreen: { type: 'boolean' },
+      attribution: { type: 'string' },
+      'no-cache': { type: 'boolean' },
+      quiet: { type: 'boolean' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const format = (values.format || 'table') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    fail(`--format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (values.attribution && values.attribution !== 'report' && values.attribution !== 'threshold') {
+    fail(`--attribution must be report or threshold`);
+  }
+  if (values.discovery && values.discovery !== 'rest' && values.discovery !== 'graphql') {
+    fail(`--discovery must be rest or graphql`);
+  }
+
+  // The same body the web routes accept, so both resolve options through request-options
+  const body = {
+    githubToken: values.token,
+    sourceToken: values['source-token'],
+    encoding: values.encoding,
+    ingestionMode: values['ingestion-mode'],
+    listingBackend: values['listing-backend'],
+    discoveryBackend: values.discovery,
+    repoFilters: {
+      includeArchived: !values['skip-archived'],
+      includeTemplates: !values['skip-templates'],
+      pushedWithinDays: parseCount('pushed-within', values['pushed-within']),
+      topics: values.topic
+    },
+    repoConcurrency: parseCount('concurrency', values.concurrency),
+    useCache: !values['no-cache'],
+    prescreen: !!values.prescreen,
+    attribution: values.attribution === 'threshold' ? { applyThreshold: true } : values.attribution === 'report'
+  };
+
+  return {
+    command: positionals[0],
+    target: positionals[1],
+    extra: positionals.slice(2),
+    minTokens: parseCount('min-tokens', values['min-tokens']) ?? 1000000,
+    format,
+    ref: values.ref,
+    path: values.path,
+    userConcurrency: parseCount('user-concurrency', values['user-concurrency']),
+    quiet: !!values.quiet,
+    verbose: !!values.verbose,
+    help: !!values.help,
+    body
+  };
+}
+
+type CommandLine = ReturnType<typeof parseCommandLine>;
+
+// stdout carries only the result, so it can be piped or redirected; everything else goes to stderr
+function progress(commandLine: CommandLine, line: string) {
+  if (!commandLine.quiet) process.stderr.write(`${line}\n`);
+}
+
+function formatNumber(num: number): string {
+  return num.toLocaleString('en-US');
+}
+
+function padCell(text: string, width: number, right: boolean): string {
+  const padding = new Array(Math.max(0, width - text.length) + 1).join(' ');
+  return right ? padding + text : text + padding;
+}
+
+// Plain-text columns; `numeric` columns are right-aligned
+function formatTable(header: string[], rows: string[][], numeric: number[]): string {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells
+    .map((cell, column) => padCell(cell, widths[column], numeric.includes(column)))
+    .join('  ')
+    .replace(/\s+$/, '');
+  return [line(header), line(widths.map(width => new Array(width + 1).join('-'))), ...rows.map(line)].join('\n') + '\n';
+}
+
+function repoStatus(repo: RepoAnalysis): string {
+  if (repo.meets_criteria) return 'qualifies';
+  if (repo.completeness && !repo.completeness.conclusive) {
+    return `inconclusive (~${formatNumber(repo.completeness.estimated_total_tokens)})`;
+  }
+  return 'below';
+}
+
+function resultTable(result: AnalysisResult): string {
+  const repos = Object.values(result.all_repo_stats).sort((a, b) => b.total_tokens - a.total_tokens);
+  const rows = repos.map(repo => [
+    repo.name,
+    `${repo.measured === false ? '≈' : ''}${formatNumber(repo.total_tokens)}`,
+    repo.unique_tokens !== undefined ? formatNumber(repo.unique_tokens) : '',
+    repo.attribution ? formatNumber(repo.attribution.authored_tokens) : '',
+    `${repo.file_stats.processed_files}/${repo.file_stats.total_files}`,
+    repo.language || '',
+    repoStatus(repo)
+  ]);
+
+  const lines = [
+    formatTable(['Repository', 'Tokens', 'Unique', 'Authored', 'Files', 'Language', 'Status'], rows, [1, 2, 3, 4]),
+    `${result.repos_meeting_criteria.length} of ${result.total_repos_analyzed} repositories of ${result.username} have at least ${formatNumber(result.min_tokens_threshold)} tokens.`
+  ];
+  if (result.aborted_reason) lines.push(`Stopped early: ${result.aborted_reason}`);
+  (result.repo_errors || []).forEach(repoError => {
+    lines.push(`Not analyzed: ${repoError.repo} (${repoError.code}): ${repoError.message}`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+function batchTable(result: BatchResult): string {
+  const rows = result.leaderboard.map(entry => [
+    String(entry.rank),
+    entry.username,
+    entry.status,
+    entry.qualifies ? 'yes' : 'no',
+    `${formatNumber(entry.total_tokens)}${entry.estimated_tokens ? ` (+≈${formatNumber(entry.estimated_tokens)})` : ''}`,
+    String(entry.qualifying_repos.length),
+    entry.largest_repo ? `${entry.largest_repo.name} (${entry.largest_repo.estimated ? '≈' : ''}${formatNumber(entry.largest_repo.tokens)})` : '',
+    entry.error || entry.aborted_reason || ''
+  ]);
+
+  return formatTable(['Rank', 'User', 'Status', 'Qualifies', 'Tokens', 'Qualifying', 'Largest repository', 'Note'], rows, [0, 4, 5]) +
+    `\n${result.qualifying_users} of ${result.total_users} profiles have a repository with at least ${formatNumber(result.min_tokens_threshold)} tokens (${result.failed_users} failed).\n`;
+}
+
+function formatResult(result: AnalysisResult, format: OutputFormat): string {
+  return format === 'table' ? resultTable(result) : exportResult(result, format).body;
+}
+
+function onAnalysisProgress(commandLine: CommandLine) {
+  let done = 0;
+  return (event: AnalysisProgressEvent) => {
+    if (event.type === 'repos_listed') {
+      progress(commandLine, `Analyzing ${event.repos.length} repositories of ${event.username}`);
+    } else if (event.type === 'repo_completed') {
+      const { analysis } = event;
+      progress(commandLine, `[${++done}/${event.total}] ${event.repo}: ${analysis.measured === false ? '≈' : ''}${formatNumber(analysis.total_tokens)} tokens${analysis.meets_criteria ? ' ✓' : ''}`);
+    } else if (event.type === 'repo_failed') {
+      progress(commandLine, `[${++done}/${event.total}] ${event.repo}: failed (${event.error})`);
+    }
+  };
+}
+
+function onBatchProgress(commandLine: CommandLine) {
+  let done = 0;
+  return (event: BatchProgressEvent) => {
+    if (event.type === 'batch_started') {
+      progress(commandLine, `Screening ${event.usernames.length} profiles`);
+    } else if (event.type === 'user_completed' || event.type === 'user_failed') {
+      const { entry } = event;
+      const outcome = entry.status === 'completed'
+        ? `${formatNumber(entry.total_tokens)} tokens in ${entry.repos_analyzed} repositories${entry.qualifies ? ' ✓' : ''}`
+        : `${entry.status} (${entry.error})`;
+      progress(commandLine, `[${++done}/${event.total}] ${event.username}: ${outcome}`);
+    }
+  };
+}
+
+// Unlike the server, the CLI reads whatever host or directory its user points it at
+function analyzerOptionsFor(commandLine: CommandLine, target: SourceTarget): AnalyzerOptions {
+  return {
+    ...analyzerOptionsFromBody(commandLine.body),
+    source: sourceProviderFor(target, commandLine.body, { localRoot: parsePath(process.cwd()).root, anyHost: true })
+  };
+}
+
+async function runUser(commandLine: CommandLine): Promise<{ output: string; code: number }> {
+  if (!commandLine.target) fail('user needs a username, profile URL or directory');
+
+  const target = parseSourceTarget(commandLine.target);
+  const analyzer = new GitHubRepoAnalyzer(resolveGithubToken(commandLine.body), analyzerOptionsFor(commandLine, target));
+  const result = await analyzer.analyzeUserProfile(target.account, commandLine.minTokens, onAnalysisProgress(commandLine));
+  if (result.error_info) throw errorFromInfo(result.error_info);
+
+  return {
+    output: formatResult(result, commandLine.format),
+    code: result.repos_meeting_criteria.length > 0 ? EXIT_QUALIFIES : EXIT_DOES_NOT_QUALIFY
+  };
+}
+
+async function runRepo(commandLine: CommandLine): Promise<{ output: string; code: number }> {
+  const target = commandLine.target ? parseSourceTarget(commandLine.target) : null;
+  const reference = target && target.reference;
+  if (!target || !reference) fail('repo needs owner/repo, a GitHub, GitLab or Gitea repository URL, or a local checkout');
+
+  // An explicit ref or path overrides whatever was taken from a /tree/ or /blob/ URL
+  if (commandLine.ref) reference.ref = commandLine.ref;
+  if (commandLine.path) reference.path = commandLine.path;
+
+  progress(commandLine, `Analyzing ${reference.owner}/${reference.repo}${reference.ref ? `@${reference.ref}` : ''}${reference.path ? `/${reference.path}` : ''}`);
+  const analyzer = new GitHubRepoAnalyzer(resolveGithubToken(commandLine.body), analyzerOptionsFor(commandLine, target));
+  const analysis = await analyzer.analyzeSingleRepository(reference, commandLine.minTokens);
+
+  return {
+    // JSON is the RepoAnalysis itself, as POST /api/analyze/repo returns it
+    output: commandLine.format === 'json'
+      ? JSON.stringify(analysis, null, 2)
+      : formatResult(resultFromRepoAnalysis(analysis, commandLine.minTokens), commandLine.format),
+    code: analysis.meets_criteria ? EXIT_QUALIFIES : EXIT_DOES_NOT_QUALIFY
+  };
+}
+
+async function runBatch(commandLine: CommandLine): Promise<{ output: string; code: number }> {
+  if (!commandLine.target) fail('batch needs a file of usernames, or - to read them from stdin');
+  if (commandLine.format === 'markdown') fail('batch results can be printed as table, json or csv');
+
+  const text = readFileSync(commandLine.target === '-' ? 0 : commandLine.target, 'utf8');
+  const usernames = parseUsernameList(text);
+  if (!usernames.length) fail(`No usernames found in ${commandLine.target === '-' ? 'stdin' : commandLine.target}`);
+  if (usernames.length > MAX_BATCH_USERS) fail(`A batch holds at most ${MAX_BATCH_USERS} profiles, got ${usernames.length}`);
+
+  const result = await analyzeBatch(usernames, {
+    token: resolveGithubToken(commandLine.body),
+    minTokens: commandLine.minTokens,
+    userConcurrency: commandLine.userConcurrency,
+    analyzerOptions: analyzerOptionsFromBody(commandLine.body),
+    onProgress: onBatchProgress(commandLine)
+  });
+
+  const output = commandLine.format === 'json'
+    ? JSON.stringify(result, null, 2)
+    : commandLine.format === 'csv' ? toLeaderboardCsv(result) : batchTable(result);
+  // A batch where no profile could be analyzed at all is an error, not a negative result
+  const code = result.qualifying_users > 0
+    ? EXIT_QUALIFIES
+    : result.completed_users === 0 ? EXIT_ERROR : EXIT_DOES_NOT_QUALIFY;
+  return { output, code };
+}
+
+// The analyzer logs to the console as it goes; keep stdout for the result and show the log
+// on stderr only when asked
+function redirectConsole(verbose: boolean) {
+  const toStderr = verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+  console.log = toStderr;
+  console.info = toStderr;
+  console.warn = toStderr;
+  console.debug = toStderr;
+  if (!verbose) console.error = () => {};
+}
+
+async function main(argv: string[]): Promise<number> {
+  const stderr = (line: string) => process.stderr.write(`${line}\n`);
+
+  let commandLine: CommandLine;
+  try {
+    commandLine = parseCommandLine(argv);
+  } catch (error) {
+    stderr(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  if (commandLine.help || !commandLine.command) {
+    stderr(USAGE);
+    return commandLine.help ? EXIT_QUALIFIES : EXIT_ERROR;
+  }
+
+  redirectConsole(commandLine.verbose);
+
+  try {
+    if (commandLine.extra.length) fail(`Unexpected argument '${commandLine.extra[0]}'`);
+
+    let run: { output: string; code: number };
+    switch (commandLine.command) {
+      case 'user':
+        run = await runUser(commandLine);
+        break;
+      case 'repo':
+        run = await runRepo(commandLine);
+        break;
+      case 'batch':
+        run = await runBatch(commandLine);
+        break;
+      default:
+        fail(`Unknown command '${commandLine.command}'`);
+    }
+
+    process.stdout.write(run.output.endsWith('\n') ? run.output : `${run.output}\n`);
+    return run.code;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      stderr(`${error.message}\n\n${USAGE}`);
+    } else {
+      const failure = toAnalysisError(error);
+      stderr(`Error (${failure.code}${failure.retryable ? ', retryable' : ''}): ${failure.message}`);
+    }
+    return EXIT_ERROR;
+  }
+}
+
+// Exit once stdout is flushed; idle keep-alive sockets would otherwise hold the process open
+main(process.argv.slice(2)).then(code => {
+  process.stdout.write('', () => process.exit(code));
+});
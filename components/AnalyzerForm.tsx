@@ -1,73 +1,399 @@
 'use client';
 
-import { useState } from 'react';
-import axios from 'axios';
-
-interface AnalysisResult {
-  username: string;
-  total_repos_analyzed: number;
-  repos_meeting_criteria: RepoAnalysis[];
-  all_repo_stats: Record<string, RepoAnalysis>;
-  analysis_timestamp: string;
-  min_tokens_threshold: number;
-  error?: string;
-}
+import { Fragment, useEffect, useState } from 'react';
+import TokenTreemap from './TokenTreemap';
+import BatchLeaderboard from './BatchLeaderboard';
+import TokenTimeline from './TokenTimeline';
+import SharedCodePanel from './SharedCodePanel';
+import GitHubSignIn from './GitHubSignIn';
+import type { AnalysisProgressEvent, AnalysisResult, BatchProgressEvent, BatchResult, RepoAnalysis, TokenHistory } from '@/lib/types';
 
-interface RepoAnalysis {
+interface RepoProgress {
   name: string;
-  description: string | null;
-  language: string | null;
-  stars: number;
-  size_kb: number;
-  total_tokens: number;
-  file_stats: {
-    total_files: number;
-    processed_files: number;
-    extensions: Record<string, number>;
-  };
-  url: string;
-  meets_criteria: boolean;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  tokens?: number;
+  error?: string;
 }
 
 export default function AnalyzerForm() {
+  const [mode, setMode] = useState<'profile' | 'repository' | 'batch'>('profile');
+  const [batchText, setBatchText] = useState('');
+  const [batchResult, setBatchResult] = useState<BatchResult | null>(null);
   const [githubUrl, setGithubUrl] = useState('');
+  const [repoRef, setRepoRef] = useState('');
+  const [repoPath, setRepoPath] = useState('');
   const [githubToken, setGithubToken] = useState('');
+  const [sourceToken, setSourceToken] = useState('');
+  // Signed-in users' requests carry the session cookie, and the server uses its token
+  const [signedIn, setSignedIn] = useState(false);
   const [minTokens, setMinTokens] = useState(1000000);
+  const [ingestionMode, setIngestionMode] = useState<'files' | 'tarball'>('files');
+  const [encoding, setEncoding] = useState('cl100k_base');
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [respectGitignore, setRespectGitignore] = useState(true);
+  const [excludeVendored, setExcludeVendored] = useState(true);
+  const [excludeGenerated, setExcludeGenerated] = useState(true);
+  const [visibility, setVisibility] = useState<'all' | 'public' | 'private'>('all');
+  const [includeForks, setIncludeForks] = useState(false);
+  const [includeArchived, setIncludeArchived] = useState(true);
+  const [includeContributed, setIncludeContributed] = useState(false);
+  const [includeTemplates, setIncludeTemplates] = useState(true);
+  const [includeMirrors, setIncludeMirrors] = useState(true);
+  const [pushedWithinDays, setPushedWithinDays] = useState(0);
+  const [discoveryBackend, setDiscoveryBackend] = useState<'rest' | 'graphql'>('rest');
+  const [prescreen, setPrescreen] = useState(false);
+  const [attribution, setAttribution] = useState<'off' | 'report' | 'threshold'>('off');
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<AnalysisResult | null>(null);
+  const [progress, setProgress] = useState<RepoProgress[]>([]);
   const [error, setError] = useState('');
+  const [expandedRepo, setExpandedRepo] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [timelines, setTimelines] = useState<Record<string, TokenHistory | { error: string } | 'loading'>>({});
+
+  // Permalinks (?user=... or ?repo=...) restore the query; it runs when the visitor presses
+  // Analyze, so a link alone never spends their token
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const target = params.get('repo') || params.get('user');
+    if (!target) return;
+
+    setMode(params.has('repo') ? 'repository' : 'profile');
+    setGithubUrl(target);
+    setRepoRef(params.get('ref') || '');
+    setRepoPath(params.get('path') || '');
+    if (params.get('minTokens')) setMinTokens(Number(params.get('minTokens')) || 1000000);
+    if (params.get('encoding')) setEncoding(params.get('encoding')!);
+    if (params.get('ingestionMode') === 'tarball') setIngestionMode('tarball');
+    if (params.get('prescreen') === 'true') setPrescreen(true);
+    if (params.get('attribution') === 'report' || params.get('attribution') === 'threshold') {
+      setAttribution(params.get('attribution') as 'report' | 'threshold');
+    }
+    if (params.get('discoveryBackend') === 'graphql') setDiscoveryBackend('graphql');
+  }, []);
+
+  const permalinkParams = () => {
+    const params = new URLSearchParams();
+    if (mode === 'repository') {
+      params.set('repo', githubUrl.trim());
+      if (repoRef.trim()) params.set('ref', repoRef.trim());
+      if (repoPath.trim()) params.set('path', repoPath.trim());
+    } else {
+      params.set('user', githubUrl.trim());
+      if (prescreen) params.set('prescreen', 'true');
+      if (attribution !== 'off') params.set('attribution', attribution);
+      if (discoveryBackend !== 'rest') params.set('discoveryBackend', discoveryBackend);
+    }
+    params.set('minTokens', String(minTokens));
+    params.set('encoding', encoding);
+    params.set('ingestionMode', ingestionMode);
+    return params;
+  };
+
+  const copyPermalink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  // The same query on the server-side export endpoint, for scripts and pipelines
+  const exportApiUrl = (format: string) => {
+    const params = permalinkParams();
+    if (params.has('user')) {
+      params.set('username', params.get('user')!);
+      params.delete('user');
+    }
+    params.set('format', format);
+    return `/api/export?${params.toString()}`;
+  };
+
+  const downloadExport = async (format: 'csv' | 'json' | 'markdown', table?: 'summary' | 'extensions') => {
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ result: results, format, table })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Export failed with status ${response.status}`);
+      }
+
+      const filename = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1] || `analysis.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Export failed');
+    }
+  };
+
+  // Samples the repository's history on demand; it costs far more API calls than the analysis itself
+  const loadTimeline = async (repo: RepoAnalysis) => {
+    setTimelines(prev => ({ ...prev, [repo.name]: 'loading' }));
+    try {
+      const response = await fetch('/api/analyze/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...analysisOptions(),
+          repo: repo.url,
+          ref: repo.ref,
+          path: repo.path,
+          interval: 'month'
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `History failed with status ${response.status}`);
+      }
+      setTimelines(prev => ({ ...prev, [repo.name]: data }));
+    } catch (err: any) {
+      setTimelines(prev => ({ ...prev, [repo.name]: { error: err.message || 'History failed' } }));
+    }
+  };
+
+  const updateProgress = (name: string, update: Partial<RepoProgress>) => {
+    setProgress(prev => prev.map(item => item.name === name ? { ...item, ...update } : item));
+  };
+
+  const handleProgressEvent = (event: AnalysisProgressEvent) => {
+    switch (event.type) {
+      case 'repos_listed':
+        setProgress(event.repos.map(repo => ({ name: repo.name, status: 'pending' })));
+        setResults({
+          username: event.username,
+          total_repos_analyzed: 0,
+          repos_meeting_criteria: [],
+          all_repo_stats: {},
+          analysis_timestamp: new Date().toISOString(),
+          min_tokens_threshold: minTokens
+        });
+        break;
+      case 'repo_started':
+        updateProgress(event.repo, { status: 'running' });
+        break;
+      case 'repo_completed':
+        updateProgress(event.repo, { status: 'done', tokens: event.analysis.total_tokens });
+        setResults(prev => prev && {
+          ...prev,
+          total_repos_analyzed: prev.total_repos_analyzed + 1,
+          repos_meeting_criteria: event.analysis.meets_criteria
+            ? [...prev.repos_meeting_criteria, event.analysis]
+            : prev.repos_meeting_criteria,
+          all_repo_stats: { ...prev.all_repo_stats, [event.repo]: event.analysis }
+        });
+        break;
+      case 'repo_failed':
+        updateProgress(event.repo, { status: 'failed', error: event.error });
+        break;
+      case 'summary':
+        setResults(event.result);
+        break;
+      case 'error':
+        setError(event.error);
+        break;
+    }
+  };
+
+  const handleBatchEvent = (event: BatchProgressEvent) => {
+    switch (event.type) {
+      case 'batch_started':
+        setProgress(event.usernames.map(username => ({ name: username, status: 'pending' })));
+        break;
+      case 'user_started':
+        updateProgress(event.username, { status: 'running' });
+        break;
+      case 'user_completed':
+        updateProgress(event.username, { status: 'done', tokens: event.entry.total_tokens });
+        break;
+      case 'user_failed':
+        updateProgress(event.username, { status: 'failed', error: event.entry.error });
+        break;
+      case 'batch_summary':
+        setBatchResult(event.result);
+        break;
+      case 'error':
+        setError(event.error);
+        break;
+    }
+  };
+
+  // Reads newline-delimited JSON events as they arrive
+  const readEvents = async <T,>(response: Response, onEvent: (event: T) => void) => {
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) {
+          onEvent(JSON.parse(line));
+        }
+      }
+    }
+
+    if (buffer.trim()) {
+      onEvent(JSON.parse(buffer));
+    }
+  };
+
+  const handleBatchFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setBatchText(prev => prev.trim() ? `${prev.trim()}\n${text}` : text);
+    e.target.value = '';
+  };
+
+  const splitPatterns = (text: string) => {
+    return text.split('\n').map(line => line.trim()).filter(Boolean);
+  };
+
+  // Options shared by the profile and single-repository endpoints
+  const analysisOptions = () => ({
+    minTokens,
+    ingestionMode,
+    encoding,
+    discoveryBackend,
+    profile: {
+      include: splitPatterns(includePatterns),
+      exclude: splitPatterns(excludePatterns),
+      respectGitignore,
+      respectGitattributes: respectGitignore,
+      excludeVendored,
+      excludeGenerated
+    },
+    prescreen,
+    attribution: attribution === 'off' ? undefined : { applyThreshold: attribution === 'threshold' },
+    githubToken: signedIn ? undefined : githubToken.trim() || undefined,
+    sourceToken: sourceToken.trim() || undefined
+  });
+
+  // Single repositories come back as one RepoAnalysis, shown through the same results view
+  const analyzeSingleRepository = async () => {
+    const response = await fetch('/api/analyze/repo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...analysisOptions(),
+        repo: githubUrl.trim(),
+        ref: repoRef.trim() || undefined,
+        path: repoPath.trim() || undefined
+      })
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+
+    const analysis: RepoAnalysis = data;
+    setResults({
+      username: [analysis.name, analysis.ref && `@${analysis.ref}`, analysis.path && ` /${analysis.path}`].filter(Boolean).join(''),
+      total_repos_analyzed: 1,
+      repos_meeting_criteria: analysis.meets_criteria ? [analysis] : [],
+      all_repo_stats: { [analysis.name]: analysis },
+      analysis_timestamp: new Date().toISOString(),
+      min_tokens_threshold: minTokens
+    });
+  };
 
   const handleAnalyze = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!githubUrl.trim()) {
-      setError('Please enter a GitHub profile URL or username');
+    await runAnalysis();
+  };
+
+  const runAnalysis = async () => {
+    if (mode === 'batch' && !batchText.trim()) {
+      setError('Please enter or upload at least one GitHub username');
+      return;
+    }
+    if (mode !== 'batch' && !githubUrl.trim()) {
+      setError(mode === 'repository'
+        ? 'Please enter a repository URL or owner/repo'
+        : 'Please enter a profile URL or username');
       return;
     }
 
     setLoading(true);
     setError('');
     setResults(null);
+    setProgress([]);
+    setBatchResult(null);
+    setExpandedRepo(null);
+    setTimelines({});
 
     try {
-      const response = await axios.post('/api/analyze', {
-        username: githubUrl.trim(),
-        minTokens,
-        githubToken: githubToken.trim() || undefined
-      });
+      if (mode === 'batch') {
+        const response = await fetch('/api/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...analysisOptions(),
+            text: batchText,
+            repoFilters: {
+              visibility,
+              includeForks,
+              includeArchived,
+              includeContributed,
+              includeTemplates,
+              includeMirrors,
+              pushedWithinDays: pushedWithinDays || undefined
+            }
+          })
+        });
+        await readEvents(response, handleBatchEvent);
+        return;
+      }
 
-      setResults(response.data);
-      
-      if (response.data.error) {
-        setError(response.data.error);
+      window.history.replaceState(null, '', `?${permalinkParams().toString()}`);
+
+      if (mode === 'repository') {
+        await analyzeSingleRepository();
+        return;
       }
+
+      const response = await fetch('/api/analyze/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...analysisOptions(),
+          username: githubUrl.trim(),
+          repoFilters: {
+            visibility,
+            includeForks,
+            includeArchived,
+            includeContributed,
+            includeTemplates,
+            includeMirrors,
+            pushedWithinDays: pushedWithinDays || undefined
+          }
+        })
+      });
+
+      await readEvents(response, handleProgressEvent);
     } catch (err: any) {
       // Show specific error message from API if available
       let errorMessage = 'Failed to analyze GitHub profile. Please check the username and try again.';
       
-      if (err.response?.data?.error) {
-        errorMessage = err.response.data.error;
-      } else if (err.message) {
+      if (err.message) {
         errorMessage = err.message;
       }
       
@@ -82,6 +408,18 @@ export default function AnalyzerForm() {
     return num.toLocaleString();
   };
 
+  const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+  // A repository below the threshold that could not be read in full might still qualify
+  const isInconclusive = (repo: RepoAnalysis) => !!repo.completeness && !repo.completeness.conclusive;
+
+  const formatAge = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+    return `${Math.floor(seconds / 86400)}d`;
+  };
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       {/* Header */}
@@ -100,25 +438,103 @@ export default function AnalyzerForm() {
       {/* Form */}
       <form onSubmit={handleAnalyze} className="card mb-8">
         <div className="space-y-4">
-          <div>
-            <label htmlFor="github-url" className="block text-sm font-medium text-gray-700 mb-2">
-              GitHub Profile URL or Username
+          <div className="flex gap-6 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'profile'} onChange={() => setMode('profile')} disabled={loading} />
+              Whole profile
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'repository'} onChange={() => setMode('repository')} disabled={loading} />
+              Single repository
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" name="mode" checked={mode === 'batch'} onChange={() => setMode('batch')} disabled={loading} />
+              Batch of profiles
             </label>
-            <input
-              id="github-url"
-              type="text"
-              value={githubUrl}
-              onChange={(e) => setGithubUrl(e.target.value)}
-              placeholder="https://github.com/username or just 'username'"
-              className="input-field"
-              disabled={loading}
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              Examples: https://github.com/torvalds, github.com/microsoft, or just 'octocat'
-            </p>
           </div>
 
-          <div>
+          {mode === 'batch' ? (
+            <div>
+              <label htmlFor="batch-usernames" className="block text-sm font-medium text-gray-700 mb-2">
+                GitHub Usernames or Profile URLs
+              </label>
+              <textarea
+                id="batch-usernames"
+                value={batchText}
+                onChange={(e) => setBatchText(e.target.value)}
+                placeholder={'torvalds\nhttps://github.com/octocat\ngithub.com/orgs/microsoft'}
+                rows={6}
+                className="input-field font-mono text-sm"
+                disabled={loading}
+              />
+              <div className="flex items-center justify-between mt-1">
+                <p className="text-xs text-gray-500">
+                  One per line or comma-separated, or a CSV with a username, login or url column (up to 200).
+                </p>
+                <label className="text-xs text-blue-600 hover:text-blue-800 underline cursor-pointer">
+                  Upload CSV
+                  <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleBatchFile} className="hidden" disabled={loading} />
+                </label>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="github-url" className="block text-sm font-medium text-gray-700 mb-2">
+                {mode === 'repository' ? 'Repository URL or owner/repo' : 'Profile URL, Username, Organization or Group'}
+              </label>
+              <input
+                id="github-url"
+                type="text"
+                value={githubUrl}
+                onChange={(e) => setGithubUrl(e.target.value)}
+                placeholder={mode === 'repository' ? "https://github.com/owner/repo or 'owner/repo'" : "https://github.com/username or just 'username'"}
+                className="input-field"
+                disabled={loading}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {mode === 'repository'
+                  ? 'Examples: vercel/next.js, https://github.com/vercel/next.js/tree/canary/packages/next, gitlab.com/gitlab-org/gitlab or codeberg.org/forgejo/forgejo'
+                  : "Examples: https://github.com/torvalds, github.com/orgs/microsoft, gitlab.com/gitlab-org, or just 'octocat'"}
+              </p>
+            </div>
+          )}
+
+          {mode === 'repository' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="repo-ref" className="block text-sm font-medium text-gray-700 mb-2">
+                  Branch, tag or commit (optional)
+                </label>
+                <input
+                  id="repo-ref"
+                  type="text"
+                  value={repoRef}
+                  onChange={(e) => setRepoRef(e.target.value)}
+                  placeholder="default branch"
+                  className="input-field"
+                  disabled={loading}
+                />
+              </div>
+              <div>
+                <label htmlFor="repo-path" className="block text-sm font-medium text-gray-700 mb-2">
+                  Subdirectory (optional)
+                </label>
+                <input
+                  id="repo-path"
+                  type="text"
+                  value={repoPath}
+                  onChange={(e) => setRepoPath(e.target.value)}
+                  placeholder="packages/core"
+                  className="input-field"
+                  disabled={loading}
+                />
+              </div>
+            </div>
+          )}
+
+          <GitHubSignIn onSessionChange={setSignedIn} disabled={loading} />
+
+          {!signedIn && <div>
             <label htmlFor="github-token" className="block text-sm font-medium text-gray-700 mb-2">
               GitHub Personal Access Token (Optional but Recommended)
             </label>
@@ -143,7 +559,25 @@ export default function AnalyzerForm() {
               </a> 
               (only needs 'public_repo' scope)
             </p>
-          </div>
+          </div>}
+
+          {mode !== 'batch' && <div>
+            <label htmlFor="source-token" className="block text-sm font-medium text-gray-700 mb-2">
+              GitLab or Gitea Access Token (Optional)
+            </label>
+            <input
+              id="source-token"
+              type="password"
+              value={sourceToken}
+              onChange={(e) => setSourceToken(e.target.value)}
+              placeholder="glpat-..."
+              className="input-field"
+              disabled={loading}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Only used for GitLab and Gitea URLs, to read private projects (needs 'read_api' on GitLab or 'read:repository' on Gitea)
+            </p>
+          </div>}
 
           <div>
             <label htmlFor="min-tokens" className="block text-sm font-medium text-gray-700 mb-2">
@@ -165,6 +599,198 @@ export default function AnalyzerForm() {
             </select>
           </div>
 
+          <div>
+            <label htmlFor="encoding" className="block text-sm font-medium text-gray-700 mb-2">
+              Tokenizer
+            </label>
+            <select
+              id="encoding"
+              value={encoding}
+              onChange={(e) => setEncoding(e.target.value)}
+              className="input-field"
+              disabled={loading}
+            >
+              <option value="cl100k_base">cl100k_base (GPT-4 / GPT-3.5, default)</option>
+              <option value="o200k_base">o200k_base (GPT-4o)</option>
+              <option value="p50k_base">p50k_base (Codex)</option>
+              <option value="approximate">Approximate (character-based estimate)</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="ingestion-mode" className="block text-sm font-medium text-gray-700 mb-2">
+              Ingestion Mode
+            </label>
+            <select
+              id="ingestion-mode"
+              value={ingestionMode}
+              onChange={(e) => setIngestionMode(e.target.value as 'files' | 'tarball')}
+              className="input-field"
+              disabled={loading}
+            >
+              <option value="files">Per-file download (default, up to 200 files per repo)</option>
+              <option value="tarball">Repository archive (whole repo, one download each)</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Archive mode counts every eligible file and is more reliable for large repositories.
+            </p>
+          </div>
+
+          {mode !== 'repository' && (
+            <details className="border border-gray-200 rounded-lg p-4">
+              <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+                Repository Filters
+              </summary>
+              <div className="mt-4 space-y-4">
+                <div>
+                  <label htmlFor="visibility" className="block text-sm font-medium text-gray-700 mb-2">
+                    Visibility
+                  </label>
+                  <select
+                    id="visibility"
+                    value={visibility}
+                    onChange={(e) => setVisibility(e.target.value as 'all' | 'public' | 'private')}
+                    className="input-field"
+                    disabled={loading}
+                  >
+                    <option value="all">Public and private (private needs a token with access)</option>
+                    <option value="public">Public only</option>
+                    <option value="private">Private only</option>
+                  </select>
+                </div>
+                <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={includeForks} onChange={(e) => setIncludeForks(e.target.checked)} disabled={loading} />
+                    Include forks
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={includeArchived} onChange={(e) => setIncludeArchived(e.target.checked)} disabled={loading} />
+                    Include archived
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={includeTemplates} onChange={(e) => setIncludeTemplates(e.target.checked)} disabled={loading} />
+                    Include templates
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={includeMirrors} onChange={(e) => setIncludeMirrors(e.target.checked)} disabled={loading} />
+                    Include mirrors
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={includeContributed} onChange={(e) => setIncludeContributed(e.target.checked)} disabled={loading} />
+                    Include repos I contribute to (token owner only)
+                  </label>
+                  <label className="flex items-center gap-2" title="Estimate every repository from its size and languages, and fully analyze only those near the threshold">
+                    <input type="checkbox" checked={prescreen} onChange={(e) => setPrescreen(e.target.checked)} disabled={loading} />
+                    Pre-screen from metadata (faster, estimates clear cases)
+                  </label>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="pushed-within" className="block text-sm font-medium text-gray-700 mb-2">
+                      Last Push
+                    </label>
+                    <select
+                      id="pushed-within"
+                      value={pushedWithinDays}
+                      onChange={(e) => setPushedWithinDays(Number(e.target.value))}
+                      className="input-field"
+                      disabled={loading}
+                    >
+                      <option value={0}>Any time</option>
+                      <option value={90}>Within the last 3 months</option>
+                      <option value={365}>Within the last year</option>
+                      <option value={730}>Within the last 2 years</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="discovery-backend" className="block text-sm font-medium text-gray-700 mb-2">
+                      Repository Discovery
+                    </label>
+                    <select
+                      id="discovery-backend"
+                      value={discoveryBackend}
+                      onChange={(e) => setDiscoveryBackend(e.target.value as 'rest' | 'graphql')}
+                      className="input-field"
+                      disabled={loading}
+                    >
+                      <option value="rest">REST API (default, works without a token)</option>
+                      <option value="graphql">GraphQL API (fewer requests, needs a token)</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="attribution" className="block text-sm font-medium text-gray-700 mb-2">
+                    Authorship
+                  </label>
+                  <select
+                    id="attribution"
+                    value={attribution}
+                    onChange={(e) => setAttribution(e.target.value as 'off' | 'report' | 'threshold')}
+                    className="input-field"
+                    disabled={loading}
+                  >
+                    <option value="off">Credit the owner with every token</option>
+                    <option value="report">Also report tokens the profile owner authored</option>
+                    <option value="threshold">Apply the threshold to authored tokens only</option>
+                  </select>
+                </div>
+              </div>
+            </details>
+          )}
+
+          <details className="border border-gray-200 rounded-lg p-4">
+            <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+              File Filters
+            </summary>
+            <div className="mt-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="include-patterns" className="block text-sm font-medium text-gray-700 mb-2">
+                    Include patterns
+                  </label>
+                  <textarea
+                    id="include-patterns"
+                    value={includePatterns}
+                    onChange={(e) => setIncludePatterns(e.target.value)}
+                    placeholder={'**/*.ts\n**/*.vue'}
+                    rows={3}
+                    className="input-field font-mono text-sm"
+                    disabled={loading}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">One glob per line. Leave empty for all common source files.</p>
+                </div>
+                <div>
+                  <label htmlFor="exclude-patterns" className="block text-sm font-medium text-gray-700 mb-2">
+                    Exclude patterns
+                  </label>
+                  <textarea
+                    id="exclude-patterns"
+                    value={excludePatterns}
+                    onChange={(e) => setExcludePatterns(e.target.value)}
+                    placeholder={'docs/**\n**/*.test.ts'}
+                    rows={3}
+                    className="input-field font-mono text-sm"
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={respectGitignore} onChange={(e) => setRespectGitignore(e.target.checked)} disabled={loading} />
+                  Respect .gitignore / .gitattributes
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={excludeVendored} onChange={(e) => setExcludeVendored(e.target.checked)} disabled={loading} />
+                  Skip vendored code
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={excludeGenerated} onChange={(e) => setExcludeGenerated(e.target.checked)} disabled={loading} />
+                  Skip generated and minified files
+                </label>
+              </div>
+            </div>
+          </details>
+
           <button
             type="submit"
             disabled={loading}
@@ -176,12 +802,42 @@ export default function AnalyzerForm() {
                 Analyzing repositories...
               </div>
             ) : (
-              'Analyze GitHub Profile'
+              mode === 'repository' ? 'Analyze Repository' : mode === 'batch' ? 'Screen Profiles' : 'Analyze GitHub Profile'
             )}
           </button>
         </div>
       </form>
 
+      {/* Live Progress */}
+      {progress.length > 0 && (
+        <div className="card mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-bold text-gray-900">Progress</h3>
+            <span className="text-sm text-gray-500">
+              {progress.filter(item => item.status === 'done' || item.status === 'failed').length} / {progress.length} {mode === 'batch' ? 'profiles' : 'repositories'}
+            </span>
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+            {progress.map((item) => (
+              <li key={item.name} className="flex justify-between items-center py-2 text-sm">
+                <span className="font-medium text-gray-800">{item.name}</span>
+                <span className={
+                  item.status === 'done' ? 'text-green-700'
+                    : item.status === 'failed' ? 'text-red-600'
+                    : item.status === 'running' ? 'text-blue-600'
+                    : 'text-gray-400'
+                }>
+                  {item.status === 'done' && `${formatNumber(item.tokens || 0)} tokens`}
+                  {item.status === 'failed' && `Failed: ${item.error}`}
+                  {item.status === 'running' && 'Analyzing...'}
+                  {item.status === 'pending' && 'Queued'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
@@ -199,15 +855,115 @@ export default function AnalyzerForm() {
         </div>
       )}
 
+      {/* Batch Leaderboard */}
+      {batchResult && <div className="mb-6"><BatchLeaderboard result={batchResult} /></div>}
+
       {/* Results Display */}
       {results && !results.error && (
         <div className="space-y-6">
           {/* Summary */}
           <div className="card">
+            {!loading && (
+              <div className="flex flex-wrap gap-2 justify-end mb-4 text-sm">
+                <button type="button" onClick={() => downloadExport('csv', 'summary')} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  CSV
+                </button>
+                <button type="button" onClick={() => downloadExport('csv', 'extensions')} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  CSV (extensions)
+                </button>
+                <button type="button" onClick={() => downloadExport('json')} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  JSON
+                </button>
+                <button type="button" onClick={() => downloadExport('markdown')} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  Markdown
+                </button>
+                <button type="button" onClick={copyPermalink} className="px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  {linkCopied ? 'Link copied' : 'Copy permalink'}
+                </button>
+                <a href={exportApiUrl('csv')} target="_blank" rel="noopener noreferrer" className="px-3 py-1 text-blue-600 hover:text-blue-800 underline">
+                  Export API
+                </a>
+              </div>
+            )}
             <h2 className="text-2xl font-bold text-gray-900 mb-4">
               Analysis Results for {results.username}
+              {results.owner_type === 'Organization' && (
+                <span className="ml-3 align-middle inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800">
+                  Organization
+                </span>
+              )}
             </h2>
+
+            {results.tokenizer && (
+              <p className="text-sm text-gray-500 mb-1">
+                Token encoding: <span className="font-medium text-gray-700">{results.tokenizer.encoding}</span>
+                {results.tokenizer.exact ? ' (exact counts)' : ' (estimated counts)'}
+                {results.tokenizer.fallback_reason && (
+                  <span className="text-amber-600"> · {results.tokenizer.requested_encoding} unavailable: {results.tokenizer.fallback_reason}</span>
+                )}
+                {results.tokenizer.estimated_files > 0 && results.tokenizer.encoding !== 'approximate' && (
+                  <span className="text-amber-600"> · {formatNumber(results.tokenizer.estimated_files)} files estimated</span>
+                )}
+              </p>
+            )}
+
+            {results.api_usage && (
+              <p className="text-sm text-gray-500 mb-4">
+                {formatNumber(results.api_usage.requests)} API calls used
+                {results.api_usage.rate_limit.remaining !== null && results.api_usage.rate_limit.limit !== null && (
+                  <>
+                    {' · '}
+                    {formatNumber(results.api_usage.rate_limit.remaining)} / {formatNumber(results.api_usage.rate_limit.limit)} remaining
+                    {results.api_usage.rate_limit.reset_at && (
+                      <> (resets {new Date(results.api_usage.rate_limit.reset_at).toLocaleTimeString()})</>
+                    )}
+                  </>
+                )}
+              </p>
+            )}
+
+            {results.aborted_reason && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4 text-sm text-amber-800">
+                <span className="font-semibold">Analysis stopped early:</span> {results.aborted_reason}
+              </div>
+            )}
+
+            {results.repo_errors && results.repo_errors.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 text-sm text-red-800">
+                <span className="font-semibold">{formatNumber(results.repo_errors.length)} repositories could not be analyzed:</span>
+                <ul className="mt-2 space-y-1">
+                  {results.repo_errors.map((repoError) => (
+                    <li key={repoError.repo}>
+                      <span className="font-mono">{repoError.repo}</span>
+                      {repoError.details.skipped ? ' (skipped)' : ''}: {repoError.message}
+                      {repoError.retryable && <span className="text-red-600"> (worth retrying)</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
+            {(() => {
+              const estimatedRepos = Object.values(results.all_repo_stats).filter(repo => repo.measured === false);
+              return estimatedRepos.length > 0 && (
+                <p className="text-sm text-gray-500 mb-4">
+                  ≈ {formatNumber(estimatedRepos.length)} of {formatNumber(results.total_repos_analyzed)} repositories were settled by the metadata pre-screen
+                  ({formatNumber(estimatedRepos.filter(repo => repo.meets_criteria).length)} clearly above, {formatNumber(estimatedRepos.filter(repo => !repo.meets_criteria).length)} clearly below the threshold) without being tokenized.
+                </p>
+              );
+            })()}
+
+            {(() => {
+              const inconclusiveRepos = Object.values(results.all_repo_stats).filter(isInconclusive);
+              return inconclusiveRepos.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4 text-sm text-amber-800">
+                  <span className="font-semibold">❔ {formatNumber(inconclusiveRepos.length)} inconclusive {inconclusiveRepos.length === 1 ? 'repository' : 'repositories'}:</span>{' '}
+                  not every file could be read, so {inconclusiveRepos.length === 1 ? 'it' : 'they'} may still reach {formatNumber(minTokens)} tokens
+                  ({inconclusiveRepos.map(repo => `${repo.name} ~${formatNumber(repo.completeness!.estimated_total_tokens)}`).join(', ')}).
+                </div>
+              );
+            })()}
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
               <div className="bg-blue-50 rounded-lg p-4">
                 <div className="text-2xl font-bold text-blue-900">
@@ -227,7 +983,9 @@ export default function AnalyzerForm() {
               
               <div className="bg-purple-50 rounded-lg p-4">
                 <div className="text-2xl font-bold text-purple-900">
-                  {results.repos_meeting_criteria.length > 0 ? '✅' : '❌'}
+                  {results.repos_meeting_criteria.length > 0
+                    ? '✅'
+                    : Object.values(results.all_repo_stats).some(isInconclusive) ? '❔' : '❌'}
                 </div>
                 <div className="text-sm text-purple-700">Meets Criteria</div>
               </div>
@@ -292,13 +1050,50 @@ export default function AnalyzerForm() {
                       {repo.language && <span>🔤 {repo.language}</span>}
                       <span>📁 {formatNumber(repo.file_stats.processed_files)} files processed</span>
                       <span>💾 {formatNumber(repo.size_kb)} KB</span>
+                      {repo.metadata?.pushed_at && <span>🕒 pushed {new Date(repo.metadata.pushed_at).toLocaleDateString()}</span>}
+                      {!repo.file_stats.listing_complete && (
+                        <span className="text-amber-600">⚠️ Partial file listing</span>
+                      )}
+                      {repo.completeness && !repo.completeness.complete && (
+                        <span className="text-amber-600" title={repo.completeness.reasons.join('\n')}>
+                          📉 {formatPercent(repo.completeness.coverage)} of content read · ~{formatNumber(repo.completeness.estimated_total_tokens)} estimated
+                        </span>
+                      )}
                     </div>
+
+                    {repo.file_stats.excluded.files.length > 0 && (
+                      <details className="mt-3 text-sm">
+                        <summary className="cursor-pointer text-gray-600">
+                          🚫 {formatNumber(repo.file_stats.excluded.files.length)}{repo.file_stats.excluded.files_truncated ? '+' : ''} files excluded
+                          {' ('}
+                          {Object.entries(repo.file_stats.excluded.counts)
+                            .filter(([reason]) => reason !== 'not_included')
+                            .map(([reason, count]) => `${reason}: ${formatNumber(count)}`)
+                            .join(', ')}
+                          {')'}
+                        </summary>
+                        <ul className="mt-2 max-h-48 overflow-y-auto font-mono text-xs text-gray-600 space-y-1">
+                          {repo.file_stats.excluded.files.map((file) => (
+                            <li key={file.path}>
+                              <span className="text-gray-400">[{file.reason}]</span> {file.path}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
                 ))}
               </div>
             </div>
           )}
 
+          {results.duplication && (
+            <SharedCodePanel
+              report={results.duplication}
+              totalTokens={Object.values(results.all_repo_stats).reduce((sum, repo) => sum + (repo.duplication ? repo.total_tokens : 0), 0)}
+            />
+          )}
+
           {/* All Repositories Summary */}
           <div className="card">
             <h3 className="text-xl font-bold text-gray-900 mb-4">
@@ -329,36 +1124,173 @@ export default function AnalyzerForm() {
                   {Object.values(results.all_repo_stats)
                     .sort((a, b) => b.total_tokens - a.total_tokens)
                     .map((repo) => (
-                    <tr key={repo.name}>
-                      <td className="px-4 py-4 whitespace-nowrap">
-                        <a
-                          href={repo.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:text-blue-800 font-medium"
-                        >
-                          {repo.name}
-                        </a>
-                      </td>
-                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {repo.language || 'N/A'}
-                      </td>
-                      <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
-                        {formatNumber(repo.total_tokens)}
-                      </td>
-                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {formatNumber(repo.stars)}
-                      </td>
-                      <td className="px-4 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          repo.meets_criteria
-                            ? 'bg-green-100 text-green-800'
-                            : 'bg-gray-100 text-gray-800'
-                        }`}>
-                          {repo.meets_criteria ? '✅ Qualifies' : '❌ Below threshold'}
-                        </span>
-                      </td>
-                    </tr>
+                    <Fragment key={repo.name}>
+                      <tr>
+                        <td className="px-4 py-4 whitespace-nowrap">
+                          {repo.breakdown && (
+                            <button
+                              type="button"
+                              onClick={() => setExpandedRepo(expandedRepo === repo.name ? null : repo.name)}
+                              className="mr-2 text-gray-500 hover:text-gray-800"
+                              title="Show token breakdown"
+                            >
+                              {expandedRepo === repo.name ? '▾' : '▸'}
+                            </button>
+                          )}
+                          <a
+                            href={repo.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            {repo.name}
+                          </a>
+                          {repo.private && <span className="ml-2 text-xs text-gray-500">🔒 private</span>}
+                          {repo.archived && <span className="ml-2 text-xs text-gray-500">📦 archived</span>}
+                          {repo.fork && <span className="ml-2 text-xs text-gray-500">🍴 fork</span>}
+                          {repo.metadata?.template && <span className="ml-2 text-xs text-gray-500">📐 template</span>}
+                          {repo.metadata?.mirror && <span className="ml-2 text-xs text-gray-500">🪞 mirror</span>}
+                          {repo.metadata && repo.metadata.topics.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {repo.metadata.topics.map(topic => (
+                                <span key={topic} className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded text-xs">{topic}</span>
+                              ))}
+                            </div>
+                          )}
+                          {repo.duplication && repo.duplication.shared_with.length > 0 && (
+                            <div className="text-xs text-gray-500 mt-1">🔗 shares code with {repo.duplication.shared_with.join(', ')}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {repo.language || 'N/A'}
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
+                          {repo.measured === false ? (
+                            <span className="text-gray-600" title={`Estimated from ${repo.estimate?.source === 'size' ? 'repository size' : 'language byte counts'}; not tokenized`}>
+                              ≈{formatNumber(repo.total_tokens)}
+                            </span>
+                          ) : formatNumber(repo.total_tokens)}
+                          {repo.attribution && (
+                            <div
+                              className="text-xs text-gray-500 font-normal"
+                              title={`Share of ${repo.attribution.method === 'additions' ? 'added lines' : 'commits'} by ${repo.attribution.author} among ${formatNumber(repo.attribution.contributors)} contributors`}
+                            >
+                              👤 {formatNumber(repo.attribution.authored_tokens)} authored ({formatPercent(repo.attribution.share)})
+                            </div>
+                          )}
+                          {repo.unique_tokens !== undefined && repo.unique_tokens < repo.total_tokens && (
+                            <div
+                              className="text-xs text-gray-500 font-normal"
+                              title={[
+                                repo.duplication?.boilerplate.tokens ? `${formatNumber(repo.duplication.boilerplate.tokens)} boilerplate (${Object.keys(repo.duplication.boilerplate.frameworks).join(', ')})` : '',
+                                repo.duplication?.shared_tokens ? `${formatNumber(repo.duplication.shared_tokens)} shared with larger repositories` : '',
+                                repo.duplication?.internal_duplicate_tokens ? `${formatNumber(repo.duplication.internal_duplicate_tokens)} in repeated files` : ''
+                              ].filter(Boolean).join('\n')}
+                            >
+                              🧬 {formatNumber(repo.unique_tokens)} unique
+                            </div>
+                          )}
+                          {repo.attribution === null && (
+                            <div className="text-xs text-gray-400 font-normal">👤 no contributor data</div>
+                          )}
+                          {repo.estimate && (
+                            <div className="text-xs text-gray-500 font-normal">
+                              {repo.measured === false
+                                ? `estimated${repo.estimate.calibrated ? ' (calibrated)' : ''}`
+                                : `est. ${formatNumber(repo.estimate.estimated_tokens)}`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatNumber(repo.stars)}
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap">
+                          <span
+                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                              repo.meets_criteria
+                                ? 'bg-green-100 text-green-800'
+                                : isInconclusive(repo)
+                                  ? 'bg-amber-100 text-amber-800'
+                                  : 'bg-gray-100 text-gray-800'
+                            }`}
+                            title={repo.completeness?.reasons.join('\n') || undefined}
+                          >
+                            {repo.meets_criteria ? '✅ Qualifies' : isInconclusive(repo) ? '❔ Inconclusive' : '❌ Below threshold'}
+                          </span>
+                          {repo.completeness && !repo.completeness.complete && (
+                            <div className="text-xs text-amber-600 mt-1" title={repo.completeness.reasons.join('\n')}>
+                              {formatPercent(repo.completeness.coverage)} read · ~{formatNumber(repo.completeness.estimated_total_tokens)} est.
+                              {repo.completeness.failed_fetches.length > 0 && <> · {formatNumber(repo.completeness.failed_fetches.length)} failed</>}
+                            </div>
+                          )}
+                          {!repo.file_stats.listing_complete && (
+                            <span className="ml-2 text-xs text-amber-600" title="GitHub did not return the full file list for this repository">
+                              ⚠️ partial
+                            </span>
+                          )}
+                          {repo.cache?.hit && (
+                            <span className="ml-2 text-xs text-gray-500" title={`Cached result for ${repo.cache.key}`}>
+                              ⚡ cached {formatAge(repo.cache.age_seconds)} ago
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedRepo === repo.name && repo.breakdown && (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-4 bg-gray-50">
+                            <TokenTreemap key={repo.name} tree={repo.breakdown.tree} />
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 text-sm">
+                              <div>
+                                <h4 className="font-semibold text-gray-800 mb-2">Heaviest directories</h4>
+                                <ul className="font-mono text-xs text-gray-700 space-y-1">
+                                  {repo.breakdown.top_directories.map((dir) => (
+                                    <li key={dir.path} className="flex justify-between gap-4">
+                                      <span className="truncate">{dir.path}/ <span className="text-gray-400">({formatNumber(dir.files)} files)</span></span>
+                                      <span>{formatNumber(dir.tokens)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                              <div>
+                                <h4 className="font-semibold text-gray-800 mb-2">Heaviest files</h4>
+                                <ul className="font-mono text-xs text-gray-700 space-y-1">
+                                  {repo.breakdown.top_files.map((file) => (
+                                    <li key={file.path} className="flex justify-between gap-4">
+                                      <span className="truncate">{file.path}</span>
+                                      <span>{formatNumber(file.tokens)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </div>
+                            </div>
+                            <div className="mt-4">
+                              <h4 className="font-semibold text-gray-800 mb-2 text-sm">Growth over time</h4>
+                              {(() => {
+                                const timeline = timelines[repo.name];
+                                if (timeline === 'loading') {
+                                  return <p className="text-sm text-gray-500">Sampling commit history…</p>;
+                                }
+                                if (timeline && 'points' in timeline) {
+                                  return <TokenTimeline history={timeline} />;
+                                }
+                                return (
+                                  <>
+                                    {timeline && <p className="text-sm text-red-600 mb-2">{timeline.error}</p>}
+                                    <button
+                                      type="button"
+                                      onClick={() => loadTimeline(repo)}
+                                      className="text-sm text-blue-600 hover:text-blue-800 underline"
+                                    >
+                                      📈 Sample monthly token counts from the commit history
+                                    </button>
+                                  </>
+                                );
+                              })()}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
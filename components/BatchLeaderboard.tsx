@@ -0,0 +1,92 @@
+'use client';
+
+import type { BatchResult } from '@/lib/types';
+
+export default function BatchLeaderboard({ result }: { result: BatchResult }) {
+  const formatNumber = (num: number) => num.toLocaleString();
+
+  return (
+    <div className="card">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Batch Leaderboard</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        {formatNumber(result.qualifying_users)} of {formatNumber(result.total_users)} profiles have a repository with {formatNumber(result.min_tokens_threshold)}+ tokens
+        {result.failed_users > 0 && <span className="text-amber-600"> · {formatNumber(result.failed_users)} failed or skipped</span>}
+        {' · '}{formatNumber(result.api_usage.requests)} GitHub API calls used
+        {result.api_usage.rate_limit.remaining !== null && <> · {formatNumber(result.api_usage.rate_limit.remaining)} remaining</>}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Profile</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Qualifying Repos</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Largest Repo</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Tokens</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {result.leaderboard.map((entry) => (
+              <tr key={entry.username} className={entry.status === 'completed' ? '' : 'bg-red-50'}>
+                <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">{entry.rank}</td>
+                <td className="px-4 py-4 whitespace-nowrap">
+                  <a
+                    href={`https://github.com/${entry.username}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    {entry.username}
+                  </a>
+                  {entry.qualifies && <span className="ml-2 text-xs text-green-700">✅</span>}
+                  {entry.error && (
+                    <div className="text-xs text-red-600 mt-1">
+                      {entry.status === 'skipped' ? 'Skipped: ' : 'Failed: '}{entry.error}
+                    </div>
+                  )}
+                  {entry.aborted_reason && (
+                    <div className="text-xs text-amber-600 mt-1">Partial: {entry.aborted_reason}</div>
+                  )}
+                </td>
+                <td className="px-4 py-4 text-sm text-gray-900">
+                  {entry.qualifying_repos.length > 0 ? (
+                    <ul className="space-y-1">
+                      {entry.qualifying_repos.map((repo) => (
+                        <li key={repo.name}>
+                          <a href={repo.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                            {repo.name}
+                          </a>
+                          <span className="text-gray-500"> ({repo.estimated ? '≈' : ''}{formatNumber(repo.tokens)})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <span className="text-gray-400">None</span>
+                  )}
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {entry.largest_repo ? (
+                    <>
+                      {entry.largest_repo.name}
+                      <span className="text-gray-500"> ({entry.largest_repo.estimated ? '≈' : ''}{formatNumber(entry.largest_repo.tokens)})</span>
+                    </>
+                  ) : 'N/A'}
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
+                  {formatNumber(entry.total_tokens)}
+                  {entry.estimated_tokens ? (
+                    <div className="text-xs text-gray-500 font-normal" title="Pre-screen estimates of repositories that were not tokenized">
+                      +≈{formatNumber(entry.estimated_tokens)} estimated
+                    </div>
+                  ) : null}
+                  <div className="text-xs text-gray-500 font-normal">{formatNumber(entry.repos_analyzed)} repos</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
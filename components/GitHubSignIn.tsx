@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface SessionInfo {
+  authenticated: boolean;
+  session: {
+    login: string;
+    avatar_url?: string;
+    scopes: string[];
+    method: 'web' | 'device';
+    created_at: string;
+    private_repos: boolean;
+  } | null;
+  sign_in: {
+    web: boolean;
+    device: boolean;
+    scopes: string[];
+  };
+}
+
+interface DeviceCode {
+  user_code: string;
+  verification_uri: string;
+  expires_in: number;
+  interval: number;
+}
+
+// Signs in with GitHub so the server uses the session's token, instead of a pasted PAT.
+// Reports whether a session exists so the form can hide the token field.
+export default function GitHubSignIn({ onSessionChange, disabled }: { onSessionChange: (signedIn: boolean) => void; disabled?: boolean }) {
+  const [info, setInfo] = useState<SessionInfo | null>(null);
+  const [device, setDevice] = useState<DeviceCode | null>(null);
+  const [error, setError] = useState('');
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadSession = async () => {
+    try {
+      const response = await fetch('/api/auth/session');
+      const data: SessionInfo = await response.json();
+      setInfo(data);
+      onSessionChange(data.authenticated);
+    } catch {
+      setInfo(null);
+    }
+  };
+
+  useEffect(() => {
+    // The OAuth callback reports failures as ?auth_error=...; show it once and drop it from the URL
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('auth_error')) {
+      setError(params.get('auth_error')!);
+      params.delete('auth_error');
+      const query = params.toString();
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    }
+    loadSession();
+    return () => {
+      if (pollTimer.current) clearTimeout(pollTimer.current);
+    };
+  }, []);
+
+  const poll = (interval: number) => {
+    pollTimer.current = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/auth/device/poll', { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `Sign-in failed with status ${response.status}`);
+
+        if (data.status === 'pending' || data.status === 'slow_down') {
+          poll(data.interval);
+          return;
+        }
+        setDevice(null);
+        if (data.status === 'complete') {
+          await loadSession();
+        } else {
+          setError(data.status === 'expired' ? 'The code expired before it was entered. Please try again.' : 'Sign-in was denied on GitHub.');
+        }
+      } catch (err: any) {
+        setDevice(null);
+        setError(err.message || 'Sign-in failed');
+      }
+    }, interval * 1000);
+  };
+
+  const startDeviceFlow = async () => {
+    setError('');
+    try {
+      const response = await fetch('/api/auth/device', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Sign-in failed with status ${response.status}`);
+      setDevice(data);
+      poll(data.interval);
+    } catch (err: any) {
+      setError(err.message || 'Sign-in failed');
+    }
+  };
+
+  const cancelDeviceFlow = () => {
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+    setDevice(null);
+  };
+
+  const signOut = async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+    await loadSession();
+  };
+
+  if (!info || (!info.authenticated && !info.sign_in.web && !info.sign_in.device)) {
+    return null;
+  }
+
+  const session = info.session;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 text-sm">
+      {session ? (
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            {session.avatar_url && <img src={session.avatar_url} alt="" className="w-8 h-8 rounded-full" />}
+            <div>
+              <div className="text-gray-900">
+                Signed in as <span className="font-semibold">{session.login}</span>
+                <span className="text-gray-500"> · analyses use your GitHub token</span>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {session.scopes.length ? session.scopes.map(scope => (
+                  <span key={scope} className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs font-mono">{scope}</span>
+                )) : <span className="text-xs text-gray-500">No scopes granted (public data only)</span>}
+              </div>
+              {!session.private_repos && (
+                <p className="text-xs text-amber-700 mt-1">Without the repo scope, private repositories are not analyzed.</p>
+              )}
+            </div>
+          </div>
+          <button type="button" onClick={signOut} className="btn-secondary text-sm" disabled={disabled}>
+            Sign out
+          </button>
+        </div>
+      ) : device ? (
+        <div>
+          <p className="text-gray-700">
+            Enter <span className="font-mono font-bold text-lg tracking-wider">{device.user_code}</span> at{' '}
+            <a href={device.verification_uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline">
+              {device.verification_uri}
+            </a>
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Waiting for GitHub… the code expires in {Math.round(device.expires_in / 60)} minutes.{' '}
+            <button type="button" onClick={cancelDeviceFlow} className="text-blue-600 hover:text-blue-800 underline">Cancel</button>
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          {info.sign_in.web && (
+            <a href={`/api/auth/login?return_to=${encodeURIComponent(window.location.pathname + window.location.search)}`} className="btn-primary text-sm">
+              Sign in with GitHub
+            </a>
+          )}
+          {info.sign_in.device && (
+            <button type="button" onClick={startDeviceFlow} className="btn-secondary text-sm" disabled={disabled}>
+              Sign in with a device code
+            </button>
+          )}
+          <span className="text-xs text-gray-500">Requests scopes: {info.sign_in.scopes.join(', ')}</span>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-700 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import type { DuplicationReport } from '@/lib/types';
+
+export default function SharedCodePanel({ report, totalTokens }: { report: DuplicationReport; totalTokens: number }) {
+  const formatNumber = (num: number) => num.toLocaleString();
+  const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+  if (!report.pairs.length && !report.duplicated_tokens && !report.boilerplate_tokens) {
+    return null;
+  }
+
+  return (
+    <div className="card">
+      <h3 className="text-xl font-bold text-gray-900 mb-2">Shared Code & Boilerplate</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        {formatNumber(report.unique_tokens)} unique tokens
+        {totalTokens > 0 && <> ({formatPercent(report.unique_tokens / totalTokens)} of {formatNumber(totalTokens)})</>}
+        {' · '}{formatNumber(report.duplicated_tokens)} tokens in {formatNumber(report.duplicated_files)} duplicated files
+        {' · '}{formatNumber(report.boilerplate_tokens)} tokens of framework boilerplate
+      </p>
+
+      {report.pairs.length > 0 ? (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Repositories</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shared Files</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Shared Tokens</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Overlap</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {report.pairs.map((pair) => (
+              <tr key={pair.repos.join('\n')}>
+                <td className="px-4 py-2 text-gray-900">{pair.repos[0]} ↔ {pair.repos[1]}</td>
+                <td className="px-4 py-2 text-gray-700">{formatNumber(pair.shared_files)}</td>
+                <td className="px-4 py-2 text-gray-700">{formatNumber(pair.shared_tokens)}</td>
+                <td className="px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <div className="w-24 h-2 bg-gray-200 rounded">
+                      <div
+                        className={`h-2 rounded ${pair.overlap >= 0.8 ? 'bg-red-500' : pair.overlap >= 0.4 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                        style={{ width: `${Math.min(100, pair.overlap * 100)}%` }}
+                      />
+                    </div>
+                    <span className="text-gray-700">{formatPercent(pair.overlap)}</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-gray-500">No two repositories share a significant amount of code.</p>
+      )}
+      <p className="text-xs text-gray-500 mt-3">
+        Overlap is measured against the smaller repository of each pair. Shared files count towards the largest repository that has them.
+      </p>
+    </div>
+  );
+}
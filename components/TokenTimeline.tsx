@@ -0,0 +1,84 @@
+'use client';
+
+import type { TokenHistory } from '@/lib/types';
+
+// Chart units; the SVG scales to the container width
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 8;
+
+export default function TokenTimeline({ history }: { history: TokenHistory }) {
+  const { points } = history;
+  const formatNumber = (num: number) => num.toLocaleString();
+  const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+  if (!points.length) {
+    return <p className="text-sm text-gray-500">No commits to chart.</p>;
+  }
+
+  const times = points.map(point => Date.parse(point.date));
+  const start = Math.min(...times);
+  const span = Math.max(...times) - start || 1;
+  const peak = Math.max(...points.map(point => point.tokens)) || 1;
+  const jumpTargets = new Set(history.jumps.map(jump => jump.to_sha));
+
+  const x = (index: number) => PADDING + ((times[index] - start) / span) * (WIDTH - 2 * PADDING);
+  const y = (tokens: number) => HEIGHT - PADDING - (tokens / peak) * (HEIGHT - 2 * PADDING);
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>{formatNumber(peak)} tokens</span>
+        <span>{formatNumber(history.total_commits)} commits on {history.ref}{history.path ? ` in ${history.path}/` : ''}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48 bg-gray-100 rounded">
+        {points.slice(1).map((point, index) => (
+          <line
+            key={point.sha}
+            x1={x(index)}
+            y1={y(points[index].tokens)}
+            x2={x(index + 1)}
+            y2={y(point.tokens)}
+            strokeWidth={2}
+            className={jumpTargets.has(point.sha) ? 'stroke-red-500' : 'stroke-blue-500'}
+          />
+        ))}
+        {points.map((point, index) => (
+          <circle
+            key={point.sha}
+            cx={x(index)}
+            cy={y(point.tokens)}
+            r={jumpTargets.has(point.sha) ? 5 : 3}
+            className={jumpTargets.has(point.sha) ? 'fill-red-500' : point.complete ? 'fill-blue-500' : 'fill-amber-500'}
+          >
+            <title>
+              {`${formatDate(point.date)} ${point.sha.slice(0, 7)}: ${formatNumber(point.tokens)} tokens (${point.delta >= 0 ? '+' : ''}${formatNumber(point.delta)})${point.complete ? '' : ', partly read'}\n${point.message}`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{formatDate(points[0].date)}</span>
+        <span>{formatDate(points[points.length - 1].date)}</span>
+      </div>
+
+      {history.jumps.length > 0 ? (
+        <ul className="mt-3 space-y-1 text-xs text-red-700">
+          {history.jumps.map((jump) => (
+            <li key={jump.to_sha}>
+              ⚠️ +{formatNumber(jump.tokens_added)} tokens ({Math.round(jump.share * 100)}% of the peak) between {jump.from_sha.slice(0, 7)} and {jump.to_sha.slice(0, 7)}
+              {jump.commit && (
+                <>
+                  {' — '}mostly one commit: <span className="font-mono">{jump.commit.sha.slice(0, 7)}</span> “{jump.commit.message}”
+                  {jump.commit.author && <> by {jump.commit.author}</>} on {formatDate(jump.commit.date)} (+{formatNumber(jump.commit.tokens_added)})
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">No sudden jumps: the code base grew gradually between the sampled commits.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import type { DirectoryNode } from '@/lib/types';
+
+interface Tile {
+  label: string;
+  tokens: number;
+  node?: DirectoryNode;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The layout works in these units and is stretched to the container, which is roughly 2:1
+const WIDTH = 200;
+const HEIGHT = 100;
+
+const COLORS = [
+  'bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-amber-500', 'bg-pink-500',
+  'bg-teal-500', 'bg-indigo-500', 'bg-orange-500', 'bg-cyan-500', 'bg-lime-500'
+];
+
+function worstRatio(row: number[], side: number): number {
+  const sum = row.reduce((total, area) => total + area, 0);
+  const max = Math.max(...row);
+  const min = Math.min(...row);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+}
+
+// Squarified treemap: fills the shorter side of the remaining rectangle row by row,
+// adding items to a row only while that keeps the tiles closer to square
+function squarify(items: Omit<Tile, 'x' | 'y' | 'width' | 'height'>[]): Tile[] {
+  const total = items.reduce((sum, item) => sum + item.tokens, 0);
+  if (total === 0) return [];
+
+  const scale = (WIDTH * HEIGHT) / total;
+  const queue = items.map(item => ({ ...item, area: item.tokens * scale }));
+  const tiles: Tile[] = [];
+  let x = 0, y = 0, width = WIDTH, height = HEIGHT;
+
+  while (queue.length) {
+    const side = Math.min(width, height);
+    let row = [queue.shift()!];
+    while (queue.length && worstRatio([...row, queue[0]].map(item => item.area), side) <= worstRatio(row.map(item => item.area), side)) {
+      row.push(queue.shift()!);
+    }
+
+    const rowArea = row.reduce((sum, item) => sum + item.area, 0);
+    const thickness = rowArea / side;
+    let offset = 0;
+    for (const item of row) {
+      const length = item.area / thickness;
+      tiles.push(width >= height
+        ? { label: item.label, tokens: item.tokens, node: item.node, x, y: y + offset, width: thickness, height: length }
+        : { label: item.label, tokens: item.tokens, node: item.node, x: x + offset, y, width: length, height: thickness });
+      offset += length;
+    }
+
+    if (width >= height) {
+      x += thickness;
+      width -= thickness;
+    } else {
+      y += thickness;
+      height -= thickness;
+    }
+  }
+
+  return tiles;
+}
+
+export default function TokenTreemap({ tree }: { tree: DirectoryNode }) {
+  const [trail, setTrail] = useState<DirectoryNode[]>([tree]);
+  const current = trail[trail.length - 1];
+
+  const items = [
+    ...current.children.map(child => ({ label: `${child.name}/`, tokens: child.tokens, node: child })),
+    { label: '(files here)', tokens: current.own_tokens },
+    { label: '(other directories)', tokens: current.other_tokens }
+  ].filter(item => item.tokens > 0).sort((a, b) => b.tokens - a.tokens);
+
+  const tiles = squarify(items);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1 text-xs text-gray-600 mb-2">
+        {trail.map((node, index) => (
+          <span key={node.path || '/'}>
+            {index > 0 && <span className="mx-1">/</span>}
+            <button
+              type="button"
+              onClick={() => setTrail(trail.slice(0, index + 1))}
+              className="text-blue-600 hover:text-blue-800 underline"
+            >
+              {node.name || 'root'}
+            </button>
+          </span>
+        ))}
+        <span className="ml-2 text-gray-400">{current.tokens.toLocaleString()} tokens</span>
+      </div>
+      <div className="relative w-full h-64 bg-gray-100 rounded overflow-hidden">
+        {tiles.map((tile, index) => (
+          <div
+            key={tile.label}
+            title={`${tile.label} ${tile.tokens.toLocaleString()} tokens (${((tile.tokens / current.tokens) * 100).toFixed(1)}%)`}
+            onClick={() => tile.node && tile.node.tokens > 0 && setTrail([...trail, tile.node])}
+            className={`absolute border border-white text-white text-xs p-1 overflow-hidden ${tile.node ? `${COLORS[index % COLORS.length]} cursor-pointer hover:opacity-80` : 'bg-gray-400'}`}
+            style={{
+              left: `${(tile.x / WIDTH) * 100}%`,
+              top: `${(tile.y / HEIGHT) * 100}%`,
+              width: `${(tile.width / WIDTH) * 100}%`,
+              height: `${(tile.height / HEIGHT) * 100}%`
+            }}
+          >
+            <div className="font-medium truncate">{tile.label}</div>
+            <div className="truncate opacity-90">{tile.tokens.toLocaleString()}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Click a directory to drill down.</p>
+    </div>
+  );
+}
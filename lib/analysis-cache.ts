@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { RepoAnalysis } from './github-analyzer';
+import type { ContentTrait } from './file-filter';
+import type { ContentHashes } from './duplication';
+import { evictOldest, perProcess, writeFileAtomic } from './storage';
+
+// What was learned from a blob's content: its token count and any generated/minified trait
+export interface FileTokenEntry {
+  tokens: number;
+  trait?: ContentTrait;
+  // Counted from a download that was cut at the size limit
+  truncated?: boolean;
+  // Framework whose unmodified scaffolding this file is
+  boilerplate?: string;
+}
+
+export interface CachedRepoAnalysis {
+  analysis: RepoAnalysis;
+  // For duplicate detection when the repository is part of a later profile analysis
+  content_hashes?: ContentHashes;
+  stored_at: string;
+}
+
+// Per-file token counts are keyed by encoding, git blob SHA and path, per-repo results by `owner/repo@headSha`
+export interface AnalysisCache {
+  getFileTokens(blobKey: string): Promise<FileTokenEntry | undefined>;
+  setFileTokens(blobKey: string, entry: FileTokenEntry): Promise<void>;
+  getRepoAnalysis(repoKey: string): Promise<CachedRepoAnalysis | undefined>;
+  setRepoAnalysis(repoKey: string, analysis: RepoAnalysis, contentHashes?: ContentHashes): Promise<void>;
+}
+
+export class MemoryAnalysisCache implements AnalysisCache {
+  private fileTokens = new Map<string, FileTokenEntry>();
+  private repos = new Map<string, CachedRepoAnalysis>();
+
+  constructor(private maxFileEntries: number = 100000, private maxRepoEntries: number = 1000) {}
+
+  async getFileTokens(blobKey: string): Promise<FileTokenEntry | undefined> {
+    return this.fileTokens.get(blobKey);
+  }
+
+  async setFileTokens(blobKey: string, entry: FileTokenEntry): Promise<void> {
+    this.fileTokens.set(blobKey, entry);
+    evictOldest(this.fileTokens, this.maxFileEntries);
+  }
+
+  async getRepoAnalysis(repoKey: string): Promise<CachedRepoAnalysis | undefined> {
+    return this.repos.get(repoKey);
+  }
+
+  async setRepoAnalysis(repoKey: string, analysis: RepoAnalysis, contentHashes?: ContentHashes): Promise<void> {
+    this.repos.set(repoKey, { analysis, content_hashes: contentHashes, stored_at: new Date().toISOString() });
+    evictOldest(this.repos, this.maxRepoEntries);
+  }
+}
+
+// Stores each entry as its own small file so concurrent writers never clobber each other:
+//   {dir}/blobs/{ab}/{key}        -> FileTokenEntry
+//   {dir}/repos/{encoded key}.json -> CachedRepoAnalysis
+export class FileAnalysisCache implements AnalysisCache {
+  constructor(private directory: string) {}
+
+  private blobPath(blobKey: string): string {
+    const safeKey = encodeURIComponent(blobKey);
+    return path.join(this.directory, 'blobs', safeKey.slice(0, 2), safeKey);
+  }
+
+  private repoPath(repoKey: string): string {
+    return path.join(this.directory, 'repos', `${encodeURIComponent(repoKey)}.json`);
+  }
+
+  private async read(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getFileTokens(blobKey: string): Promise<FileTokenEntry | undefined> {
+    const contents = await this.read(this.blobPath(blobKey));
+    if (contents === undefined) return undefined;
+    try {
+      const entry = JSON.parse(contents);
+      // Entries written before content traits were cached hold a bare count
+      return typeof entry === 'number' ? { tokens: entry } : entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setFileTokens(blobKey: string, entry: FileTokenEntry): Promise<void> {
+    await writeFileAtomic(this.blobPath(blobKey), JSON.stringify(entry));
+  }
+
+  async getRepoAnalysis(repoKey: string): Promise<CachedRepoAnalysis | undefined> {
+    const contents = await this.read(this.repoPath(repoKey));
+    if (contents === undefined) return undefined;
+    try {
+      return JSON.parse(contents);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setRepoAnalysis(repoKey: string, analysis: RepoAnalysis, contentHashes?: ContentHashes): Promise<void> {
+    const entry: CachedRepoAnalysis = { analysis, content_hashes: contentHashes, stored_at: new Date().toISOString() };
+    await writeFileAtomic(this.repoPath(repoKey), JSON.stringify(entry));
+  }
+}
+
+// On disk when ANALYSIS_CACHE_DIR is set, in memory otherwise
+export const getSharedAnalysisCache = perProcess<AnalysisCache>(() => {
+  const directory = process.env.ANALYSIS_CACHE_DIR;
+  return directory ? new FileAnalysisCache(directory) : new MemoryAnalysisCache();
+});
@@ -0,0 +1,360 @@
+import { Schema, validate } from './schema';
+import { ValidationError } from './errors';
+import { TOKEN_ENCODINGS } from './tokenizer';
+import { HISTORY_INTERVALS } from './history';
+import { MAX_BATCH_USERS } from './batch';
+import { EXPORT_FORMATS } from './export';
+import { MAX_GLOB_LENGTH, MAX_RULES_PER_FILE } from './file-filter';
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+// Analyzer settings every analysis request accepts (see analyzerOptionsFromBody)
+const analyzerOptionProperties: Record<string, Schema> = {
+  minTokens: { type: 'integer', minimum: 1, maximum: 1e12, default: 1000000, description: 'Tokens a repository needs to meet the criteria' },
+  githubToken: { type: 'string', description: "GitHub token; the server's GITHUB_TOKEN is used when omitted" },
+  sourceToken: { type: 'string', description: "GitLab or Gitea token for analyses on those hosts; the server's GITLAB_TOKEN or GITEA_TOKEN is used when omitted" },
+  listingBackend: { type: 'string', enum: ['tree', 'contents'], default: 'tree' },
+  ingestionMode: { type: 'string', enum: ['files', 'tarball'], default: 'files' },
+  discoveryBackend: { type: 'string', enum: ['rest', 'graphql'], default: 'rest', description: 'graphql lists repositories with their head commit, languages and topics in a few queries; it needs a token and falls back to rest without one' },
+  useCache: { type: 'boolean', default: true },
+  repoConcurrency: { type: 'integer', minimum: 1, maximum: 10, default: 3 },
+  fileConcurrency: { type: 'integer', minimum: 1, maximum: 20, default: 5 },
+  encoding: { type: 'string', enum: TOKEN_ENCODINGS, default: 'cl100k_base' },
+  profile: ref('AnalysisProfile'),
+  repoFilters: ref('RepoFilters'),
+  breakdownTopN: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+  prescreen: {
+    description: 'true for the default band, or the band as factors of minTokens',
+    anyOf: [
+      { type: 'boolean' },
+      {
+        type: 'object',
+        properties: {
+          lowerFactor: { type: 'number', minimum: 0, maximum: 1, default: 0.5 },
+          upperFactor: { type: 'number', minimum: 1, default: 2 }
+        }
+      }
+    ]
+  },
+  attribution: {
+    description: 'true to report authored tokens, { "applyThreshold": true } to also judge minTokens on them',
+    anyOf: [
+      { type: 'boolean' },
+      { type: 'object', properties: { applyThreshold: { type: 'boolean' } } }
+    ]
+  }
+};
+
+const repoTargetProperties: Record<string, Schema> = {
+  repo: { type: 'string', minLength: 1, description: 'owner/repo, a GitHub, GitLab or Gitea repository URL (including tree and src URLs with a ref and path), or a local checkout under LOCAL_SOURCE_ROOT' },
+  ref: { type: 'string', description: 'Branch, tag or commit SHA; overrides one taken from the URL' },
+  path: { type: 'string', description: 'Subdirectory to analyze; overrides one taken from the URL' }
+};
+
+const looseObject = (description: string): Schema => ({ type: 'object', description, additionalProperties: true });
+
+export const API_SCHEMAS: Record<string, Schema> = {
+  AnalysisProfile: {
+    type: 'object',
+    properties: {
+      include: { type: 'array', maxItems: MAX_RULES_PER_FILE, items: { type: 'string', maxLength: MAX_GLOB_LENGTH }, description: 'Globs (.gitignore syntax) a file must match to be counted' },
+      exclude: { type: 'array', maxItems: MAX_RULES_PER_FILE, items: { type: 'string', maxLength: MAX_GLOB_LENGTH }, description: 'Globs that are never counted' },
+      respectGitignore: { type: 'boolean', default: true },
+      respectGitattributes: { type: 'boolean', default: true },
+      excludeVendored: { type: 'boolean', default: true },
+      excludeGenerated: { type: 'boolean', default: true }
+    }
+  },
+  RepoFilters: {
+    type: 'object',
+    properties: {
+      visibility: { type: 'string', enum: ['all', 'public', 'private'], default: 'all' },
+      includeForks: { type: 'boolean', default: false },
+      includeArchived: { type: 'boolean', default: true },
+      includeContributed: { type: 'boolean', default: false },
+      includeTemplates: { type: 'boolean', default: true },
+      includeMirrors: { type: 'boolean', default: true },
+      pushedWithinDays: { type: 'integer', minimum: 1, description: 'Only repositories pushed to within this many days' },
+      topics: { type: 'array', items: { type: 'string' }, description: 'Only repositories with at least one of these topics' },
+      excludeTopics: { type: 'array', items: { type: 'string' }, description: 'Skip repositories with any of these topics' }
+    }
+  },
+
+  AnalyzeRequest: {
+    type: 'object',
+    required: ['username'],
+    properties: {
+      username: { type: 'string', minLength: 1, description: 'GitHub user or organization, a GitHub, GitLab or Gitea profile or group URL, or a directory under LOCAL_SOURCE_ROOT' },
+      ...analyzerOptionProperties
+    }
+  },
+  RepoAnalysisRequest: {
+    type: 'object',
+    required: ['repo'],
+    properties: { ...repoTargetProperties, ...analyzerOptionProperties }
+  },
+  HistoryRequest: {
+    type: 'object',
+    required: ['repo'],
+    properties: {
+      ...repoTargetProperties,
+      points: { type: 'integer', minimum: 2, maximum: 36, default: 12 },
+      interval: { type: 'string', enum: HISTORY_INTERVALS, default: 'auto' },
+      jumpShare: { type: 'number', minimum: 0, maximum: 1, default: 0.25 },
+      ...analyzerOptionProperties
+    }
+  },
+  BatchRequest: {
+    type: 'object',
+    description: `Either usernames or text; at most ${MAX_BATCH_USERS} distinct profiles`,
+    properties: {
+      usernames: { type: 'array', items: { type: 'string' } },
+      text: { type: 'string', description: 'Usernames or profile URLs one per line, comma-separated, or a CSV with a username, login or url column' },
+      userConcurrency: { type: 'integer', minimum: 1, maximum: 5, default: 2 },
+      ...analyzerOptionProperties
+    }
+  },
+  ExportRequest: {
+    type: 'object',
+    required: ['result'],
+    properties: {
+      result: ref('AnalysisResult'),
+      format: { type: 'string', enum: EXPORT_FORMATS, default: 'json' },
+      table: { type: 'string', enum: ['summary', 'extensions'], default: 'summary' }
+    }
+  },
+  ResumeJobRequest: {
+    type: 'object',
+    properties: { githubToken: { type: 'string' }, sourceToken: { type: 'string' } }
+  },
+
+  FieldError: {
+    type: 'object',
+    required: ['field', 'message'],
+    properties: {
+      field: { type: 'string', example: 'minTokens' },
+      message: { type: 'string', example: 'must be at least 1' }
+    }
+  },
+  ErrorBody: {
+    type: 'object',
+    required: ['error', 'code', 'retryable', 'details'],
+    properties: {
+      error: { type: 'string' },
+      code: {
+        type: 'string',
+        enum: [
+          'invalid_request', 'validation_failed', 'user_not_found', 'no_repositories', 'rate_limited', 'auth_invalid', 'oauth_failed',
+          'repo_unavailable', 'timeout', 'upstream_error', 'tokenizer_failed', 'job_not_found', 'internal_error'
+        ]
+      },
+      retryable: { type: 'boolean' },
+      details: looseObject('fields (FieldError[]) for validation_failed, reset_at for rate_limited, repository and status for repo_unavailable')
+    }
+  },
+  RepoError: {
+    type: 'object',
+    required: ['repo', 'code', 'message', 'retryable', 'details'],
+    properties: {
+      repo: { type: 'string' },
+      code: { type: 'string' },
+      message: { type: 'string' },
+      retryable: { type: 'boolean' },
+      details: looseObject('details.skipped is true for repositories never started because the analysis stopped')
+    }
+  },
+  RepoAnalysis: {
+    type: 'object',
+    required: ['name', 'language', 'stars', 'size_kb', 'total_tokens', 'file_stats', 'url', 'private', 'archived', 'fork', 'meets_criteria'],
+    properties: {
+      name: { type: 'string', description: 'Bare name for the account\'s own repositories, owner/name for others' },
+      description: { type: 'string', nullable: true },
+      language: { type: 'string', nullable: true },
+      stars: { type: 'integer', minimum: 0 },
+      size_kb: { type: 'integer', minimum: 0 },
+      total_tokens: { type: 'integer', minimum: 0 },
+      file_stats: {
+        type: 'object',
+        required: ['total_files', 'processed_files', 'extensions', 'listing_backend', 'listing_complete'],
+        properties: {
+          total_files: { type: 'integer', minimum: 0 },
+          processed_files: { type: 'integer', minimum: 0 },
+          extensions: { type: 'object', additionalProperties: { type: 'integer' }, description: 'Tokens per file extension' },
+          listing_backend: { type: 'string', enum: ['tree', 'contents', 'tarball'] },
+          listing_complete: { type: 'boolean' },
+          excluded: looseObject('Excluded files by reason')
+        }
+      },
+      url: { type: 'string' },
+      private: { type: 'boolean' },
+      archived: { type: 'boolean' },
+      fork: { type: 'boolean' },
+      meets_criteria: { type: 'boolean' },
+      commit_sha: { type: 'string' },
+      breakdown: looseObject('top_files, top_directories and a directory tree of token counts'),
+      completeness: looseObject('What was and was not read, coverage, estimated_total_tokens and whether the verdict is conclusive'),
+      estimate: looseObject('Metadata estimate from the pre-screen'),
+      measured: { type: 'boolean', description: 'False when total_tokens is the pre-screen estimate' },
+      attribution: { ...looseObject('The analyzed user\'s share of the tokens'), nullable: true },
+      duplication: looseObject('Boilerplate, internal duplicates and shared content'),
+      unique_tokens: { type: 'integer', minimum: 0 },
+      ref: { type: 'string' },
+      path: { type: 'string' },
+      metadata: {
+        type: 'object',
+        required: ['source', 'default_branch', 'head_sha', 'languages', 'topics', 'template', 'mirror', 'pushed_at', 'disk_usage_kb'],
+        properties: {
+          source: { type: 'string', enum: ['rest', 'graphql', 'gitlab', 'gitea', 'local'] },
+          default_branch: { type: 'string', nullable: true },
+          head_sha: { type: 'string', nullable: true, description: 'Head of the default branch; GraphQL discovery only' },
+          languages: { type: 'object', nullable: true, additionalProperties: { type: 'integer' }, description: 'Bytes per language; GraphQL discovery only' },
+          topics: { type: 'array', items: { type: 'string' } },
+          template: { type: 'boolean' },
+          mirror: { type: 'boolean' },
+          pushed_at: { type: 'string', nullable: true },
+          disk_usage_kb: { type: 'integer', minimum: 0 }
+        }
+      },
+      cache: looseObject('Set when the result came from the cache')
+    }
+  },
+  AnalysisResult: {
+    type: 'object',
+    required: ['username', 'total_repos_analyzed', 'repos_meeting_criteria', 'all_repo_stats', 'analysis_timestamp', 'min_tokens_threshold'],
+    properties: {
+      username: { type: 'string' },
+      owner_type: { type: 'string', enum: ['User', 'Organization'] },
+      total_repos_analyzed: { type: 'integer', minimum: 0 },
+      repos_meeting_criteria: { type: 'array', items: ref('RepoAnalysis') },
+      all_repo_stats: { type: 'object', additionalProperties: ref('RepoAnalysis') },
+      analysis_timestamp: { type: 'string' },
+      min_tokens_threshold: { type: 'integer', minimum: 0 },
+      api_usage: looseObject('Requests sent and the last rate-limit status'),
+      aborted_reason: { type: 'string' },
+      tokenizer: looseObject('Encoding used and whether every count is exact'),
+      duplication: looseObject('Duplicated and boilerplate tokens, and repository pairs sharing content'),
+      repo_errors: { type: 'array', items: ref('RepoError') },
+      error: { type: 'string' },
+      error_info: looseObject('code, message, retryable and details of error')
+    }
+  },
+  BatchEntry: {
+    type: 'object',
+    required: ['rank', 'username', 'status', 'qualifies', 'total_tokens', 'repos_analyzed', 'qualifying_repos', 'largest_repo'],
+    properties: {
+      rank: { type: 'integer', minimum: 1 },
+      username: { type: 'string' },
+      owner_type: { type: 'string', enum: ['User', 'Organization'] },
+      status: { type: 'string', enum: ['completed', 'failed', 'skipped'] },
+      qualifies: { type: 'boolean' },
+      total_tokens: { type: 'integer', minimum: 0, description: 'Tokens counted in the repositories that were tokenized' },
+      estimated_tokens: { type: 'integer', minimum: 0, description: 'Pre-screen estimates of the repositories that were not tokenized; not part of total_tokens' },
+      repos_analyzed: { type: 'integer', minimum: 0 },
+      qualifying_repos: { type: 'array', items: looseObject('name, tokens, url and estimated (true when tokens is a pre-screen estimate)') },
+      largest_repo: { ...looseObject('name, tokens, url and estimated (true when tokens is a pre-screen estimate)'), nullable: true },
+      aborted_reason: { type: 'string' },
+      error: { type: 'string' },
+      error_code: { type: 'string' }
+    }
+  },
+  BatchResult: {
+    type: 'object',
+    required: ['total_users', 'completed_users', 'failed_users', 'qualifying_users', 'leaderboard', 'min_tokens_threshold', 'analysis_timestamp'],
+    properties: {
+      total_users: { type: 'integer', minimum: 0 },
+      completed_users: { type: 'integer', minimum: 0 },
+      failed_users: { type: 'integer', minimum: 0 },
+      qualifying_users: { type: 'integer', minimum: 0 },
+      leaderboard: { type: 'array', items: ref('BatchEntry') },
+      min_tokens_threshold: { type: 'integer', minimum: 0 },
+      analysis_timestamp: { type: 'string' },
+      api_usage: looseObject('Requests sent and the last rate-limit status')
+    }
+  },
+  TokenHistory: {
+    type: 'object',
+    required: ['repository', 'ref', 'interval', 'total_commits', 'points', 'jumps', 'analysis_timestamp'],
+    properties: {
+      repository: { type: 'string' },
+      ref: { type: 'string' },
+      path: { type: 'string' },
+      interval: { type: 'string', enum: HISTORY_INTERVALS },
+      total_commits: { type: 'integer', minimum: 0 },
+      points: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['sha', 'date', 'tokens', 'delta'],
+          properties: {
+            sha: { type: 'string' },
+            date: { type: 'string' },
+            message: { type: 'string' },
+            author: { type: 'string', nullable: true },
+            tokens: { type: 'integer', minimum: 0 },
+            processed_files: { type: 'integer', minimum: 0 },
+            complete: { type: 'boolean' },
+            delta: { type: 'integer' }
+          }
+        }
+      },
+      jumps: { type: 'array', items: looseObject('from_sha, to_sha, tokens_added, share and the responsible commit, if one') },
+      analysis_timestamp: { type: 'string' },
+      api_usage: looseObject('Requests sent and the last rate-limit status')
+    }
+  },
+  AnalysisJob: {
+    type: 'object',
+    required: ['id', 'status', 'username', 'min_tokens', 'created_at', 'updated_at', 'attempts', 'progress'],
+    properties: {
+      id: { type: 'string' },
+      status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted'] },
+      username: { type: 'string' },
+      min_tokens: { type: 'integer' },
+      options: looseObject('The analyzer options of the request, without the token'),
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      started_at: { type: 'string' },
+      finished_at: { type: 'string' },
+      attempts: { type: 'integer', minimum: 0 },
+      progress: looseObject('total_repos, completed and failed'),
+      checkpoints: { type: 'object', additionalProperties: ref('RepoAnalysis') },
+      repo_errors: { type: 'object', additionalProperties: { type: 'string' } },
+      resume_after: { type: 'string' },
+      result: ref('AnalysisResult'),
+      error: { type: 'string' }
+    }
+  },
+  ProgressEvent: {
+    type: 'object',
+    required: ['type'],
+    description: 'One line of an NDJSON stream',
+    properties: {
+      type: {
+        type: 'string',
+        enum: [
+          'repos_listed', 'repo_started', 'repo_completed', 'repo_failed', 'summary', 'error',
+          'batch_started', 'user_started', 'user_completed', 'user_failed', 'batch_summary'
+        ]
+      }
+    }
+  }
+};
+
+// Throws a ValidationError listing every field of the body that breaks the named request schema
+export function validateRequest(name: string, body: unknown): Record<string, any> {
+  const fields = validate(API_SCHEMAS[name], body, API_SCHEMAS);
+  if (fields.length) throw new ValidationError(fields);
+  return body as Record<string, any>;
+}
+
+// Responses are only checked outside production, where a mismatch means the schema or
+// the code drifted; it is logged rather than failing a request that otherwise worked
+export function checkResponse<T>(name: string, value: T): T {
+  if (process.env.NODE_ENV !== 'production') {
+    const fields = validate(API_SCHEMAS[name], value, API_SCHEMAS);
+    if (fields.length) {
+      console.warn(`Response does not match the ${name} schema:`, fields.slice(0, 5).map(error => `${error.field || '(root)'} ${error.message}`).join('; '));
+    }
+  }
+  return value;
+}
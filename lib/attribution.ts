@@ -0,0 +1,95 @@
+import { GitHubClient } from './github-client';
+
+export interface AttributionOptions {
+  // Compare authored_tokens rather than total_tokens with minTokens
+  applyThreshold?: boolean;
+}
+
+export interface AuthorShare {
+  // 'additions' from the contributor statistics; 'commits' from contributor commit counts,
+  // used when GitHub has no statistics for the repository
+  method: 'additions' | 'commits';
+  // Between 0 and 1
+  share: number;
+  author_count: number;
+  total_count: number;
+  contributors: number;
+}
+
+export interface Attribution extends AuthorShare {
+  // Login the share was measured for
+  author: string;
+  // total_tokens scaled by share
+  authored_tokens: number;
+  // Whether meets_criteria was decided on authored_tokens
+  threshold_applied: boolean;
+}
+
+// GitHub computes contributor statistics in the background and answers 202 until they are ready
+const STATS_RETRIES = 2;
+const STATS_RETRY_DELAY_MS = 1500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function toShare(method: AuthorShare['method'], counts: { login: string; count: number }[], login: string): AuthorShare | null {
+  const total = counts.reduce((sum, entry) => sum + entry.count, 0);
+  if (total <= 0) return null;
+
+  const author = counts
+    .filter(entry => entry.login.toLowerCase() === login.toLowerCase())
+    .reduce((sum, entry) => sum + entry.count, 0);
+  return {
+    method,
+    share: Math.round((author / total) * 10000) / 10000,
+    author_count: author,
+    total_count: total,
+    contributors: counts.length
+  };
+}
+
+// Lines added per contributor, or null while GitHub is still computing them or has none
+async function additionsByContributor(client: GitHubClient, repoUrl: string): Promise<{ login: string; count: number }[] | null> {
+  for (let attempt = 0; attempt <= STATS_RETRIES; attempt++) {
+    const response = await client.fetch(`${repoUrl}/stats/contributors`);
+    if (response.status === 202) {
+      if (attempt < STATS_RETRIES) await sleep(STATS_RETRY_DELAY_MS);
+      continue;
+    }
+    if (!response.ok) return null;
+
+    const stats: any[] = await response.json();
+    if (!Array.isArray(stats)) return null;
+    return stats
+      .filter(entry => entry.author?.login)
+      .map(entry => ({
+        login: entry.author.login,
+        count: (entry.weeks || []).reduce((sum: number, week: any) => sum + (week.a || 0), 0)
+      }));
+  }
+  return null;
+}
+
+async function commitsByContributor(client: GitHubClient, repoUrl: string): Promise<{ login: string; count: number }[] | null> {
+  const response = await client.fetch(`${repoUrl}/contributors?per_page=100&anon=1`);
+  if (!response.ok) return null;
+  const contributors: any[] = await response.json();
+  if (!Array.isArray(contributors)) return null;
+  // Anonymous contributors have no login but still count towards the total
+  return contributors.map(entry => ({ login: entry.login || '', count: entry.contributions || 0 }));
+}
+
+// Estimates the share of a repository's code written by `login`: their share of all added
+// lines, or of all commits when GitHub has no line statistics (very large or brand-new
+// repositories). Returns null when neither is available.
+export async function getAuthorShare(client: GitHubClient, owner: string, repoName: string, login: string): Promise<AuthorShare | null> {
+  const repoUrl = `${client.apiBaseUrl}/repos/${owner}/${repoName}`;
+
+  const additions = await additionsByContributor(client, repoUrl);
+  const byAdditions = additions && toShare('additions', additions, login);
+  if (byAdditions) return byAdditions;
+
+  const commits = await commitsByContributor(client, repoUrl);
+  return commits && toShare('commits', commits, login);
+}
@@ -0,0 +1,263 @@
+import { AnalysisResult, AnalyzerOptions, GitHubRepoAnalyzer, OwnerType, RepoAnalysis } from './github-analyzer';
+import { GitHubClient, RateLimitStatus } from './github-client';
+import { mapWithConcurrency } from './concurrency';
+import { extractUsername } from './github-url';
+import { ErrorCode, ErrorInfo, toErrorInfo } from './errors';
+
+// `estimated` marks tokens that are a pre-screen estimate rather than a count
+export interface BatchRepo {
+  name: string;
+  tokens: number;
+  url: string;
+  estimated?: boolean;
+}
+
+export interface BatchEntry {
+  // 1-based position in the leaderboard
+  rank: number;
+  username: string;
+  owner_type?: OwnerType;
+  // 'skipped' users were never started because the shared rate-limit budget ran out
+  status: 'completed' | 'failed' | 'skipped';
+  qualifies: boolean;
+  // Tokens counted in the repositories that were tokenized
+  total_tokens: number;
+  // Pre-screen estimates of the repositories that were not tokenized; never part of total_tokens
+  estimated_tokens?: number;
+  repos_analyzed: number;
+  qualifying_repos: BatchRepo[];
+  largest_repo: BatchRepo | null;
+  aborted_reason?: string;
+  error?: string;
+  // Code of `error`, or of the failure that cut the analysis short
+  error_code?: ErrorCode;
+}
+
+export interface BatchResult {
+  total_users: number;
+  completed_users: number;
+  failed_users: number;
+  qualifying_users: number;
+  // Qualifying users first, then by counted tokens; failed and skipped users last
+  leaderboard: BatchEntry[];
+  min_tokens_threshold: number;
+  analysis_timestamp: string;
+  api_usage: {
+    requests: number;
+    rate_limit: RateLimitStatus;
+  };
+}
+
+export type BatchProgressEvent =
+  | { type: 'batch_started'; usernames: string[] }
+  | { type: 'user_started'; username: string; index: number; total: number }
+  | { type: 'user_completed'; username: string; index: number; total: number; entry: BatchEntry }
+  | { type: 'user_failed'; username: string; index: number; total: number; entry: BatchEntry }
+  | { type: 'batch_summary'; result: BatchResult }
+  | { type: 'error'; error: string; code: ErrorCode; retryable: boolean };
+
+export interface BatchOptions {
+  token?: string;
+  minTokens?: number;
+  // Profiles analyzed at the same time (default 2, at most 5); each also runs repoConcurrency repositories
+  userConcurrency?: number;
+  // Applied to every profile. Any `client` is replaced by the batch's shared client.
+  analyzerOptions?: AnalyzerOptions;
+  onProgress?: (event: BatchProgressEvent) => void;
+  // Checked before each profile starts; returning true skips the rest
+  isCancelled?: () => boolean;
+}
+
+export const MAX_BATCH_USERS = 200;
+
+const USERNAME_COLUMNS = ['username', 'user', 'login', 'github', 'github_url', 'url', 'profile'];
+
+// Splits a CSV line, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+// Accepts one username or profile URL per line, comma-separated lists, or a CSV file whose
+// header names a username/login/url column (the first column otherwise). Duplicates are dropped.
+export function parseUsernameList(text: string): string[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  if (!lines.length) return [];
+
+  let column = 0;
+  const header = splitCsvLine(lines[0]).map(value => value.toLowerCase());
+  const headerColumn = header.findIndex(value => USERNAME_COLUMNS.includes(value));
+  const rows = headerColumn >= 0 ? lines.slice(1) : lines;
+  if (headerColumn >= 0) column = headerColumn;
+
+  const usernames: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const fields = splitCsvLine(row);
+    // Without a header, a line of several values is a plain comma-separated list
+    const values = headerColumn >= 0 ? [fields[column] || ''] : fields;
+    for (const value of values) {
+      const username = value ? extractUsername(value) : '';
+      if (username && !seen.has(username.toLowerCase())) {
+        seen.add(username.toLowerCase());
+        usernames.push(username);
+      }
+    }
+  }
+  return usernames;
+}
+
+function toBatchRepo(repo: RepoAnalysis): BatchRepo {
+  return { name: repo.name, tokens: repo.total_tokens, url: repo.url, ...(repo.measured === false ? { estimated: true } : {}) };
+}
+
+function toEntry(username: string, result: AnalysisResult): BatchEntry {
+  const repos = Object.values(result.all_repo_stats);
+  const largest = repos.reduce<typeof repos[number] | null>((max, repo) => !max || repo.total_tokens > max.total_tokens ? repo : max, null);
+  // Pre-screened repositories settled by their estimate are summed apart, so profiles rank on counts
+  const estimated = repos.filter(repo => repo.measured === false);
+
+  return {
+    rank: 0,
+    username,
+    owner_type: result.owner_type,
+    status: result.error ? 'failed' : 'completed',
+    qualifies: result.repos_meeting_criteria.length > 0,
+    total_tokens: repos.reduce((sum, repo) => sum + (repo.measured === false ? 0 : repo.total_tokens), 0),
+    ...(estimated.length ? { estimated_tokens: estimated.reduce((sum, repo) => sum + repo.total_tokens, 0) } : {}),
+    repos_analyzed: result.total_repos_analyzed,
+    qualifying_repos: result.repos_meeting_criteria
+      .map(toBatchRepo)
+      .sort((a, b) => b.tokens - a.tokens),
+    largest_repo: largest ? toBatchRepo(largest) : null,
+    aborted_reason: result.aborted_reason,
+    error: result.error,
+    error_code: result.error_info?.code || (result.aborted_reason
+      ? result.repo_errors?.find(repoError => repoError.code === 'rate_limited' || repoError.code === 'auth_invalid')?.code
+      : undefined)
+  };
+}
+
+// The shared budget is gone, or the shared token itself was rejected (401). A 403 on one
+// account, such as an organization behind SAML or an IP allow-list, only fails that profile.
+function stopsBatch(info: ErrorInfo | undefined): boolean {
+  return !!info && (info.code === 'rate_limited' || (info.code === 'auth_invalid' && info.details.status === 401));
+}
+
+function failedEntry(username: string, status: 'failed' | 'skipped', error: string, errorCode?: ErrorCode): BatchEntry {
+  return {
+    rank: 0,
+    username,
+    status,
+    qualifies: false,
+    total_tokens: 0,
+    repos_analyzed: 0,
+    qualifying_repos: [],
+    largest_repo: null,
+    error,
+    error_code: errorCode
+  };
+}
+
+export function rankEntries(entries: BatchEntry[]): BatchEntry[] {
+  const statusOrder = { completed: 0, failed: 1, skipped: 2 };
+  return entries
+    .slice()
+    .sort((a, b) =>
+      statusOrder[a.status] - statusOrder[b.status] ||
+      Number(b.qualifies) - Number(a.qualifies) ||
+      b.qualifying_repos.length - a.qualifying_repos.length ||
+      b.total_tokens - a.total_tokens
+    )
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+// Screens many profiles with one GitHub client, so every analysis draws on the same
+// rate-limit budget. A failing profile is reported in its entry and the batch carries on;
+// once the budget is exhausted the remaining profiles are skipped rather than failed one by one.
+export async function analyzeBatch(usernames: string[], options: BatchOptions = {}): Promise<BatchResult> {
+  const minTokens = options.minTokens ?? 1000000;
+  const analyzerOptions = options.analyzerOptions || {};
+  const client = new GitHubClient({ token: options.token, apiBaseUrl: analyzerOptions.apiBaseUrl });
+  const userConcurrency = Math.min(options.userConcurrency || 2, 5);
+  const onProgress = options.onProgress;
+  // Set once the shared budget is gone or the token is rejected; every later profile would fail too
+  let stopped: { message: string; code: ErrorCode } | null = null;
+
+  onProgress?.({ type: 'batch_started', usernames });
+
+  const entries = await mapWithConcurrency(usernames, userConcurrency, async (username, index) => {
+    const total = usernames.length;
+
+    if (stopped || options.isCancelled?.()) {
+      const entry = stopped
+        ? failedEntry(username, 'skipped', stopped.message, stopped.code)
+        : failedEntry(username, 'skipped', 'Batch cancelled');
+      onProgress?.({ type: 'user_failed', username, index, total, entry });
+      return entry;
+    }
+
+    onProgress?.({ type: 'user_started', username, index, total });
+
+    let entry: BatchEntry;
+    let failure: ErrorInfo | undefined;
+    try {
+      const analyzer = new GitHubRepoAnalyzer(options.token, { ...analyzerOptions, client });
+      // A cancelled batch also stops the profile in progress, between repositories
+      const result = await analyzer.analyzeUserProfile(username, minTokens, undefined, { isCancelled: options.isCancelled });
+      entry = toEntry(username, result);
+      failure = result.error_info || (result.aborted_reason ? result.repo_errors?.find(stopsBatch) : undefined);
+    } catch (error) {
+      console.error(`Error analyzing profile ${username}:`, error);
+      failure = toErrorInfo(error);
+      entry = failedEntry(username, 'failed', failure.message, failure.code);
+    }
+
+    // Both a failed listing and a profile cut short can mean the shared budget or token is gone
+    if (stopsBatch(failure)) {
+      stopped = { message: entry.error || entry.aborted_reason || 'Analysis stopped', code: failure!.code };
+    }
+
+    onProgress?.({ type: entry.status === 'completed' ? 'user_completed' : 'user_failed', username, index, total, entry });
+    return entry;
+  });
+
+  const leaderboard = rankEntries(entries);
+  const result: BatchResult = {
+    total_users: usernames.length,
+    completed_users: leaderboard.filter(entry => entry.status === 'completed').length,
+    failed_users: leaderboard.filter(entry => entry.status !== 'completed').length,
+    qualifying_users: leaderboard.filter(entry => entry.qualifies).length,
+    leaderboard,
+    min_tokens_threshold: minTokens,
+    analysis_timestamp: new Date().toISOString(),
+    api_usage: { requests: client.requestCount, rate_limit: { ...client.rateLimit } }
+  };
+
+  onProgress?.({ type: 'batch_summary', result });
+  return result;
+}
@@ -0,0 +1,104 @@
+// Eligible files whose tokens were not (fully) counted:
+//   file_cap      beyond the per-repository file limit of the per-file mode
+//   too_large     over the 10MB file size limit
+//   fetch_failed  the download failed or returned an error status
+//   not_read      skipped while streaming an archive, before the repository's rules were known
+export type SkipReason = 'file_cap' | 'too_large' | 'fetch_failed' | 'not_read';
+
+export interface CompletenessReport {
+  // Every eligible file was read in full from a complete listing
+  complete: boolean;
+  // The verdict can be trusted: the data is complete, or the counted tokens already reach the threshold
+  conclusive: boolean;
+  // Share of eligible bytes that was counted, from 0 to 1
+  coverage: number;
+  eligible_files: number;
+  counted_files: number;
+  skipped: Partial<Record<SkipReason, number>>;
+  // Files counted only up to the download size limit
+  truncated_files: number;
+  failed_fetches: { path: string; error: string }[];
+  listing_complete: boolean;
+  // total_tokens plus the missing bytes at the tokens-per-byte rate of the counted files;
+  // equal to total_tokens when the analysis is complete
+  estimated_total_tokens: number;
+  reasons: string[];
+}
+
+const MAX_REPORTED_FAILURES = 50;
+// Used for extrapolation when nothing at all was counted
+const DEFAULT_BYTES_PER_TOKEN = 4;
+
+function fileCount(count: number): string {
+  return count === 1 ? '1 file' : `${count} files`;
+}
+
+// Collects what was and wasn't read while one repository is analyzed
+export class CompletenessTracker {
+  private countedFiles = 0;
+  private countedBytes = 0;
+  private countedTokens = 0;
+  private missingBytes = 0;
+  private truncatedFiles = 0;
+  private skipped: Partial<Record<SkipReason, number>> = {};
+  private failures: { path: string; error: string }[] = [];
+
+  // `readBytes` is less than `size` when the content was truncated
+  recordCounted(size: number, tokens: number, readBytes: number = size) {
+    this.countedFiles++;
+    this.countedBytes += readBytes;
+    this.countedTokens += tokens;
+    if (readBytes < size) {
+      this.truncatedFiles++;
+      this.missingBytes += size - readBytes;
+    }
+  }
+
+  recordSkipped(reason: SkipReason, size: number) {
+    this.skipped[reason] = (this.skipped[reason] || 0) + 1;
+    this.missingBytes += size;
+  }
+
+  recordFailure(path: string, size: number, error: string) {
+    this.recordSkipped('fetch_failed', size);
+    if (this.failures.length < MAX_REPORTED_FAILURES) {
+      this.failures.push({ path, error });
+    }
+  }
+
+  report(totalTokens: number, minTokens: number, listingComplete: boolean): CompletenessReport {
+    const skippedFiles = Object.values(this.skipped).reduce((sum, count) => sum + (count || 0), 0);
+    const complete = listingComplete && skippedFiles === 0 && this.truncatedFiles === 0;
+    const tokensPerByte = this.countedBytes > 0 ? this.countedTokens / this.countedBytes : 1 / DEFAULT_BYTES_PER_TOKEN;
+    const eligibleBytes = this.countedBytes + this.missingBytes;
+
+    const reasons: string[] = [];
+    if (!listingComplete) reasons.push('Only part of the file listing could be retrieved');
+    if (this.skipped.file_cap) reasons.push(`${fileCount(this.skipped.file_cap)} over the per-repository file limit not read`);
+    if (this.skipped.too_large) reasons.push(`${fileCount(this.skipped.too_large)} over 10MB skipped`);
+    if (this.skipped.fetch_failed) reasons.push(`${fileCount(this.skipped.fetch_failed)} could not be downloaded`);
+    if (this.skipped.not_read) reasons.push(`${fileCount(this.skipped.not_read)} skipped before the repository's rules were known`);
+    if (this.truncatedFiles) reasons.push(`${fileCount(this.truncatedFiles)} only partly read`);
+
+    const report: CompletenessReport = {
+      complete,
+      conclusive: false,
+      coverage: eligibleBytes > 0 ? Math.round((this.countedBytes / eligibleBytes) * 10000) / 10000 : 1,
+      eligible_files: this.countedFiles + skippedFiles,
+      counted_files: this.countedFiles,
+      skipped: this.skipped,
+      truncated_files: this.truncatedFiles,
+      failed_fetches: this.failures,
+      listing_complete: listingComplete,
+      estimated_total_tokens: totalTokens + Math.round(this.missingBytes * tokensPerByte),
+      reasons
+    };
+    return withVerdict(report, totalTokens, minTokens);
+  }
+}
+
+// Missing data can only add tokens, so a repository that already qualifies stays qualified.
+// Recomputed whenever the threshold changes, e.g. for cached analyses.
+export function withVerdict(report: CompletenessReport, totalTokens: number, minTokens: number): CompletenessReport {
+  return { ...report, conclusive: report.complete || totalTokens >= minTokens };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A worker that records how many of its calls overlap
+function trackedWorker<T>(wait: (item: T) => number) {
+  const state = { inFlight: 0, maxInFlight: 0, calls: 0 };
+  const worker = async (item: T) => {
+    state.calls++;
+    state.inFlight++;
+    state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+    await delay(wait(item));
+    state.inFlight--;
+    return item;
+  };
+  return { state, worker };
+}
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once', async () => {
+    const { state, worker } = trackedWorker<number>(() => 5);
+    await mapWithConcurrency(Array.from({ length: 20 }, (_, i) => i), 4, worker);
+    expect(state.calls).toBe(20);
+    expect(state.maxInFlight).toBe(4);
+  });
+
+  it('keeps the order of the items when later calls finish first', async () => {
+    const { worker } = trackedWorker<number>(item => 30 - item * 5);
+    const results = await mapWithConcurrency([0, 1, 2, 3, 4, 5], 3, async (item, index) => `${index}:${await worker(item)}`);
+    expect(results).toEqual(['0:0', '1:1', '2:2', '3:3', '4:4', '5:5']);
+  });
+
+  it('treats a limit below one as one', async () => {
+    for (const limit of [0, -2, 0.5, NaN]) {
+      const { state, worker } = trackedWorker<number>(() => 1);
+      await mapWithConcurrency([1, 2, 3], limit, worker);
+      expect(state.maxInFlight).toBe(1);
+    }
+  });
+
+  it('starts no more workers than there are items', async () => {
+    const { state, worker } = trackedWorker<number>(() => 1);
+    await mapWithConcurrency([1, 2], 10, worker);
+    expect(state.maxInFlight).toBe(2);
+    expect(await mapWithConcurrency([], 10, worker)).toEqual([]);
+  });
+
+  it('rejects with the first failure', async () => {
+    const failing = mapWithConcurrency([1, 2, 3], 2, async item => {
+      await delay(1);
+      if (item === 2) throw new Error('item 2 failed');
+      return item;
+    });
+    await expect(failing).rejects.toThrow('item 2 failed');
+  });
+});
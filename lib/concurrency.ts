@@ -0,0 +1,26 @@
+// Runs `worker` over every item with at most `limit` calls in flight at once.
+// Results keep the order of `items` regardless of which call finishes first.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const poolSize = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const pool: Promise<void>[] = [];
+  for (let i = 0; i < poolSize; i++) {
+    pool.push(runWorker());
+  }
+  await Promise.all(pool);
+
+  return results;
+}
@@ -0,0 +1,197 @@
+import type { RepoAnalysis } from './github-analyzer';
+
+// A file generated by a framework's project scaffolding. Both the path and every content
+// pattern must match; the content patterns are phrases the generators write verbatim.
+interface BoilerplateFingerprint {
+  framework: string;
+  path: RegExp;
+  content: RegExp[];
+}
+
+const BOILERPLATE_FINGERPRINTS: BoilerplateFingerprint[] = [
+  // create-react-app
+  { framework: 'create-react-app', path: /(^|\/)src\/App\.(js|jsx|ts|tsx)$/, content: [/Edit <code>src\/App\.(js|jsx|ts|tsx)<\/code> and save to reload/] },
+  { framework: 'create-react-app', path: /(^|\/)src\/App\.test\.(js|jsx|ts|tsx)$/, content: [/renders learn react link/] },
+  { framework: 'create-react-app', path: /(^|\/)src\/reportWebVitals\.(js|ts)$/, content: [/web-vitals/, /getCLS|onCLS/] },
+  { framework: 'create-react-app', path: /(^|\/)src\/setupTests\.(js|ts)$/, content: [/@testing-library\/jest-dom/] },
+  { framework: 'create-react-app', path: /(^|\/)src\/(index|App)\.css$/, content: [/(App-logo-spin|source-code-pro, Menlo, Monaco, Consolas)/] },
+  { framework: 'create-react-app', path: /(^|\/)public\/index\.html$/, content: [/Web site created using create-react-app/] },
+  { framework: 'create-react-app', path: /(^|\/)README\.md$/, content: [/This project was bootstrapped with \[Create React App\]/] },
+  // create-next-app
+  { framework: 'create-next-app', path: /(^|\/)README\.md$/, content: [/This is a \[Next\.js\]\(https:\/\/nextjs\.org\/?\) project bootstrapped with/] },
+  { framework: 'create-next-app', path: /(^|\/)(src\/)?(app\/page|pages\/index)\.(js|jsx|ts|tsx)$/, content: [/Get started by editing/] },
+  { framework: 'create-next-app', path: /(^|\/)(src\/)?pages\/api\/hello\.(js|ts)$/, content: [/Next\.js API route support/] },
+  { framework: 'create-next-app', path: /(^|\/)(src\/)?(app|styles)\/globals\.css$/, content: [/--foreground(-rgb)?:\s*(#171717|0, 0, 0)/] },
+  // create-vite
+  { framework: 'vite', path: /(^|\/)README\.md$/, content: [/This template provides a minimal setup to get React working in Vite/] },
+  { framework: 'vite', path: /(^|\/)src\/App\.(jsx|tsx|vue|svelte)$/, content: [/count is/, /Vite/] },
+  { framework: 'vite', path: /(^|\/)vite\.config\.(js|ts|mjs)$/, content: [/https:\/\/vite(js)?\.dev\/config\//] },
+  { framework: 'vite', path: /(^|\/)src\/(index|style|App)\.css$/, content: [/(Inter, system-ui, Avenir|logo-spin)/] },
+  // Angular CLI
+  { framework: 'angular-cli', path: /(^|\/)README\.md$/, content: [/This project was generated (with|using) \[Angular CLI\]/] },
+  { framework: 'angular-cli', path: /(^|\/)src\/app\/app(\.component)?\.spec\.ts$/, content: [/should create the app/] },
+  { framework: 'angular-cli', path: /(^|\/)karma\.conf\.js$/, content: [/Karma configuration file, see link for more information/] },
+  // django-admin startproject
+  { framework: 'django', path: /(^|\/)manage\.py$/, content: [/Django's command-line utility for administrative tasks/] },
+  { framework: 'django', path: /(^|\/)(settings|asgi|wsgi)\.py$/, content: [/Generated by 'django-admin startproject'|(ASGI|WSGI) config for .* project/] },
+  { framework: 'django', path: /(^|\/)urls\.py$/, content: [/The `urlpatterns` list routes URLs to views/] },
+  // rails new
+  { framework: 'rails', path: /(^|\/)config\/environments\/\w+\.rb$/, content: [/Settings specified here will take precedence over those in config\/application\.rb/] },
+  { framework: 'rails', path: /(^|\/)config\/puma\.rb$/, content: [/Puma can serve each request in a thread from an internal thread pool/] }
+];
+
+// The framework whose scaffolding produced this file, if it is unmodified boilerplate
+export function matchBoilerplate(path: string, content: string): string | null {
+  for (const fingerprint of BOILERPLATE_FINGERPRINTS) {
+    if (fingerprint.path.test(path) && fingerprint.content.every(pattern => pattern.test(content))) {
+      return fingerprint.framework;
+    }
+  }
+  return null;
+}
+
+export interface BoilerplateSummary {
+  files: number;
+  tokens: number;
+  // Tokens per framework
+  frameworks: Record<string, number>;
+}
+
+// Shortened blob SHA -> tokens, for every counted file of a repository that isn't boilerplate.
+// Kept out of RepoAnalysis: profile analyses and the repository cache pass them alongside.
+export type ContentHashes = Record<string, number>;
+
+// Per-repository output of the duplicate detection
+export interface RepoDuplication {
+  boilerplate: BoilerplateSummary;
+  // Extra copies of files that appear more than once within the repository
+  internal_duplicate_tokens: number;
+  // Tokens in files a larger analyzed repository also has (set by profile analyses)
+  shared_tokens: number;
+  // Other analyzed repositories with any content in common
+  shared_with: string[];
+}
+
+export interface RepoOverlap {
+  repos: [string, string];
+  shared_files: number;
+  shared_tokens: number;
+  // Shared tokens as a share of the smaller repository's hashed tokens, from 0 to 1
+  overlap: number;
+}
+
+export interface DuplicationReport {
+  // Files whose content a larger analyzed repository also has
+  duplicated_files: number;
+  // Their tokens plus those of files repeated within a repository
+  duplicated_tokens: number;
+  boilerplate_tokens: number;
+  // Tokens left once every duplicate and all boilerplate is counted only once or not at all
+  unique_tokens: number;
+  // Repository pairs sharing content, most overlapping first
+  pairs: RepoOverlap[];
+}
+
+// Pairs below both limits are not reported
+const MIN_PAIR_OVERLAP = 0.1;
+const MIN_PAIR_SHARED_TOKENS = 10000;
+const MAX_REPORTED_PAIRS = 50;
+
+export function createBoilerplateSummary(): BoilerplateSummary {
+  return { files: 0, tokens: 0, frameworks: {} };
+}
+
+// Hash keys are shortened blob SHAs; this many characters keeps collisions out of reach
+export function contentHashKey(blobSha: string): string {
+  return blobSha.slice(0, 12);
+}
+
+function hashedTokens(hashes: ContentHashes): number {
+  return Object.values(hashes).reduce((sum, tokens) => sum + tokens, 0);
+}
+
+// Tokens left once boilerplate and duplicated content are taken out
+export function uniqueTokens(totalTokens: number, duplication: RepoDuplication): number {
+  return Math.max(0, totalTokens - duplication.boilerplate.tokens - duplication.internal_duplicate_tokens - duplication.shared_tokens);
+}
+
+// Finds content shared between repositories and sets each one's shared_tokens, shared_with and
+// unique_tokens. Shared content stays with the largest repository that has it, so the biggest
+// copy of a project keeps its tokens and the smaller copies lose theirs. Repositories without
+// content hashes in hashesByRepo (estimated, cached before hashing existed, or restored from a
+// job checkpoint) share nothing with the others.
+export function applyDuplication(repos: RepoAnalysis[], hashesByRepo: Map<string, ContentHashes>): { repos: RepoAnalysis[]; report: DuplicationReport } {
+  const owners = new Map<string, string>();
+  const holders = new Map<string, string[]>();
+  const hashed = repos
+    .filter(repo => repo.duplication && hashesByRepo.has(repo.name))
+    .sort((a, b) => b.total_tokens - a.total_tokens || a.name.localeCompare(b.name));
+
+  for (const repo of hashed) {
+    for (const hash of Object.keys(hashesByRepo.get(repo.name)!)) {
+      if (!owners.has(hash)) owners.set(hash, repo.name);
+      holders.set(hash, [...(holders.get(hash) || []), repo.name]);
+    }
+  }
+
+  const report: DuplicationReport = {
+    duplicated_files: 0,
+    duplicated_tokens: 0,
+    boilerplate_tokens: 0,
+    unique_tokens: 0,
+    pairs: []
+  };
+
+  const updated = repos.map(repo => {
+    if (!repo.duplication) return repo;
+
+    let sharedTokens = 0;
+    const sharedWith = new Set<string>();
+    for (const [hash, tokens] of Object.entries(hashesByRepo.get(repo.name) || {})) {
+      const names = holders.get(hash) || [];
+      names.filter(name => name !== repo.name).forEach(name => sharedWith.add(name));
+      if (owners.get(hash) !== repo.name) {
+        sharedTokens += tokens;
+        report.duplicated_files++;
+      }
+    }
+
+    const duplication: RepoDuplication = { ...repo.duplication, shared_tokens: sharedTokens, shared_with: Array.from(sharedWith).sort() };
+    const unique = uniqueTokens(repo.total_tokens, duplication);
+    report.duplicated_tokens += duplication.internal_duplicate_tokens + sharedTokens;
+    report.boilerplate_tokens += duplication.boilerplate.tokens;
+    report.unique_tokens += unique;
+    return { ...repo, duplication, unique_tokens: unique };
+  });
+
+  // Shared files and tokens per pair of repositories
+  const pairTotals = new Map<string, { repos: [string, string]; files: number; tokens: number }>();
+  holders.forEach((names, hash) => {
+    for (let i = 0; i < names.length; i++) {
+      for (let j = i + 1; j < names.length; j++) {
+        const key = `${names[i]}\n${names[j]}`;
+        const pair = pairTotals.get(key) || { repos: [names[i], names[j]] as [string, string], files: 0, tokens: 0 };
+        pair.files++;
+        pair.tokens += hashesByRepo.get(names[i])![hash];
+        pairTotals.set(key, pair);
+      }
+    }
+  });
+
+  const hashedTotals = new Map(hashed.map(repo => [repo.name, hashedTokens(hashesByRepo.get(repo.name)!)] as const));
+  report.pairs = Array.from(pairTotals.values())
+    .map(pair => {
+      const smaller = Math.min(hashedTotals.get(pair.repos[0]) || 0, hashedTotals.get(pair.repos[1]) || 0);
+      return {
+        repos: pair.repos,
+        shared_files: pair.files,
+        shared_tokens: pair.tokens,
+        overlap: smaller > 0 ? Math.round((pair.tokens / smaller) * 1000) / 1000 : 0
+      };
+    })
+    .filter(pair => pair.overlap >= MIN_PAIR_OVERLAP || pair.shared_tokens >= MIN_PAIR_SHARED_TOKENS)
+    .sort((a, b) => b.overlap - a.overlap || b.shared_tokens - a.shared_tokens)
+    .slice(0, MAX_REPORTED_PAIRS);
+
+  return { repos: updated, report };
+}
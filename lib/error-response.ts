@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { errorBody, toAnalysisError } from './errors';
+
+// JSON error response for anything a route rejects or catches, with the status its code maps to
+export function errorResponse(error: unknown) {
+  const failure = toAnalysisError(error);
+  return NextResponse.json(errorBody(failure), { status: failure.status });
+}
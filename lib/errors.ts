@@ -0,0 +1,222 @@
+import type { FieldError } from './schema';
+
+export type ErrorCode =
+  | 'invalid_request'
+  | 'validation_failed'
+  | 'user_not_found'
+  | 'no_repositories'
+  | 'rate_limited'
+  | 'auth_invalid'
+  | 'oauth_failed'
+  | 'repo_unavailable'
+  | 'timeout'
+  | 'upstream_error'
+  | 'tokenizer_failed'
+  | 'job_not_found'
+  | 'internal_error';
+
+// HTTP status each code is answered with unless the error says otherwise
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  validation_failed: 422,
+  user_not_found: 404,
+  no_repositories: 404,
+  rate_limited: 429,
+  auth_invalid: 401,
+  oauth_failed: 400,
+  repo_unavailable: 404,
+  timeout: 504,
+  upstream_error: 502,
+  tokenizer_failed: 500,
+  job_not_found: 404,
+  internal_error: 500
+};
+
+// Machine-readable description of a failure, as stored in results and progress events
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string;
+  // Whether the same request can succeed later without changes (after reset_at for rate limits)
+  retryable: boolean;
+  details: Record<string, unknown>;
+}
+
+// JSON body of every error response. `error` stays the human-readable message.
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  details: Record<string, unknown>;
+}
+
+// A repository that could not be analyzed, listed in AnalysisResult.repo_errors
+export interface RepoError extends ErrorInfo {
+  repo: string;
+}
+
+export class AnalysisError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly details: Record<string, unknown>;
+  readonly status: number;
+
+  constructor(message: string, code: ErrorCode, retryable: boolean, details: Record<string, unknown> = {}, status: number = ERROR_STATUS[code]) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.retryable = retryable;
+    this.details = details;
+    this.status = status;
+  }
+
+  toInfo(): ErrorInfo {
+    return { code: this.code, message: this.message, retryable: this.retryable, details: this.details };
+  }
+}
+
+export class InvalidRequestError extends AnalysisError {
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super(message, 'invalid_request', false, details);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+// The request was well-formed JSON but broke the API schema; details.fields lists every violation
+export class ValidationError extends AnalysisError {
+  constructor(fields: FieldError[]) {
+    const first = fields[0];
+    const summary = first ? `${first.field || 'body'} ${first.message}` : 'Invalid request';
+    super(`Invalid request: ${summary}${fields.length > 1 ? ` (and ${fields.length - 1} more)` : ''}`, 'validation_failed', false, { fields });
+    this.name = 'ValidationError';
+  }
+}
+
+export class UserNotFoundError extends AnalysisError {
+  constructor(username: string, kind: 'User' | 'Organization' = 'User') {
+    super(`${kind} '${username}' not found`, 'user_not_found', false, { username });
+    this.name = 'UserNotFoundError';
+  }
+}
+
+// Also raised for another caller's job, so ids can't be probed
+export class JobNotFoundError extends AnalysisError {
+  constructor(id: string) {
+    super(`Job '${id}' not found`, 'job_not_found', false, { id });
+    this.name = 'JobNotFoundError';
+  }
+}
+
+export class NoRepositoriesError extends AnalysisError {
+  constructor(username: string) {
+    super('No repositories found or user does not exist', 'no_repositories', false, { username });
+    this.name = 'NoRepositoriesError';
+  }
+}
+
+export class RateLimitExceededError extends AnalysisError {
+  resetAt: Date | null;
+
+  constructor(resetAt: Date | null) {
+    const when = resetAt ? ` Resets at ${resetAt.toISOString()}.` : '';
+    super(`Rate limit exceeded. Please provide a GitHub token or wait.${when}`, 'rate_limited', true, {
+      reset_at: resetAt ? resetAt.toISOString() : null
+    });
+    this.name = 'RateLimitExceededError';
+    this.resetAt = resetAt;
+  }
+}
+
+// GitHub rejected the token (401), or it lacks access to an account's listing (403)
+export class AuthInvalidError extends AnalysisError {
+  constructor(message: string, status: number = 401) {
+    super(message, 'auth_invalid', false, { status }, status);
+    this.name = 'AuthInvalidError';
+  }
+}
+
+// Signing in with GitHub failed: the state didn't match, the code was rejected, or the
+// flow isn't configured (501)
+export class OAuthError extends AnalysisError {
+  constructor(message: string, details: Record<string, unknown> = {}, status?: number) {
+    super(message, 'oauth_failed', false, details, status);
+    this.name = 'OAuthError';
+  }
+}
+
+// GitHub's own failures are a bad gateway here; anything else keeps GitHub's status
+function repoUnavailableStatus(githubStatus: number | null): number {
+  return githubStatus !== null && githubStatus >= 500 ? 502 : githubStatus || 404;
+}
+
+// A repository that doesn't exist, can't be seen with this token, is blocked, empty, or
+// could not be listed or downloaded. Server-side failures (5xx) are worth retrying.
+export class RepoUnavailableError extends AnalysisError {
+  constructor(repository: string, message: string, githubStatus: number | null = null) {
+    const serverError = githubStatus !== null && githubStatus >= 500;
+    super(message, 'repo_unavailable', serverError, { repository, status: githubStatus }, repoUnavailableStatus(githubStatus));
+    this.name = 'RepoUnavailableError';
+  }
+}
+
+export class RequestTimeoutError extends AnalysisError {
+  constructor(url: string, timeoutMs: number) {
+    super(`GitHub did not answer within ${Math.round(timeoutMs / 1000)}s`, 'timeout', true, { url, timeout_ms: timeoutMs });
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// GitHub could not be reached, or answered with an unexpected status
+export class UpstreamError extends AnalysisError {
+  constructor(message: string, githubStatus: number | null = null, details: Record<string, unknown> = {}) {
+    super(message, 'upstream_error', githubStatus === null || githubStatus >= 500, { ...details, status: githubStatus });
+    this.name = 'UpstreamError';
+  }
+}
+
+export class TokenizerError extends AnalysisError {
+  constructor(message: string, details: Record<string, unknown> = {}, status?: number) {
+    super(message, 'tokenizer_failed', false, details, status);
+    this.name = 'TokenizerError';
+  }
+}
+
+// Errors that every later request would run into too, so an analysis stops instead of
+// recording them once per repository or file
+export function abortsAnalysis(error: unknown): error is AnalysisError {
+  return error instanceof RateLimitExceededError || error instanceof AuthInvalidError;
+}
+
+// Wraps anything thrown into an AnalysisError. Errors that aren't ours are network failures
+// when fetch raised them and internal errors otherwise.
+export function toAnalysisError(error: unknown): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return new AnalysisError(error.message || 'Request timed out', 'timeout', true);
+    }
+    if (error instanceof TypeError && /fetch failed|network/i.test(error.message)) {
+      const cause = (error as { cause?: { code?: string } }).cause;
+      return new UpstreamError('Network error while contacting GitHub. Please check your connection and try again.', null, cause?.code ? { cause: cause.code } : {});
+    }
+    return new AnalysisError(error.message, 'internal_error', false);
+  }
+  return new AnalysisError('Unknown error occurred', 'internal_error', false);
+}
+
+export function toErrorInfo(error: unknown): ErrorInfo {
+  return toAnalysisError(error).toInfo();
+}
+
+export function errorBody(error: AnalysisError): ErrorBody {
+  return { error: error.message, code: error.code, retryable: error.retryable, details: error.details };
+}
+
+// For errors that were stored as ErrorInfo, such as AnalysisResult.error_info. The codes whose
+// status varies kept the status they were raised with in details.status.
+export function errorFromInfo(info: ErrorInfo): AnalysisError {
+  const status = typeof info.details.status === 'number' ? info.details.status : null;
+  const httpStatus = info.code === 'auth_invalid' && status
+    ? status
+    : info.code === 'repo_unavailable' ? repoUnavailableStatus(status) : ERROR_STATUS[info.code];
+  return new AnalysisError(info.message, info.code, info.retryable, info.details, httpStatus);
+}
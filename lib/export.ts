@@ -0,0 +1,194 @@
+import type { AnalysisResult, RepoAnalysis } from './github-analyzer';
+import type { BatchResult } from './batch';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+// CSV holds one table per file: the repository summary or the per-extension breakdown
+export type CsvTable = 'summary' | 'extensions';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'markdown'];
+
+export interface ExportedFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+// Wraps a single-repository analysis so it can be exported like a profile analysis
+export function resultFromRepoAnalysis(analysis: RepoAnalysis, minTokens: number): AnalysisResult {
+  return {
+    username: analysis.name,
+    total_repos_analyzed: 1,
+    repos_meeting_criteria: analysis.meets_criteria ? [analysis] : [],
+    all_repo_stats: { [analysis.name]: analysis },
+    analysis_timestamp: new Date().toISOString(),
+    min_tokens_threshold: minTokens
+  };
+}
+
+function sortedRepos(result: AnalysisResult): RepoAnalysis[] {
+  return Object.values(result.all_repo_stats).sort((a, b) => b.total_tokens - a.total_tokens);
+}
+
+// Quotes a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+function csvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function toSummaryCsv(result: AnalysisResult): string {
+  const header = [
+    'repository', 'url', 'language', 'total_tokens', 'meets_criteria', 'stars', 'size_kb',
+    'total_files', 'processed_files', 'listing_complete', 'conclusive', 'coverage', 'estimated_total_tokens',
+    'measured', 'prescreen_estimate', 'authored_tokens', 'authored_share', 'unique_tokens', 'private', 'archived', 'fork', 'commit_sha'
+  ];
+  const rows = sortedRepos(result).map(repo => [
+    repo.name,
+    repo.url,
+    repo.language,
+    repo.total_tokens,
+    repo.meets_criteria,
+    repo.stars,
+    repo.size_kb,
+    repo.file_stats.total_files,
+    repo.file_stats.processed_files,
+    repo.file_stats.listing_complete,
+    repo.completeness?.conclusive,
+    repo.completeness?.coverage,
+    repo.completeness?.estimated_total_tokens,
+    repo.measured !== false,
+    repo.estimate?.estimated_tokens,
+    repo.attribution?.authored_tokens,
+    repo.attribution?.share,
+    repo.unique_tokens,
+    repo.private,
+    repo.archived,
+    repo.fork,
+    repo.commit_sha
+  ]);
+  return csvRows([header, ...rows]);
+}
+
+export function toExtensionsCsv(result: AnalysisResult): string {
+  const rows: (string | number)[][] = [];
+  for (const repo of sortedRepos(result)) {
+    Object.entries(repo.file_stats.extensions)
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([extension, tokens]) => rows.push([repo.name, extension, tokens]));
+  }
+  return csvRows([['repository', 'extension', 'tokens'], ...rows]);
+}
+
+// One row per profile of a batch, in leaderboard order
+export function toLeaderboardCsv(result: BatchResult): string {
+  const header = [
+    'rank', 'username', 'owner_type', 'status', 'qualifies', 'total_tokens', 'estimated_tokens', 'repos_analyzed',
+    'qualifying_repos', 'largest_repo', 'largest_repo_tokens', 'largest_repo_estimated', 'error', 'error_code'
+  ];
+  const rows = result.leaderboard.map(entry => [
+    entry.rank,
+    entry.username,
+    entry.owner_type,
+    entry.status,
+    entry.qualifies,
+    entry.total_tokens,
+    entry.estimated_tokens,
+    entry.repos_analyzed,
+    entry.qualifying_repos.map(repo => repo.name).join(' '),
+    entry.largest_repo?.name,
+    entry.largest_repo?.tokens,
+    entry.largest_repo ? !!entry.largest_repo.estimated : undefined,
+    entry.error || entry.aborted_reason,
+    entry.error_code
+  ]);
+  return csvRows([header, ...rows]);
+}
+
+// Pipes and line breaks would break a Markdown table cell
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function toMarkdown(result: AnalysisResult): string {
+  const repos = sortedRepos(result);
+  const lines: string[] = [
+    `# GitHub token analysis: ${result.username}`,
+    '',
+    `- Analyzed: ${result.analysis_timestamp}`,
+    `- Threshold: ${result.min_tokens_threshold.toLocaleString('en-US')} tokens`,
+    `- Repositories analyzed: ${result.total_repos_analyzed}`,
+    `- Repositories meeting the threshold: ${result.repos_meeting_criteria.length}`
+  ];
+
+  if (result.tokenizer) {
+    lines.push(`- Token encoding: ${result.tokenizer.encoding}${result.tokenizer.exact ? '' : ' (estimated)'}`);
+  }
+  if (result.aborted_reason) {
+    lines.push(`- **Stopped early:** ${result.aborted_reason}`);
+  }
+  (result.repo_errors || []).forEach(repoError => {
+    lines.push(`- **Not analyzed:** ${repoError.repo} (${repoError.code}): ${repoError.message}`);
+  });
+  if (result.duplication) {
+    lines.push(`- Unique tokens: ${result.duplication.unique_tokens.toLocaleString('en-US')} (${result.duplication.duplicated_tokens.toLocaleString('en-US')} duplicated, ${result.duplication.boilerplate_tokens.toLocaleString('en-US')} boilerplate)`);
+    result.duplication.pairs.forEach(pair => {
+      lines.push(`  - ${pair.repos[0]} and ${pair.repos[1]} share ${pair.shared_files} files (${Math.round(pair.overlap * 100)}% overlap)`);
+    });
+  }
+
+  lines.push(
+    '',
+    '## Repositories',
+    '',
+    '| Repository | Language | Tokens | Stars | Status |',
+    '| --- | --- | ---: | ---: | --- |'
+  );
+  for (const repo of repos) {
+    const completeness = repo.completeness;
+    const status = repo.meets_criteria
+      ? 'Qualifies'
+      : completeness && !completeness.conclusive
+        ? `Inconclusive (~${completeness.estimated_total_tokens.toLocaleString('en-US')} estimated)`
+        : 'Below threshold';
+    const coverage = repo.measured === false
+      ? ' (estimated from metadata)'
+      : completeness && !completeness.complete ? ` (${Math.round(completeness.coverage * 100)}% read)` : '';
+    const authored = repo.attribution ? ` (${repo.attribution.authored_tokens.toLocaleString('en-US')} authored)` : '';
+    lines.push(`| [${markdownCell(repo.name)}](${repo.url}) | ${markdownCell(repo.language || 'N/A')} | ${repo.total_tokens.toLocaleString('en-US')}${authored} | ${repo.stars.toLocaleString('en-US')} | ${status}${repo.file_stats.listing_complete ? '' : ' (partial listing)'}${coverage} |`);
+  }
+
+  for (const repo of result.repos_meeting_criteria) {
+    lines.push('', `### ${repo.name}`, '');
+    if (repo.description) {
+      lines.push(repo.description, '');
+    }
+    lines.push('| Extension | Tokens |', '| --- | ---: |');
+    Object.entries(repo.file_stats.extensions)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 10)
+      .forEach(([extension, tokens]) => lines.push(`| ${markdownCell(extension)} | ${tokens.toLocaleString('en-US')} |`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportResult(result: AnalysisResult, format: ExportFormat, table: CsvTable = 'summary'): ExportedFile {
+  const baseName = `token-analysis-${result.username.replace(/[^\w.-]+/g, '_')}`;
+
+  switch (format) {
+    case 'csv':
+      return {
+        body: table === 'extensions' ? toExtensionsCsv(result) : toSummaryCsv(result),
+        contentType: 'text/csv; charset=utf-8',
+        filename: `${baseName}${table === 'extensions' ? '-extensions' : ''}.csv`
+      };
+    case 'markdown':
+      return { body: toMarkdown(result), contentType: 'text/markdown; charset=utf-8', filename: `${baseName}.md` };
+    case 'json':
+      return { body: JSON.stringify(result, null, 2), contentType: 'application/json; charset=utf-8', filename: `${baseName}.json` };
+  }
+}
@@ -0,0 +1,447 @@
+export type ExclusionReason =
+  | 'not_included'
+  | 'excluded_pattern'
+  | 'gitignored'
+  | 'vendored'
+  | 'generated'
+  | 'minified'
+  | 'too_large';
+
+// Traits detected from a file's content, independent of any profile
+export type ContentTrait = 'generated' | 'minified';
+
+export interface ExclusionSummary {
+  counts: Partial<Record<ExclusionReason, number>>;
+  // Files left out and why; unsupported file types are only counted
+  files: { path: string; reason: ExclusionReason }[];
+  files_truncated: boolean;
+}
+
+const MAX_REPORTED_EXCLUSIONS = 200;
+
+export function createExclusionSummary(): ExclusionSummary {
+  return { counts: {}, files: [], files_truncated: false };
+}
+
+export function recordExclusion(summary: ExclusionSummary, path: string, reason: ExclusionReason) {
+  summary.counts[reason] = (summary.counts[reason] || 0) + 1;
+  if (reason === 'not_included') return;
+  if (summary.files.length < MAX_REPORTED_EXCLUSIONS) {
+    summary.files.push({ path, reason });
+  } else {
+    summary.files_truncated = true;
+  }
+}
+
+export interface AnalysisProfile {
+  // Glob patterns a file must match to be counted (defaults to DEFAULT_INCLUDE_PATTERNS)
+  include?: string[];
+  // Glob patterns that are never counted, checked before anything else
+  exclude?: string[];
+  // Skip files matched by the repository's own .gitignore files (default true)
+  respectGitignore?: boolean;
+  // Honour linguist-vendored / linguist-generated in .gitattributes (default true)
+  respectGitattributes?: boolean;
+  // Skip third-party code detected from well-known paths (default true)
+  excludeVendored?: boolean;
+  // Skip lockfiles, build output, generated code and minified bundles (default true)
+  excludeGenerated?: boolean;
+}
+
+export const DEFAULT_INCLUDE_PATTERNS = [
+  '**/*.{py,js,jsx,mjs,cjs,ts,tsx,mts,cts,java,cpp,cc,cxx,c,h,hpp,hh,cs,php,rb,go,rs,swift,kt,kts,scala}',
+  '**/*.{sh,bash,ps1,sql,html,css,scss,sass,less,xml,json,yaml,yml,toml,md,mdx,rst,txt}',
+  '**/*.{r,m,mm,pl,lua,dart,elm,ex,exs,erl,hrl,hs,ml,mli,fs,fsx,clj,cljs,jl,nim,zig,sol,groovy,gradle}',
+  '**/*.{vue,svelte,astro,proto,graphql,gql,tf,hcl}',
+  '**/{Dockerfile,Makefile,CMakeLists.txt}'
+];
+
+// Path patterns adapted from GitHub linguist's vendor.yml
+const VENDORED_PATHS = [
+  /(^|\/)node_modules\//,
+  /(^|\/)bower_components\//,
+  /(^|\/)vendor(ed)?\//,
+  /(^|\/)third[-_]?party\//,
+  /(^|\/)3rd[-_]?party\//,
+  /(^|\/)externals?\//,
+  /(^|\/)deps\//,
+  /(^|\/)Godeps\/_workspace\//,
+  /(^|\/)Pods\//,
+  /(^|\/)Carthage\//,
+  /(^|\/)\.yarn\/(releases|plugins|sdks|cache)\//,
+  /(^|\/)jquery([^.]*)\.js$/,
+  /(^|\/)bootstrap([^/.]*)(\.min)?\.(js|css)$/,
+  /(^|\/)(angular|backbone|d3|ember|lodash|moment|react|three|underscore)(\.min)?\.js$/,
+  /(^|\/)gradlew(\.bat)?$/,
+  /(^|\/)\.gradle\/wrapper\//,
+  /(^|\/)mvnw(\.cmd)?$/
+];
+
+// Path patterns adapted from GitHub linguist's generated.rb, plus common build output
+const GENERATED_PATHS = [
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb)$/,
+  /(^|\/)(Cargo\.lock|Gemfile\.lock|composer\.lock|poetry\.lock|Pipfile\.lock|go\.sum|mix\.lock|pubspec\.lock|Podfile\.lock|flake\.lock)$/,
+  /(^|\/)(dist|build|out|target|\.next|\.nuxt|\.svelte-kit|coverage|__pycache__|\.pytest_cache)\//,
+  /\.(pb|pb\.gw)\.go$/,
+  /_pb2(_grpc)?\.py$/,
+  /\.pb\.(cc|h)$/,
+  /(^|\/)[^/]+_generated\.[^/]+$/,
+  /\.g(enerated)?\.(cs|dart|ts|js)$/,
+  /\.designer\.(cs|vb)$/,
+  /\.(js|css)\.map$/
+];
+
+const MINIFIED_PATH = /\.min\.(js|css|mjs)$/;
+
+// Markers tools leave in the first lines of files they generate
+const GENERATED_HEADER = /@generated|Code generated .* DO NOT EDIT|auto-?generated|This file was generated|Generated by (the )?protoc|DO NOT EDIT/i;
+
+// linguist treats JavaScript/CSS as minified when lines average more than 110 characters
+const MINIFIABLE_EXTENSIONS = /\.(js|mjs|cjs|css)$/;
+const MINIFIED_AVERAGE_LINE_LENGTH = 110;
+
+// Globs come from analyzed repositories and from requests, so they are bounded. Longer
+// patterns, and those past the limit of a profile list or .gitignore/.gitattributes file, are
+// ignored.
+export const MAX_GLOB_LENGTH = 512;
+export const MAX_RULES_PER_FILE = 1000;
+
+// Anything a path can be tested against: the compiled globs below and the built-in RegExps
+export interface PathPattern {
+  test(path: string): boolean;
+}
+
+// A character leads along an edge when it equals `char`, or passes `matches`
+interface GlobEdge {
+  to: number;
+  char?: string;
+  matches?: (char: string) => boolean;
+}
+
+// A state of a compiled glob: its edges, and the states reached without a character
+interface GlobState {
+  edges: GlobEdge[];
+  next: number[];
+}
+
+const anyChar = () => true;
+const notSlash = (char: string) => char !== '/';
+
+// Splits a glob around everything that isn't literal text; `**/` may match nothing at all
+const GLOB_SYNTAX = /\*\*\/|\[[^\]]*\]|\{[^}]*\}|[*?[{]/;
+
+function characterClass(body: string): (char: string) => boolean {
+  try {
+    // A single-character class, which can't backtrack
+    const pattern = new RegExp(`[${body.replace(/^!/, '^').replace(/\\/g, '\\\\')}]`);
+    return char => pattern.test(char);
+  } catch {
+    // Invalid ranges such as [z-a] match nothing
+    return () => false;
+  }
+}
+
+// Adds the states for `glob` after state `from` and returns the state it ends in. `*` matches
+// within a path segment, `**` anything, and `**/` nothing or any number of directories.
+function buildGlob(states: GlobState[], glob: string, from: number): number {
+  const addState = () => states.push({ edges: [], next: [] }) - 1;
+  const step = (edge: Omit<GlobEdge, 'to'>) => {
+    const to = addState();
+    states[from].edges.push({ ...edge, to });
+    from = to;
+  };
+  const repeat = (matches: (char: string) => boolean) => {
+    const loop = addState();
+    states[from].next.push(loop);
+    states[loop].edges.push({ matches, to: loop });
+    from = loop;
+  };
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          const inside = addState();
+          const out = addState();
+          states[from].next.push(out);
+          states[from].edges.push({ matches: anyChar, to: inside }, { char: '/', to: out });
+          states[inside].edges.push({ matches: anyChar, to: inside }, { char: '/', to: out });
+          from = out;
+        } else {
+          repeat(anyChar);
+        }
+      } else {
+        repeat(notSlash);
+      }
+    } else if (char === '?') {
+      step({ matches: notSlash });
+    } else if (char === '[' && glob.indexOf(']', i + 1) !== -1) {
+      const end = glob.indexOf(']', i + 1);
+      step({ matches: characterClass(glob.slice(i + 1, end)) });
+      i = end;
+    } else if (char === '{' && glob.indexOf('}', i + 1) !== -1) {
+      const end = glob.indexOf('}', i + 1);
+      const joined = addState();
+      glob.slice(i + 1, end).split(',').forEach(alternative => {
+        const start = addState();
+        states[from].next.push(start);
+        states[buildGlob(states, alternative, start)].next.push(joined);
+      });
+      from = joined;
+      i = end;
+    } else {
+      step({ char });
+    }
+  }
+  return from;
+}
+
+// A glob run as an automaton over the path. Every state a match could be in is tracked at
+// once instead of backtracking, so a test takes at most path length × states steps whatever
+// the pattern. Like `^glob(?:/|$)`, a match may also end at a slash, matching a directory's
+// contents.
+class GlobPattern implements PathPattern {
+  private states: GlobState[] = [{ edges: [], next: [] }];
+  private accept: number;
+  // Each state with those reachable from it without a character
+  private closures: number[][];
+  // Text every match contains, checked before running the automaton
+  private literal: string;
+  // The step each state was last entered in, so it is entered once per step
+  private entered: number[];
+  private steps = 0;
+
+  constructor(pattern: string, private directoryOnly: boolean) {
+    this.accept = buildGlob(this.states, pattern, 0);
+    this.closures = this.states.map((_, state) => {
+      const closure: number[] = [];
+      const visit = (current: number) => {
+        if (closure.includes(current)) return;
+        closure.push(current);
+        this.states[current].next.forEach(visit);
+      };
+      visit(state);
+      return closure;
+    });
+    this.literal = pattern.split(GLOB_SYNTAX).reduce((longest, part) => (part.length > longest.length ? part : longest), '');
+    this.entered = this.states.map(() => 0);
+  }
+
+  private enter(active: number[], state: number, step: number) {
+    for (const reached of this.closures[state]) {
+      if (this.entered[reached] === step) continue;
+      this.entered[reached] = step;
+      active.push(reached);
+    }
+  }
+
+  test(path: string): boolean {
+    if (!path.includes(this.literal)) return false;
+
+    let step = ++this.steps;
+    let active: number[] = [];
+    this.enter(active, 0, step);
+    for (let position = 0; ; position++) {
+      if (this.entered[this.accept] === step && (path[position] === '/' || (position === path.length && !this.directoryOnly))) {
+        return true;
+      }
+      if (position === path.length || !active.length) return false;
+
+      const char = path[position];
+      const next: number[] = [];
+      step = ++this.steps;
+      for (const state of active) {
+        for (const edge of this.states[state].edges) {
+          if (edge.char !== undefined ? edge.char === char : edge.matches!(char)) this.enter(next, edge.to, step);
+        }
+      }
+      active = next;
+    }
+  }
+}
+
+// Compiles a gitignore-style glob into a pattern over repository-relative paths.
+// Patterns without a slash match at any depth; a leading slash anchors to the root;
+// a trailing slash matches directories only. Matching a directory matches its contents.
+export function compileGlob(glob: string): PathPattern {
+  let pattern = glob.trim();
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) pattern = pattern.slice(0, -1);
+
+  const anchored = pattern.startsWith('/') || pattern.includes('/');
+  pattern = pattern.replace(/^\//, '');
+  if (!anchored && !pattern.startsWith('**')) pattern = `**/${pattern}`;
+
+  return new GlobPattern(pattern, directoryOnly);
+}
+
+export function matchesAny(path: string, patterns: PathPattern[]): boolean {
+  return patterns.some(pattern => pattern.test(path));
+}
+
+interface IgnoreRule {
+  pattern: PathPattern;
+  negated: boolean;
+}
+
+interface AttributeRule {
+  pattern: PathPattern;
+  vendored?: boolean;
+  generated?: boolean;
+}
+
+// Rebases a pattern from a nested .gitignore/.gitattributes onto the repository root
+function rebasePattern(pattern: string, baseDir: string): string {
+  if (!baseDir) return pattern;
+  const body = pattern.replace(/\/$/, '');
+  const anchored = body.startsWith('/') || body.includes('/');
+  return `/${baseDir}${anchored ? pattern.replace(/^\//, '') : `**/${pattern}`}`;
+}
+
+function parseAttributeValue(token: string, name: string): boolean | undefined {
+  if (token === name || token === `${name}=true`) return true;
+  if (token === `-${name}` || token === `${name}=false` || token === `!${name}`) return false;
+  return undefined;
+}
+
+function usableGlobs(globs: string[]): string[] {
+  return globs.filter(glob => glob.length <= MAX_GLOB_LENGTH).slice(0, MAX_RULES_PER_FILE);
+}
+
+// The rule lines of a .gitignore/.gitattributes file, without comments and overlong patterns
+function ruleLines(content: string): string[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  return usableGlobs(lines);
+}
+
+// Decides which files count towards a repository's tokens, and why the others don't
+export class FileFilter {
+  private include: PathPattern[];
+  private exclude: PathPattern[];
+  private profile: Required<Omit<AnalysisProfile, 'include' | 'exclude'>>;
+  private ignoreRules: IgnoreRule[] = [];
+  private attributeRules: AttributeRule[] = [];
+
+  constructor(profile: AnalysisProfile = {}) {
+    this.include = usableGlobs(profile.include && profile.include.length ? profile.include : DEFAULT_INCLUDE_PATTERNS).map(compileGlob);
+    this.exclude = usableGlobs(profile.exclude || []).map(compileGlob);
+    this.profile = {
+      respectGitignore: profile.respectGitignore ?? true,
+      respectGitattributes: profile.respectGitattributes ?? true,
+      excludeVendored: profile.excludeVendored ?? true,
+      excludeGenerated: profile.excludeGenerated ?? true
+    };
+  }
+
+  // Whether the repository's .gitignore/.gitattributes files need to be read at all
+  get usesRepositoryRules(): boolean {
+    return this.profile.respectGitignore || this.profile.respectGitattributes;
+  }
+
+  static isRulesFile(path: string): boolean {
+    const name = path.split('/').pop();
+    return name === '.gitignore' || name === '.gitattributes';
+  }
+
+  addRulesFile(path: string, content: string) {
+    const slash = path.lastIndexOf('/');
+    const baseDir = slash === -1 ? '' : path.slice(0, slash + 1);
+    if (path.endsWith('.gitignore')) {
+      this.addGitignore(content, baseDir);
+    } else if (path.endsWith('.gitattributes')) {
+      this.addGitattributes(content, baseDir);
+    }
+  }
+
+  addGitignore(content: string, baseDir: string = '') {
+    if (!this.profile.respectGitignore) return;
+    for (const line of ruleLines(content)) {
+      const negated = line.startsWith('!');
+      const pattern = negated ? line.slice(1) : line;
+      this.ignoreRules.push({ pattern: compileGlob(rebasePattern(pattern, baseDir)), negated });
+    }
+  }
+
+  addGitattributes(content: string, baseDir: string = '') {
+    if (!this.profile.respectGitattributes) return;
+    for (const line of ruleLines(content)) {
+      const [pattern, ...tokens] = line.split(/\s+/);
+      const rule: AttributeRule = { pattern: compileGlob(rebasePattern(pattern, baseDir)) };
+      for (const token of tokens) {
+        const vendored = parseAttributeValue(token, 'linguist-vendored');
+        const generated = parseAttributeValue(token, 'linguist-generated');
+        if (vendored !== undefined) rule.vendored = vendored;
+        if (generated !== undefined) rule.generated = generated;
+      }
+      if (rule.vendored !== undefined || rule.generated !== undefined) {
+        this.attributeRules.push(rule);
+      }
+    }
+  }
+
+  // Later lines win, as in git
+  private attributesFor(path: string): { vendored?: boolean; generated?: boolean } {
+    const attributes: { vendored?: boolean; generated?: boolean } = {};
+    for (const rule of this.attributeRules) {
+      if (!rule.pattern.test(path)) continue;
+      if (rule.vendored !== undefined) attributes.vendored = rule.vendored;
+      if (rule.generated !== undefined) attributes.generated = rule.generated;
+    }
+    return attributes;
+  }
+
+  private isGitignored(path: string): boolean {
+    let ignored = false;
+    for (const rule of this.ignoreRules) {
+      if (rule.pattern.test(path)) ignored = !rule.negated;
+    }
+    return ignored;
+  }
+
+  // Classifies a file from its path alone; returns null when it should be counted
+  classifyPath(path: string): ExclusionReason | null {
+    if (!matchesAny(path, this.include)) return 'not_included';
+    if (matchesAny(path, this.exclude)) return 'excluded_pattern';
+
+    // Explicit .gitattributes settings override the built-in heuristics either way
+    const attributes = this.attributesFor(path);
+    if (attributes.vendored) return 'vendored';
+    if (attributes.generated) return 'generated';
+
+    if (this.isGitignored(path)) return 'gitignored';
+
+    if (this.profile.excludeVendored && attributes.vendored === undefined && matchesAny(path, VENDORED_PATHS)) {
+      return 'vendored';
+    }
+    if (this.profile.excludeGenerated && attributes.generated === undefined) {
+      if (MINIFIED_PATH.test(path)) return 'minified';
+      if (matchesAny(path, GENERATED_PATHS)) return 'generated';
+    }
+
+    return null;
+  }
+
+  // Looks for generated-file markers and minified code. The result depends only on the
+  // content, so it can be cached by blob SHA and re-evaluated under any profile.
+  static detectContent(path: string, content: string): ContentTrait | null {
+    const header = content.slice(0, 2000).split('\n').slice(0, 5).join('\n');
+    if (GENERATED_HEADER.test(header)) return 'generated';
+
+    if (MINIFIABLE_EXTENSIONS.test(path)) {
+      const lines = content.split('\n');
+      if (content.length / lines.length > MINIFIED_AVERAGE_LINE_LENGTH) return 'minified';
+    }
+
+    return null;
+  }
+
+  // Decides whether a detected content trait excludes a file that passed classifyPath
+  classifyContent(path: string, trait: ContentTrait | null | undefined): ExclusionReason | null {
+    if (!trait || !this.profile.excludeGenerated) return null;
+    if (this.attributesFor(path).generated === false) return null;
+    return trait;
+  }
+}
@@ -0,0 +1,61 @@
+import { GitHubClient } from './github-client';
+import { AnalysisError, AuthInvalidError, RateLimitExceededError, UpstreamError } from './errors';
+
+// HTTP access to a GitLab or Gitea API. GitHubClient supplies the retries and timeouts; these
+// hosts are outside its GitHub rate-limit budget, so every status comes back here to be mapped.
+export class ForgeClient {
+  readonly client = new GitHubClient();
+  readonly apiBaseUrl: string;
+  private hostName: string;
+  private authHeaders: Record<string, string>;
+
+  constructor(apiBaseUrl: string, hostName: string, authHeaders: Record<string, string>) {
+    this.apiBaseUrl = apiBaseUrl.replace(/\/+$/, '');
+    this.hostName = hostName;
+    this.authHeaders = authHeaders;
+  }
+
+  get authenticated(): boolean {
+    return Object.keys(this.authHeaders).length > 0;
+  }
+
+  // `notFound` is raised for 404; other failures map to the errors the GitHub calls raise
+  async get(path: string, notFound: () => AnalysisError): Promise<Response> {
+    const response = await this.client.fetch(`${this.apiBaseUrl}${path}`, 'application/json', { headers: this.authHeaders });
+    if (response.status === 404) {
+      throw notFound();
+    } else if (response.status === 401) {
+      throw new AuthInvalidError(this.authenticated
+        ? `${this.hostName} rejected the token (401). Check that it is valid and has not expired.`
+        : `${this.hostName} requires authentication for this request. Please provide a token.`);
+    } else if (response.status === 403) {
+      throw new AuthInvalidError(`Access denied (403) fetching ${path.split('?')[0]} from ${this.hostName}`, 403);
+    } else if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new RateLimitExceededError(retryAfter > 0 ? new Date(Date.now() + retryAfter * 1000) : null);
+    } else if (!response.ok) {
+      throw new UpstreamError(`${this.hostName} answered ${response.status} for ${path.split('?')[0]}`, response.status);
+    }
+    return response;
+  }
+
+  async getJson<T>(path: string, notFound: () => AnalysisError): Promise<T> {
+    return (await this.get(path, notFound)).json();
+  }
+
+  // Follows page-numbered pagination until a short page comes back, or until `maxPages`;
+  // `complete` is false when it stopped early
+  async paginate<T>(path: string, sizeParam: string, pageSize: number, notFound: () => AnalysisError, maxPages: number = Infinity): Promise<{ items: T[]; complete: boolean }> {
+    const items: T[] = [];
+    const separator = path.includes('?') ? '&' : '?';
+
+    for (let page = 1; page <= maxPages; page++) {
+      const pageItems = await this.getJson<T[]>(`${path}${separator}${sizeParam}=${pageSize}&page=${page}`, notFound);
+      items.push(...pageItems);
+      if (pageItems.length < pageSize) {
+        return { items, complete: true };
+      }
+    }
+    return { items, complete: false };
+  }
+}
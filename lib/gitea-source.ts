@@ -0,0 +1,166 @@
+import type { GitHubClient } from './github-client';
+import type { OwnerType, Repository } from './github-analyzer';
+import type { SourceFile, SourceListing, SourceProvider } from './source-provider';
+import { ForgeClient } from './forge-client';
+import { abortsAnalysis, RepoUnavailableError, UserNotFoundError } from './errors';
+
+// Gitea's default MAX_RESPONSE_ITEMS
+const PAGE_SIZE = 50;
+const TREE_PAGE_SIZE = 1000;
+// Bigger trees are reported as incomplete listings
+const MAX_TREE_PAGES = 20;
+// Every file is a request, so the per-file cap of GitHub analyses applies
+const FILE_LIMIT = 200;
+
+interface GiteaRepository {
+  name: string;
+  description: string;
+  language: string;
+  stars_count: number;
+  // KB, like GitHub's
+  size: number;
+  html_url: string;
+  fork: boolean;
+  private: boolean;
+  archived: boolean;
+  template: boolean;
+  mirror: boolean;
+  original_url?: string;
+  updated_at?: string;
+  topics?: string[] | null;
+  default_branch: string;
+  empty?: boolean;
+  owner: { login: string };
+}
+
+interface GiteaTree {
+  tree: { path: string; type: 'blob' | 'tree' | 'commit'; size: number; sha: string }[] | null;
+  truncated: boolean;
+}
+
+// Gitea's API mirrors GitHub's closely; it has no push timestamp, so the last update stands in
+function toRepository(repo: GiteaRepository): Repository {
+  return {
+    name: repo.name,
+    description: repo.description || null,
+    language: repo.language || null,
+    stargazers_count: repo.stars_count || 0,
+    size: repo.size || 0,
+    html_url: repo.html_url,
+    fork: repo.fork,
+    private: repo.private,
+    archived: repo.archived,
+    is_template: !!repo.template,
+    mirror_url: repo.mirror ? repo.original_url || '' : null,
+    pushed_at: repo.updated_at || null,
+    topics: repo.topics || [],
+    default_branch: repo.empty ? undefined : repo.default_branch,
+    owner: { login: repo.owner.login }
+  };
+}
+
+// Reads organizations, users and repositories through the API (v1) of a Gitea or Forgejo
+// instance such as codeberg.org
+export class GiteaSource implements SourceProvider {
+  readonly kind = 'gitea';
+  readonly origin: string;
+  readonly client: GitHubClient;
+  readonly fileLimit = FILE_LIMIT;
+  private api: ForgeClient;
+
+  constructor(origin: string, token?: string) {
+    this.origin = origin.replace(/\/+$/, '');
+    this.api = new ForgeClient(`${this.origin}/api/v1`, 'Gitea', token ? { Authorization: `token ${token}` } : {});
+    this.client = this.api.client;
+  }
+
+  private repoPath(repo: Repository): string {
+    return `/repos/${encodeURIComponent(repo.owner.login)}/${encodeURIComponent(repo.name)}`;
+  }
+
+  private unavailable(repo: Repository, message: string, status: number | null = 404): RepoUnavailableError {
+    return new RepoUnavailableError(`${repo.owner.login}/${repo.name}`, message, status);
+  }
+
+  // An account that is no organization is looked up as a user
+  async listRepositories(account: string): Promise<{ ownerType: OwnerType; repos: Repository[] }> {
+    const notFound = () => new UserNotFoundError(account);
+    try {
+      const { items } = await this.api.paginate<GiteaRepository>(`/orgs/${encodeURIComponent(account)}/repos`, 'limit', PAGE_SIZE, notFound);
+      return { ownerType: 'Organization', repos: items.map(toRepository) };
+    } catch (error) {
+      if (!(error instanceof UserNotFoundError)) throw error;
+    }
+
+    const { items } = await this.api.paginate<GiteaRepository>(`/users/${encodeURIComponent(account)}/repos`, 'limit', PAGE_SIZE, notFound);
+    return { ownerType: 'User', repos: items.map(toRepository) };
+  }
+
+  async getRepository(owner: string, name: string): Promise<Repository> {
+    const repo = await this.api.getJson<GiteaRepository>(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`,
+      () => new RepoUnavailableError(`${owner}/${name}`, `Repository '${owner}/${name}' not found on ${this.origin}. Check the name, or provide a token that can see it if it is private.`, 404)
+    );
+    return toRepository(repo);
+  }
+
+  async getHeadSha(repo: Repository, ref: string = repo.default_branch || 'HEAD'): Promise<string | null> {
+    try {
+      const commits = await this.api.getJson<{ sha: string }[]>(
+        `${this.repoPath(repo)}/commits?sha=${encodeURIComponent(ref)}&limit=1&stat=false&verification=false&files=false`,
+        () => this.unavailable(repo, `Ref '${ref}' not found in ${repo.owner.login}/${repo.name}`)
+      );
+      return commits[0]?.sha || null;
+    } catch (error) {
+      if (abortsAnalysis(error)) throw error;
+      console.error(`Error resolving head commit for ${repo.owner.login}/${repo.name}:`, error);
+      return null;
+    }
+  }
+
+  // The trees endpoint takes a commit SHA, so branch and tag names are resolved first
+  async listFiles(repo: Repository, ref?: string): Promise<SourceListing> {
+    if (!ref && !repo.default_branch) return { files: [], complete: true };
+    const sha = ref && /^[0-9a-f]{40}$/i.test(ref) ? ref : await this.getHeadSha(repo, ref);
+    if (!sha) {
+      throw this.unavailable(repo, `Could not resolve '${ref || repo.default_branch}' in ${repo.owner.login}/${repo.name}`);
+    }
+
+    const listing: SourceListing = { files: [], complete: false };
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const tree = await this.api.getJson<GiteaTree>(
+        `${this.repoPath(repo)}/git/trees/${sha}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`,
+        () => this.unavailable(repo, `Could not list ${repo.owner.login}/${repo.name} at ${sha}`)
+      );
+      (tree.tree || []).forEach(entry => {
+        if (entry.type === 'blob') listing.files.push({ path: entry.path, size: entry.size || 0, sha: entry.sha });
+      });
+      if (!tree.truncated) {
+        listing.complete = true;
+        break;
+      }
+    }
+    return listing;
+  }
+
+  async readFile(repo: Repository, file: SourceFile): Promise<string> {
+    const blob = await this.api.getJson<{ content: string | null; encoding: string | null }>(
+      `${this.repoPath(repo)}/git/blobs/${file.sha}`,
+      () => this.unavailable(repo, `Blob ${file.sha} (${file.path}) not found`)
+    );
+    return Buffer.from(blob.content || '', blob.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8');
+  }
+
+  async getLanguages(repo: Repository): Promise<Record<string, number> | null> {
+    try {
+      return await this.api.getJson<Record<string, number>>(
+        `${this.repoPath(repo)}/languages`,
+        () => this.unavailable(repo, `Languages of ${repo.owner.login}/${repo.name} not found`)
+      );
+    } catch (error) {
+      if (abortsAnalysis(error)) throw error;
+      console.error(`Error fetching languages for ${repo.owner.login}/${repo.name}:`, error);
+      return null;
+    }
+  }
+}
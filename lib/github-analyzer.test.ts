@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryAnalysisCache } from './analysis-cache';
+import { GitHubRepoAnalyzer, Repository } from './github-analyzer';
+import { tarGz } from './test-fixtures';
+
+const API = 'https://api.github.test';
+const OWNER = 'alice';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function stubRepository(name: string): Repository {
+  return {
+    name,
+    description: null,
+    language: 'TypeScript',
+    stargazers_count: 0,
+    size: 10,
+    html_url: `https://github.test/${OWNER}/${name}`,
+    fork: false,
+    default_branch: 'main',
+    owner: { login: OWNER }
+  };
+}
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+
+// Serves an account whose repositories each hold `files` small files, and records the most
+// repositories and blob downloads that were in flight at the same time
+function stubGitHub(repoCount: number, files: number) {
+  const repos = Array.from({ length: repoCount }, (_, i) => stubRepository(`repo-${i}`));
+  const blobsInFlight = new Map<string, number>();
+  const requestsInFlight = new Map<string, number>();
+  const stats = { blobRequests: 0, maxBlobsPerRepo: 0, maxRepos: 0 };
+
+  const track = (map: Map<string, number>, key: string, change: number) => {
+    const count = (map.get(key) || 0) + change;
+    if (count) map.set(key, count);
+    else map.delete(key);
+    return count;
+  };
+
+  const route = (path: string): Response => {
+    if (path === `/users/${OWNER}`) return json({ login: OWNER, type: 'User' });
+    if (path.startsWith(`/users/${OWNER}/repos?`)) return json(repos);
+    const repo = repos.find(candidate => path === `/repos/${OWNER}/${candidate.name}`);
+    if (repo) return json(repo);
+
+    const tree = path.match(/^\/repos\/[^/]+\/([^/]+)\/git\/trees\/main\?recursive=1$/);
+    if (tree) {
+      return json({
+        truncated: false,
+        tree: Array.from({ length: files }, (_, i) => ({ path: `src/file-${i}.ts`, mode: '100644', type: 'blob', sha: `${tree[1]}-${i}`, size: 40 }))
+      });
+    }
+
+    const blob = path.match(/^\/repos\/[^/]+\/[^/]+\/git\/blobs\/(.+)$/);
+    if (blob) return new Response(`export const value = '${blob[1]}';\n`);
+
+    return new Response('Not Found', { status: 404 });
+  };
+
+  vi.stubGlobal('fetch', async (input: string) => {
+    const path = input.replace(API, '');
+    const repo = path.match(/^\/repos\/[^/]+\/([^/]+)\//)?.[1];
+    const isBlob = path.includes('/git/blobs/');
+
+    if (repo) {
+      track(requestsInFlight, repo, 1);
+      stats.maxRepos = Math.max(stats.maxRepos, requestsInFlight.size);
+    }
+    if (repo && isBlob) {
+      stats.blobRequests++;
+      stats.maxBlobsPerRepo = Math.max(stats.maxBlobsPerRepo, track(blobsInFlight, repo, 1));
+    }
+
+    try {
+      await delay(5);
+      return route(path);
+    } finally {
+      if (repo) track(requestsInFlight, repo, -1);
+      if (repo && isBlob) track(blobsInFlight, repo, -1);
+    }
+  });
+
+  return stats;
+}
+
+describe('GitHubRepoAnalyzer concurrency limits', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('analyzes repoConcurrency repositories and fileConcurrency files at a time', async () => {
+    const stats = stubGitHub(5, 9);
+    const analyzer = new GitHubRepoAnalyzer(undefined, { apiBaseUrl: API, encoding: 'approximate', repoConcurrency: 2, fileConcurrency: 3 });
+
+    const result = await analyzer.analyzeUserProfile(OWNER, 1);
+
+    expect(result.error_info).toBeUndefined();
+    expect(result.total_repos_analyzed).toBe(5);
+    expect(stats.blobRequests).toBe(45);
+    expect(stats.maxRepos).toBe(2);
+    expect(stats.maxBlobsPerRepo).toBe(3);
+  });
+
+  it('caps the limits at 10 repositories and 20 files', async () => {
+    const stats = stubGitHub(12, 25);
+    const analyzer = new GitHubRepoAnalyzer(undefined, { apiBaseUrl: API, encoding: 'approximate', repoConcurrency: 50, fileConcurrency: 50 });
+
+    const result = await analyzer.analyzeUserProfile(OWNER, 1);
+
+    expect(result.total_repos_analyzed).toBe(12);
+    expect(stats.maxRepos).toBe(10);
+    expect(stats.maxBlobsPerRepo).toBe(20);
+  });
+
+  it('reads at most 200 files per repository', async () => {
+    const stats = stubGitHub(1, 250);
+    const analyzer = new GitHubRepoAnalyzer(undefined, { apiBaseUrl: API, encoding: 'approximate', fileConcurrency: 20 });
+
+    const analysis = await analyzer.analyzeSingleRepository({ owner: OWNER, repo: 'repo-0' }, 1);
+
+    expect(stats.blobRequests).toBe(200);
+    expect(analysis.file_stats.total_files).toBe(250);
+    expect(analysis.file_stats.processed_files).toBe(200);
+    expect(analysis.completeness?.skipped.file_cap).toBe(50);
+  });
+});
+
+const FIXTURE_FILES: Record<string, string> = {
+  '.gitignore': 'build/\n',
+  'README.md': '# Fixture\n\nA small repository served both as a tree listing and as an archive.\n',
+  'src/index.ts': "import { greet } from './greet';\n\nconsole.log(greet('world'));\n",
+  'src/greet.ts': 'export function greet(name: string): string {\n  return `Hello, ${name}!`;\n}\n',
+  'src/copy.ts': "import { greet } from './greet';\n\nconsole.log(greet('world'));\n",
+  'build/bundle.js': 'console.log("Hello, world!");\n'
+};
+
+const blobSha = (content: string) => createHash('sha1').update(`blob ${Buffer.byteLength(content)}\0`).update(content).digest('hex');
+
+// Serves one repository holding `files` through the tree and blob endpoints and as a tarball,
+// over HTTP so the archive reaches the reader as a real response stream
+function serveRepositoryFiles(files: Record<string, string> = FIXTURE_FILES): Promise<{ server: Server; apiUrl: string; requests: string[] }> {
+  const repo = stubRepository('fixture');
+  const blobs = new Map(Object.values(files).map(content => [blobSha(content), content]));
+  const archive = tarGz([
+    { path: `${OWNER}-fixture-abc123/`, directory: true },
+    ...Object.entries(files).map(([path, content]) => ({ path: `${OWNER}-fixture-abc123/${path}`, content }))
+  ]);
+  const requests: string[] = [];
+
+  const server = createServer((request, response) => {
+    const path = request.url || '/';
+    requests.push(path);
+    const send = (body: unknown) => {
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    if (path === `/repos/${OWNER}/fixture`) return send(repo);
+    if (path === `/repos/${OWNER}/fixture/git/trees/main?recursive=1`) {
+      return send({
+        truncated: false,
+        tree: Object.entries(files).map(([filePath, content]) => ({ path: filePath, mode: '100644', type: 'blob', sha: blobSha(content), size: Buffer.byteLength(content) }))
+      });
+    }
+    const blob = path.match(/^\/repos\/[^/]+\/fixture\/git\/blobs\/(\w+)$/);
+    if (blob && blobs.has(blob[1])) {
+      response.writeHead(200, { 'content-type': 'application/vnd.github.raw' });
+      return response.end(blobs.get(blob[1]));
+    }
+    if (path === `/repos/${OWNER}/fixture/tarball/main`) {
+      // A few bytes at a time, so headers and bodies straddle the chunks
+      response.writeHead(200, { 'content-type': 'application/x-gzip' });
+      for (let offset = 0; offset < archive.length; offset += 64) {
+        response.write(archive.subarray(offset, offset + 64));
+      }
+      return response.end();
+    }
+    response.writeHead(404, { 'content-type': 'application/json' });
+    response.end(JSON.stringify({ message: 'Not Found' }));
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, apiUrl: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+const servers: Server[] = [];
+
+async function startRepositoryFiles(files?: Record<string, string>) {
+  const fixture = await serveRepositoryFiles(files);
+  servers.push(fixture.server);
+  return fixture;
+}
+
+async function closeServers() {
+  await Promise.all(servers.splice(0).map(server => new Promise<void>(resolve => server.close(() => resolve()))));
+}
+
+describe('GitHubRepoAnalyzer.analyzeRepositoryArchive', () => {
+  afterEach(closeServers);
+
+  const analyze = (apiUrl: string, ingestionMode: 'files' | 'tarball', path?: string) =>
+    new GitHubRepoAnalyzer(undefined, { apiBaseUrl: apiUrl, encoding: 'approximate', ingestionMode })
+      .analyzeSingleRepository({ owner: OWNER, repo: 'fixture', path }, 1);
+
+  it('counts the same files from the archive as from the tree listing', async () => {
+    const { apiUrl, requests } = await startRepositoryFiles();
+    const fromTree = await analyze(apiUrl, 'files');
+    requests.length = 0;
+    const fromArchive = await analyze(apiUrl, 'tarball');
+
+    expect(requests.filter(path => path.includes('/git/'))).toEqual([]);
+    expect(fromArchive.file_stats.listing_backend).toBe('tarball');
+    expect(fromArchive.total_tokens).toBeGreaterThan(0);
+    expect(fromArchive.total_tokens).toBe(fromTree.total_tokens);
+    expect(fromArchive.file_stats.processed_files).toBe(fromTree.file_stats.processed_files);
+    expect(fromArchive.file_stats.extensions).toEqual(fromTree.file_stats.extensions);
+    expect(fromArchive.file_stats.excluded).toEqual(fromTree.file_stats.excluded);
+    expect(fromArchive.duplication).toEqual(fromTree.duplication);
+  });
+
+  it("applies the archive's .gitignore and finds repeated files", async () => {
+    const { apiUrl } = await startRepositoryFiles();
+    const analysis = await analyze(apiUrl, 'tarball');
+
+    expect(analysis.file_stats.excluded.files).toContainEqual({ path: 'build/bundle.js', reason: 'gitignored' });
+    expect(analysis.file_stats.extensions['.js']).toBeUndefined();
+    // src/copy.ts repeats src/index.ts
+    const copyTokens = analysis.breakdown?.top_files.find(file => file.path === 'src/copy.ts')?.tokens;
+    expect(copyTokens).toBeGreaterThan(0);
+    expect(analysis.duplication?.internal_duplicate_tokens).toBe(copyTokens);
+    expect(analysis.completeness?.complete).toBe(true);
+  });
+
+  it('counts only the files under the requested path', async () => {
+    const { apiUrl } = await startRepositoryFiles();
+    const analysis = await analyze(apiUrl, 'tarball', 'src');
+
+    expect(analysis.path).toBe('src');
+    expect(analysis.file_stats.total_files).toBe(3);
+    expect(analysis.file_stats.processed_files).toBe(3);
+  });
+});
+
+describe('GitHubRepoAnalyzer file token cache', () => {
+  afterEach(closeServers);
+
+  it('classifies a cached blob again when it appears at another path', async () => {
+    const scaffold = 'export default function Home() {\n  return <p>Get started by editing app/page.tsx</p>;\n}\n';
+    const { apiUrl } = await startRepositoryFiles({ 'app/page.tsx': scaffold, 'src/home.tsx': scaffold });
+    const analyzer = new GitHubRepoAnalyzer(undefined, { apiBaseUrl: apiUrl, encoding: 'approximate', cache: new MemoryAnalysisCache(), fileConcurrency: 1 });
+
+    const analysis = await analyzer.analyzeSingleRepository({ owner: OWNER, repo: 'fixture' }, 1);
+
+    expect(analysis.duplication?.boilerplate).toMatchObject({ files: 1, frameworks: { 'create-next-app': expect.any(Number) } });
+  });
+});
@@ -1,36 +1,277 @@
-import { encoding_for_model } from 'tiktoken';
+import { createHash } from 'crypto';
+import { readTarGz } from './tarball';
+import type { AnalysisCache } from './analysis-cache';
+import { GitHubClient, RateLimitStatus } from './github-client';
+import { fetchRepository, listOwnerRepositories, listViewerRepositories } from './github-graphql';
+import {
+  abortsAnalysis,
+  AnalysisError,
+  AuthInvalidError,
+  ErrorCode,
+  ErrorInfo,
+  NoRepositoriesError,
+  RepoError,
+  RepoUnavailableError,
+  toErrorInfo,
+  UpstreamError,
+  UserNotFoundError
+} from './errors';
+import { mapWithConcurrency } from './concurrency';
+import { TokenCounter, TokenEncoding, TokenizerInfo } from './tokenizer';
+import {
+  AnalysisProfile,
+  ExclusionSummary,
+  FileFilter,
+  createExclusionSummary,
+  recordExclusion
+} from './file-filter';
+import type { FileTokenEntry } from './analysis-cache';
+import type { RepoReference } from './github-url';
+import type { ProviderKind, SourceProvider } from './source-provider';
+import { buildTokenBreakdown, FileTokenCount, TokenBreakdown } from './token-breakdown';
+import { CompletenessReport, CompletenessTracker, withVerdict } from './completeness';
+import { CalibrationStore, estimateTokens, PrescreenOptions, TokenEstimate } from './prescreen';
+import { Attribution, AttributionOptions, getAuthorShare } from './attribution';
+import {
+  applyDuplication,
+  ContentHashes,
+  contentHashKey,
+  createBoilerplateSummary,
+  DuplicationReport,
+  matchBoilerplate,
+  RepoDuplication,
+  uniqueTokens
+} from './duplication';
 
-interface Repository {
+// A repository as the REST API lists it. The GraphQL backend fills in the same fields, plus
+// the head commit and language breakdown that REST needs a request per repository for.
+export interface Repository {
   name: string;
   description: string | null;
   language: string | null;
   stargazers_count: number;
+  // Disk usage in KB
   size: number;
   html_url: string;
   fork: boolean;
+  private?: boolean;
+  archived?: boolean;
+  is_template?: boolean;
+  // Set (possibly to '') for mirrors
+  mirror_url?: string | null;
+  pushed_at?: string | null;
+  topics?: string[];
+  default_branch?: string;
   owner: {
     login: string;
   };
+  // GraphQL only: the default branch's head commit and bytes per language
+  head_sha?: string | null;
+  languages?: Record<string, number>;
 }
 
 interface FileInfo {
   path: string;
   type: string;
   size: number;
+  sha?: string;
   download_url?: string;
 }
 
-interface AnalysisResult {
+interface TreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+// What analyzing one repository's files produced, before it becomes a RepoAnalysis
+interface RepositoryTally {
+  totalTokens: number;
+  fileStats: RepoAnalysis['file_stats'];
+  fileTokens: FileTokenCount[];
+  completeness: CompletenessTracker;
+  duplication: RepoDuplication;
+  contentHashes: ContentHashes;
+}
+
+interface FileDownload {
+  content: string;
+  // Cut at MAX_DOWNLOAD_CHARS
+  truncated?: boolean;
+  // Set when the download failed; content is empty then
+  error?: string;
+}
+
+interface TreeListing {
+  files: FileInfo[];
+  complete: boolean;
+}
+
+// 'tree' lists the whole repository through the Git Trees API and reads blobs by SHA;
+// 'contents' walks the Contents API one directory at a time (depth and file capped)
+export type ListingBackend = 'tree' | 'contents';
+
+// 'files' downloads eligible files one by one; 'tarball' downloads the repository
+// archive once and counts every eligible entry in it
+export type IngestionMode = 'files' | 'tarball';
+
+export type OwnerType = 'User' | 'Organization';
+
+// How repositories are discovered: 'rest' pages through the REST listing; 'graphql' (needs a
+// token) fetches every repository's metadata, head commit and languages in a few queries
+export type DiscoveryBackend = 'rest' | 'graphql';
+
+// Narrows an analysis to a branch, tag or commit and/or a subdirectory
+export interface AnalysisScope {
+  ref?: string;
+  path?: string;
+}
+
+export interface RepoFilters {
+  // Which repositories to list by visibility (default 'all'; private ones need a token with access)
+  visibility?: 'all' | 'public' | 'private';
+  // Forks are skipped unless this is set
+  includeForks?: boolean;
+  // Archived repositories are included unless this is false
+  includeArchived?: boolean;
+  // Also analyze repositories the user collaborates on or reaches through organization
+  // membership. GitHub only exposes these for the account the token belongs to.
+  includeContributed?: boolean;
+  // Template and mirror repositories are included unless these are false
+  includeTemplates?: boolean;
+  includeMirrors?: boolean;
+  // Only repositories pushed to within this many days
+  pushedWithinDays?: number;
+  // Only repositories with at least one of these topics / none of these topics
+  topics?: string[];
+  excludeTopics?: string[];
+}
+
+// What the listing said about a repository, beyond the fields RepoAnalysis always has
+export interface RepoMetadata {
+  // How GitHub repositories were discovered, or the provider other repositories came from
+  source: DiscoveryBackend | ProviderKind;
+  default_branch: string | null;
+  // Head of the default branch when the listing included it (GraphQL)
+  head_sha: string | null;
+  // Bytes per language when the listing included them (GraphQL)
+  languages: Record<string, number> | null;
+  topics: string[];
+  template: boolean;
+  mirror: boolean;
+  pushed_at: string | null;
+  disk_usage_kb: number;
+}
+
+export interface AnalyzerOptions {
+  listingBackend?: ListingBackend;
+  ingestionMode?: IngestionMode;
+  // Defaults to 'rest'; 'graphql' falls back to REST without a token
+  discoveryBackend?: DiscoveryBackend;
+  // Defaults to https://api.github.com; point at a GitHub Enterprise or stub server instead
+  apiBaseUrl?: string;
+  // When set, unchanged repositories and blobs are served from here instead of re-analyzed
+  cache?: AnalysisCache;
+  // Share one client between analyzers to draw on a single rate-limit budget
+  client?: GitHubClient;
+  // Reads GitLab, Gitea or local repositories instead of GitHub's. Archives, attribution and
+  // GraphQL discovery are GitHub-only, so those options are ignored then.
+  source?: SourceProvider;
+  // Repositories analyzed at the same time (default 3, at most 10)
+  repoConcurrency?: number;
+  // File downloads in flight per repository (default 5, at most 20)
+  fileConcurrency?: number;
+  // Defaults to cl100k_base; 'approximate' uses the character-based estimator
+  encoding?: TokenEncoding;
+  // Include/exclude globs and vendored/generated detection settings
+  profile?: AnalysisProfile;
+  // Which of the account's repositories to analyze
+  repoFilters?: RepoFilters;
+  // Heaviest files and directories reported per repository (default 10, at most 100)
+  breakdownTopN?: number;
+  // When set, profile analyses estimate every repository from its metadata first and fully
+  // analyze only those whose estimate lands near the threshold
+  prescreen?: PrescreenOptions;
+  // Per-language bytes-per-token ratios; measured pre-screened repositories refine them
+  calibration?: CalibrationStore;
+  // When set, profile analyses estimate how many of each repository's tokens the analyzed
+  // user wrote, from the contributor statistics
+  attribution?: AttributionOptions;
+}
+
+// Directories the directory-by-directory walkers never descend into, to save API calls.
+// Full listings report these through the file filter instead.
+const SKIP_DIRS = ['node_modules', '.git', 'dist', 'build', '.next', 'vendor', 'target', '__pycache__'];
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+// Longer downloads are cut to prevent memory issues
+const MAX_DOWNLOAD_CHARS = 500000;
+const MAX_PROCESSED_FILES = 200;
+// Nested .gitignore/.gitattributes files read per repository
+const MAX_RULES_FILES = 20;
+
+// Matches paths inside a subdirectory, or everything when no subdirectory is given
+function scopeMatcher(path?: string): (filePath: string) => boolean {
+  const prefix = (path || '').replace(/^\/+|\/+$/g, '');
+  if (!prefix) return () => true;
+  return filePath => filePath.startsWith(`${prefix}/`);
+}
+
+function getExtension(filePath: string): string {
+  return '.' + filePath.split('.').pop()?.toLowerCase();
+}
+
+// Judged on the user's authored tokens when attribution says so, on every token otherwise
+function meetsCriteria(repoAnalysis: RepoAnalysis, minTokens: number): boolean {
+  const attribution = repoAnalysis.attribution;
+  return (attribution?.threshold_applied ? attribution.authored_tokens : repoAnalysis.total_tokens) >= minTokens;
+}
+
+// Same SHA git assigns the blob, so archive entries share cache keys with tree listings
+function gitBlobSha(content: Buffer): string {
+  return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+// Short fingerprint of a file path for cache keys, which also name files on disk
+function pathKey(path: string): string {
+  return createHash('sha1').update(path).digest('hex').slice(0, 12);
+}
+
+function limitDownload(text: string): FileDownload {
+  return text.length > MAX_DOWNLOAD_CHARS ? { content: text.substring(0, MAX_DOWNLOAD_CHARS), truncated: true } : { content: text };
+}
+
+export interface AnalysisResult {
   username: string;
+  owner_type?: OwnerType;
   total_repos_analyzed: number;
   repos_meeting_criteria: RepoAnalysis[];
   all_repo_stats: Record<string, RepoAnalysis>;
   analysis_timestamp: string;
   min_tokens_threshold: number;
+  api_usage?: {
+    requests: number;
+    rate_limit: RateLimitStatus;
+  };
+  // Set when the analysis stopped before every repository was analyzed
+  aborted_reason?: string;
+  tokenizer?: TokenizerInfo & {
+    // Files whose count had to be estimated even though an exact encoding was in use
+    estimated_files: number;
+  };
+  // Content shared between the analyzed repositories, and framework boilerplate
+  duplication?: DuplicationReport;
+  // Repositories that failed, or were skipped once the analysis stopped, in listing order
+  repo_errors?: RepoError[];
   error?: string;
+  // Code, retryability and details of `error`
+  error_info?: ErrorInfo;
 }
 
-interface RepoAnalysis {
+export interface RepoAnalysis {
+  // Bare name for the analyzed account's own repositories, `owner/name` for others
   name: string;
   description: string | null;
   language: string | null;
@@ -41,92 +282,320 @@ interface RepoAnalysis {
     total_files: number;
     processed_files: number;
     extensions: Record<string, number>;
+    listing_backend: ListingBackend | 'tarball';
+    listing_complete: boolean;
+    excluded: ExclusionSummary;
   };
   url: string;
+  private: boolean;
+  archived: boolean;
+  fork: boolean;
   meets_criteria: boolean;
+  commit_sha?: string;
+  // Heaviest files and directories plus a directory tree (absent on results cached before it existed)
+  breakdown?: TokenBreakdown;
+  // What was and wasn't read, and whether meets_criteria can be trusted
+  completeness?: CompletenessReport;
+  // The metadata estimate, when the repository went through the pre-screen
+  estimate?: TokenEstimate;
+  // False when the pre-screen settled the repository and total_tokens is the estimate
+  measured?: boolean;
+  // The analyzed user's estimated share of the tokens; null when GitHub had no contributor data
+  attribution?: Attribution | null;
+  // Framework boilerplate, repeated files and the content other analyzed repositories share
+  duplication?: RepoDuplication;
+  // total_tokens without boilerplate and duplicated content
+  unique_tokens?: number;
+  // Present when the analysis was narrowed to a ref or subdirectory
+  ref?: string;
+  path?: string;
+  // Topics, template/mirror flags, last push and, from GraphQL, head commit and languages
+  metadata?: RepoMetadata;
+  cache?: {
+    hit: boolean;
+    key: string;
+    stored_at: string;
+    age_seconds: number;
+  };
+}
+
+export type AnalysisProgressEvent =
+  | { type: 'repos_listed'; username: string; repos: { name: string; language: string | null; size_kb: number }[] }
+  | { type: 'repo_started'; repo: string; index: number; total: number }
+  | { type: 'repo_completed'; repo: string; index: number; total: number; analysis: RepoAnalysis }
+  | { type: 'repo_failed'; repo: string; index: number; total: number; error: string; code: ErrorCode; retryable: boolean }
+  | { type: 'summary'; result: AnalysisResult }
+  | { type: 'error'; error: string; code: ErrorCode; retryable: boolean };
+
+export type ProgressCallback = (event: AnalysisProgressEvent) => void;
+
+export interface ProfileRunOptions {
+  // Results from an earlier, interrupted run keyed by repository label; these are reused
+  // instead of analyzed again
+  checkpoints?: Record<string, RepoAnalysis>;
+  // Checked before each repository starts; returning true stops the run like an exhausted budget does
+  isCancelled?: () => boolean;
 }
 
 export class GitHubRepoAnalyzer {
-  private githubToken?: string;
-  private tokenizer: any;
+  private client: GitHubClient;
+  private source?: SourceProvider;
+  private tokenizer: TokenCounter;
+  private estimatedFiles = 0;
+  private profile: AnalysisProfile;
+  private repoFilters: RepoFilters;
+  private listingBackend: ListingBackend;
+  private ingestionMode: IngestionMode;
+  private discoveryBackend: DiscoveryBackend;
+  private apiBaseUrl: string;
+  private cache?: AnalysisCache;
+  private repoConcurrency: number;
+  private fileConcurrency: number;
+  private breakdownTopN: number;
+  private prescreen?: PrescreenOptions;
+  private calibration?: CalibrationStore;
+  private attribution?: AttributionOptions;
 
-  constructor(githubToken?: string) {
-    this.githubToken = githubToken;
-    try {
-      this.tokenizer = encoding_for_model("gpt-3.5-turbo");
-    } catch (error) {
-      console.warn('Could not initialize tokenizer:', error);
-      this.tokenizer = null;
-    }
+  constructor(githubToken?: string, options: AnalyzerOptions = {}) {
+    this.source = options.source;
+    this.client = options.client || options.source?.client || new GitHubClient({ token: githubToken, apiBaseUrl: options.apiBaseUrl });
+    // Providers list whole trees and serve files one by one
+    this.listingBackend = options.source ? 'tree' : options.listingBackend || 'tree';
+    this.ingestionMode = options.source ? 'files' : options.ingestionMode || 'files';
+    this.discoveryBackend = options.discoveryBackend || 'rest';
+    this.apiBaseUrl = this.client.apiBaseUrl;
+    this.cache = options.cache;
+    this.repoConcurrency = Math.min(options.repoConcurrency || 3, 10);
+    this.fileConcurrency = Math.min(options.fileConcurrency || 5, 20);
+    this.breakdownTopN = Math.min(options.breakdownTopN || 10, 100);
+    this.prescreen = options.prescreen;
+    this.calibration = options.calibration;
+    this.attribution = options.attribution;
+    this.tokenizer = new TokenCounter(options.encoding);
+    this.profile = options.profile || {};
+    this.repoFilters = options.repoFilters || {};
   }
 
-  private async fetchWithAuth(url: string): Promise<Response> {
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'GitHub-Repo-Analyzer'
-    };
+  private async fetchWithAuth(url: string, accept?: string, init?: RequestInit): Promise<Response> {
+    return this.client.fetch(url, accept, init);
+  }
 
-    if (this.githubToken) {
-      headers['Authorization'] = `token ${this.githubToken}`;
-    }
+  getApiUsage(): NonNullable<AnalysisResult['api_usage']> {
+    return { requests: this.client.requestCount, rate_limit: { ...this.client.rateLimit } };
+  }
 
-    return fetch(url, { headers });
+  // Short fingerprint of the analysis profile, so cached results never mix profiles
+  private profileKey(): string {
+    return createHash('sha1').update(JSON.stringify(this.profile)).digest('hex').slice(0, 8);
   }
 
-  async getUserRepos(username: string): Promise<Repository[]> {
-    const repos: Repository[] = [];
+  getTokenizerInfo(): NonNullable<AnalysisResult['tokenizer']> {
+    return {
+      ...this.tokenizer.info,
+      exact: this.tokenizer.info.exact && this.estimatedFiles === 0,
+      estimated_files: this.estimatedFiles
+    };
+  }
+
+  // Follows `page` pagination until a short page comes back
+  private async paginate<T>(baseUrl: string, notFound: () => AnalysisError): Promise<T[]> {
+    const items: T[] = [];
     let page = 1;
     const perPage = 100;
+    const separator = baseUrl.includes('?') ? '&' : '?';
 
     while (true) {
-      const url = `https://api.github.com/users/${username}/repos?page=${page}&per_page=${perPage}&type=owner&sort=updated&direction=desc`;
+      const url = `${baseUrl}${separator}page=${page}&per_page=${perPage}`;
       
       const response = await this.fetchWithAuth(url);
       
       if (response.status === 404) {
-        throw new Error(`User '${username}' not found`);
+        throw notFound();
       } else if (response.status === 403) {
-        throw new Error('Rate limit exceeded. Please provide a GitHub token or wait.');
+        // Rate limits are handled by the client, so this is a real permission problem
+        throw new AuthInvalidError(`Access denied (403) fetching ${baseUrl.replace(this.apiBaseUrl, '')}`, 403);
       } else if (!response.ok) {
-        throw new Error(`Error fetching repos: ${response.status}`);
+        throw new UpstreamError(`Error fetching repos: ${response.status}`, response.status);
       }
 
-      const pageRepos: Repository[] = await response.json();
-      if (!pageRepos.length) break;
+      const pageItems: T[] = await response.json();
+      if (!pageItems.length) break;
+      items.push(...pageItems);
 
-      // Filter out forks
-      const nonForkRepos = pageRepos.filter(repo => !repo.fork);
-      repos.push(...nonForkRepos);
-
-      if (pageRepos.length < perPage) break;
+      if (pageItems.length < perPage) break;
       page++;
     }
 
-    return repos;
+    return items;
+  }
+
+  async getOwnerType(name: string): Promise<OwnerType> {
+    const response = await this.fetchWithAuth(`${this.apiBaseUrl}/users/${name}`);
+    if (response.status === 404) {
+      throw new UserNotFoundError(name);
+    } else if (!response.ok) {
+      throw new UpstreamError(`Error fetching account '${name}': ${response.status}`, response.status);
+    }
+    const account = await response.json();
+    return account.type === 'Organization' ? 'Organization' : 'User';
+  }
+
+  // Login of the account the token belongs to, or null without a token
+  async getAuthenticatedLogin(): Promise<string | null> {
+    if (!this.client.authenticated) return null;
+    const response = await this.fetchWithAuth(`${this.apiBaseUrl}/user`);
+    if (!response.ok) return null;
+    const account = await response.json();
+    return account.login || null;
+  }
+
+  private applyRepoFilters(repos: Repository[]): Repository[] {
+    const {
+      visibility = 'all',
+      includeForks = false,
+      includeArchived = true,
+      includeTemplates = true,
+      includeMirrors = true,
+      pushedWithinDays,
+      topics = [],
+      excludeTopics = []
+    } = this.repoFilters;
+    const pushedSince = pushedWithinDays ? Date.now() - pushedWithinDays * 24 * 60 * 60 * 1000 : null;
+    const lowercase = (names: string[]) => names.map(name => name.toLowerCase());
+    const wantedTopics = lowercase(topics);
+    const unwantedTopics = lowercase(excludeTopics);
+
+    return repos.filter(repo => {
+      if (!includeForks && repo.fork) return false;
+      if (!includeArchived && repo.archived) return false;
+      if (!includeTemplates && repo.is_template) return false;
+      if (!includeMirrors && repo.mirror_url != null) return false;
+      if (visibility === 'public' && repo.private) return false;
+      if (visibility === 'private' && !repo.private) return false;
+      // Never-pushed repositories have no pushed_at and count as stale
+      if (pushedSince !== null && !(repo.pushed_at && Date.parse(repo.pushed_at) >= pushedSince)) return false;
+      const repoTopics = lowercase(repo.topics || []);
+      if (wantedTopics.length && !wantedTopics.some(topic => repoTopics.includes(topic))) return false;
+      if (repoTopics.some(topic => unwantedTopics.includes(topic))) return false;
+      return true;
+    });
+  }
+
+  // GraphQL needs a token; anonymous analyses keep using the REST listing
+  private useGraphQL(): boolean {
+    if (this.discoveryBackend !== 'graphql') return false;
+    if (!this.client.authenticated) {
+      console.warn('GraphQL discovery needs a GitHub token; listing repositories through REST instead');
+      return false;
+    }
+    return true;
+  }
+
+  private repoMetadata(repo: Repository): RepoMetadata {
+    return {
+      source: this.source ? this.source.kind : repo.languages ? 'graphql' : 'rest',
+      default_branch: repo.default_branch || null,
+      head_sha: repo.head_sha || null,
+      languages: repo.languages || null,
+      topics: repo.topics || [],
+      template: !!repo.is_template,
+      mirror: repo.mirror_url != null,
+      pushed_at: repo.pushed_at || null,
+      disk_usage_kb: repo.size
+    };
   }
 
-  async getRepoContents(owner: string, repoName: string, path: string = '', depth: number = 0, fileCount: { count: number } = { count: 0 }): Promise<FileInfo[]> {
+  async getUserRepos(username: string): Promise<Repository[]> {
+    const repos = await this.paginate<Repository>(
+      `${this.apiBaseUrl}/users/${username}/repos?type=owner&sort=updated&direction=desc`,
+      () => new UserNotFoundError(username)
+    );
+    return this.applyRepoFilters(repos);
+  }
+
+  async getOrgRepos(org: string): Promise<Repository[]> {
+    const type = this.repoFilters.visibility === 'public' || this.repoFilters.visibility === 'private'
+      ? this.repoFilters.visibility
+      : 'all';
+    const repos = await this.paginate<Repository>(
+      `${this.apiBaseUrl}/orgs/${org}/repos?type=${type}&sort=updated&direction=desc`,
+      () => new UserNotFoundError(org, 'Organization')
+    );
+    return this.applyRepoFilters(repos);
+  }
+
+  // The authenticated user's own repositories, including private ones the public listing omits
+  async getAuthenticatedUserRepos(): Promise<Repository[]> {
+    const affiliation = this.repoFilters.includeContributed ? 'owner,collaborator,organization_member' : 'owner';
+    const visibility = this.repoFilters.visibility || 'all';
+    const repos = await this.paginate<Repository>(
+      `${this.apiBaseUrl}/user/repos?affiliation=${affiliation}&visibility=${visibility}&sort=updated&direction=desc`,
+      () => new AuthInvalidError('Authenticated user not found')
+    );
+    return this.applyRepoFilters(repos);
+  }
+
+  // Lists the repositories to analyze for a user or organization name
+  async listRepositories(name: string): Promise<{ ownerType: OwnerType; repos: Repository[] }> {
+    if (this.source) {
+      const { ownerType, repos } = await this.source.listRepositories(name);
+      return { ownerType, repos: this.applyRepoFilters(repos) };
+    }
+
+    if (this.useGraphQL()) {
+      const authenticatedLogin = await this.getAuthenticatedLogin();
+      if (authenticatedLogin && authenticatedLogin.toLowerCase() === name.toLowerCase()) {
+        return { ownerType: 'User', repos: this.applyRepoFilters(await listViewerRepositories(this.client, this.repoFilters)) };
+      }
+      const { ownerType, repos } = await listOwnerRepositories(this.client, name, this.repoFilters);
+      return { ownerType, repos: this.applyRepoFilters(repos) };
+    }
+
+    const ownerType = await this.getOwnerType(name);
+    if (ownerType === 'Organization') {
+      return { ownerType, repos: await this.getOrgRepos(name) };
+    }
+
+    const authenticatedLogin = await this.getAuthenticatedLogin();
+    if (authenticatedLogin && authenticatedLogin.toLowerCase() === name.toLowerCase()) {
+      return { ownerType, repos: await this.getAuthenticatedUserRepos() };
+    }
+
+    return { ownerType, repos: await this.getUserRepos(name) };
+  }
+
+  private repoLabel(repo: Repository, accountName: string): string {
+    return repo.owner.login.toLowerCase() === accountName.toLowerCase()
+      ? repo.name
+      : `${repo.owner.login}/${repo.name}`;
+  }
+
+  async getRepoContents(owner: string, repoName: string, path: string = '', depth: number = 0, fileCount: { count: number; truncated?: boolean } = { count: 0 }, ref?: string): Promise<FileInfo[]> {
     // Safety limits to prevent infinite loading
     const MAX_DEPTH = 5;
     const MAX_FILES = 1000;
     
     // Stop if we've gone too deep or found too many files
     if (depth > MAX_DEPTH || fileCount.count > MAX_FILES) {
+      fileCount.truncated = true;
       return [];
     }
 
     // Skip problematic directories
-    const skipDirs = ['node_modules', '.git', 'dist', 'build', '.next', 'vendor', 'target', '__pycache__'];
     const pathName = path.split('/').pop() || '';
-    if (skipDirs.includes(pathName)) {
+    if (SKIP_DIRS.includes(pathName)) {
       return [];
     }
 
-    const url = `https://api.github.com/repos/${owner}/${repoName}/contents/${path}`;
+    const url = `${this.apiBaseUrl}/repos/${owner}/${repoName}/contents/${path}${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
     
     try {
       const response = await this.fetchWithAuth(url);
-      if (!response.ok) return [];
+      if (!response.ok) {
+        // An empty repository has no root listing; anything else leaves the listing incomplete
+        if (depth > 0 || response.status !== 404) fileCount.truncated = true;
+        return [];
+      }
 
       const contents = await response.json();
       const contentArray = Array.isArray(contents) ? contents : [contents];
@@ -135,136 +604,628 @@ export class GitHubRepoAnalyzer {
       
       for (const item of contentArray) {
         // Stop if we've hit the file limit
-        if (fileCount.count > MAX_FILES) break;
+        if (fileCount.count > MAX_FILES) {
+          fileCount.truncated = true;
+          break;
+        }
 
         if (item.type === 'file') {
           files.push(item);
           fileCount.count++;
         } else if (item.type === 'dir') {
           // Recursively get directory contents with increased depth
-          const subFiles = await this.getRepoContents(owner, repoName, item.path, depth + 1, fileCount);
+          const subFiles = await this.getRepoContents(owner, repoName, item.path, depth + 1, fileCount, ref);
           files.push(...subFiles);
         }
       }
 
       return files;
     } catch (error) {
+      if (abortsAnalysis(error)) throw error;
       console.error(`Error fetching contents for ${owner}/${repoName}/${path}:`, error);
+      fileCount.truncated = true;
       return [];
     }
   }
 
-  async downloadFileContent(downloadUrl: string): Promise<string> {
+  private async fetchTree(owner: string, repoName: string, treeSha: string, recursive: boolean): Promise<{ tree: TreeEntry[]; truncated: boolean }> {
+    const url = `${this.apiBaseUrl}/repos/${owner}/${repoName}/git/trees/${encodeURIComponent(treeSha)}${recursive ? '?recursive=1' : ''}`;
+    const response = await this.fetchWithAuth(url);
+    if (!response.ok) {
+      throw new RepoUnavailableError(`${owner}/${repoName}`, `Error fetching tree ${treeSha} for ${owner}/${repoName}: ${response.status}`, response.status);
+    }
+    const data = await response.json();
+    return { tree: data.tree || [], truncated: !!data.truncated };
+  }
+
+  // Lists every file under a tree in as few requests as possible. A recursive listing is
+  // tried first; when GitHub truncates it, the tree is walked one level down and each
+  // subtree is listed recursively on its own.
+  async getRepoTree(owner: string, repoName: string, treeSha: string, prefix: string = ''): Promise<TreeListing> {
+    const isSkipped = (path: string) => path.split('/').some(segment => SKIP_DIRS.includes(segment));
+    const toFileInfo = (entry: TreeEntry): FileInfo => ({
+      path: prefix + entry.path,
+      type: 'file',
+      size: entry.size || 0,
+      sha: entry.sha
+    });
+
+    try {
+      const recursive = await this.fetchTree(owner, repoName, treeSha, true);
+      if (!recursive.truncated) {
+        return {
+          files: recursive.tree
+            .filter(entry => entry.type === 'blob')
+            .map(toFileInfo),
+          complete: true
+        };
+      }
+
+      // Walking costs a request per subtree, so well-known dependency and build
+      // directories are not descended into
+      const level = await this.fetchTree(owner, repoName, treeSha, false);
+      const listing: TreeListing = { files: [], complete: !level.truncated };
+
+      for (const entry of level.tree) {
+        if (isSkipped(prefix + entry.path)) continue;
+
+        if (entry.type === 'blob') {
+          listing.files.push(toFileInfo(entry));
+        } else if (entry.type === 'tree') {
+          const subtree = await this.getRepoTree(owner, repoName, entry.sha, `${prefix}${entry.path}/`);
+          listing.files.push(...subtree.files);
+          listing.complete = listing.complete && subtree.complete;
+        }
+      }
+
+      return listing;
+    } catch (error) {
+      if (abortsAnalysis(error)) throw error;
+      if (!prefix && error instanceof RepoUnavailableError) {
+        // An empty repository has no tree; any other failure at the root leaves nothing to analyze
+        if (error.details.status === 409) return { files: [], complete: true };
+        throw error;
+      }
+      console.error(`Error fetching tree for ${owner}/${repoName}/${prefix}:`, error);
+      return { files: [], complete: false };
+    }
+  }
+
+  // Lists the repository's files. The contents walker starts at `path`; tree listings always
+  // cover the whole repository so root-level .gitignore/.gitattributes stay visible.
+  async listRepoFiles(repo: Repository, ref?: string, path?: string): Promise<TreeListing> {
+    const owner = repo.owner.login;
+
+    if (this.source) {
+      const { files, complete } = await this.source.listFiles(repo, ref);
+      return { files: files.map(file => ({ ...file, type: 'file' })), complete };
+    }
+
+    if (this.listingBackend === 'contents') {
+      const fileCount: { count: number; truncated?: boolean } = { count: 0 };
+      const files = await this.getRepoContents(owner, repo.name, path || '', 0, fileCount, ref);
+      return { files, complete: !fileCount.truncated };
+    }
+
+    return this.getRepoTree(owner, repo.name, ref || repo.default_branch || 'HEAD');
+  }
+
+  // Resolves a branch, tag or SHA (the default branch when omitted) to its commit SHA
+  async getHeadSha(repo: Repository, ref: string = repo.default_branch || 'HEAD'): Promise<string | null> {
+    // GraphQL listings already carry the default branch's head
+    if (repo.head_sha && ref === repo.default_branch) return repo.head_sha;
+    if (this.source) return this.source.getHeadSha(repo, ref);
+    const url = `${this.apiBaseUrl}/repos/${repo.owner.login}/${repo.name}/commits/${encodeURIComponent(ref)}`;
+    try {
+      const response = await this.fetchWithAuth(url, 'application/vnd.github.sha');
+      if (!response.ok) return null;
+      return (await response.text()).trim() || null;
+    } catch (error) {
+      if (abortsAnalysis(error)) throw error;
+      console.error(`Error resolving head commit for ${repo.owner.login}/${repo.name}:`, error);
+      return null;
+    }
+  }
+
+  async downloadBlobContent(owner: string, repoName: string, sha: string): Promise<string> {
+    const url = `${this.apiBaseUrl}/repos/${owner}/${repoName}/git/blobs/${sha}`;
+    return this.downloadFileContent(url, 'application/vnd.github.raw');
+  }
+
+  async downloadFileContent(downloadUrl: string, accept?: string): Promise<string> {
+    return (await this.fetchFileContent(downloadUrl, accept)).content;
+  }
+
+  // Like downloadFileContent, but reports truncation and failures instead of hiding them
+  private async fetchFileContent(downloadUrl: string, accept?: string): Promise<FileDownload> {
     try {
       // Add timeout protection (10 seconds)
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000);
       
-      const response = await this.fetchWithAuth(downloadUrl);
+      const response = await this.fetchWithAuth(downloadUrl, accept, { signal: controller.signal });
       clearTimeout(timeoutId);
       
       if (response.ok) {
-        const text = await response.text();
-        // Limit file size to prevent memory issues
-        if (text.length > 500000) { // 500KB max
-          return text.substring(0, 500000);
-        }
-        return text;
+        return limitDownload(await response.text());
       }
-      return '';
+      return { content: '', error: `HTTP ${response.status}` };
     } catch (error) {
+      if (abortsAnalysis(error)) throw error;
       console.error('Error downloading file:', error);
-      return '';
+      return { content: '', error: error instanceof Error ? error.message : 'Download failed' };
     }
   }
 
   countTokensInText(text: string): number {
-    if (!this.tokenizer || !text) return 0;
-    
-    try {
-      const tokens = this.tokenizer.encode(text);
-      return tokens.length;
-    } catch (error) {
-      console.error('Error counting tokens:', error);
-      return 0;
+    return this.tokenizer.count(text).tokens;
+  }
+
+  // Counts tokens for one file and detects generated/minified content, skipping the
+  // download entirely when its blob is cached. Returns null when the file had no readable content.
+  private async countFileTokens(path: string, blobSha: string | undefined, load: () => Promise<FileDownload>): Promise<FileTokenEntry | null> {
+    // Counts differ per encoding, and the generated/minified and boilerplate checks look at the
+    // path as well as the content, so both are part of the key
+    const blobKey = blobSha ? `${this.tokenizer.encoding}:${blobSha}:${pathKey(path)}` : null;
+
+    if (this.cache && blobKey) {
+      const cached = await this.cache.getFileTokens(blobKey);
+      if (cached !== undefined) return cached;
+    }
+
+    const { content, truncated } = await load();
+    if (!content) return null;
+
+    const { tokens, exact } = this.tokenizer.count(content);
+    const entry: FileTokenEntry = { tokens };
+    const trait = FileFilter.detectContent(path, content);
+    if (trait) entry.trait = trait;
+    if (truncated) entry.truncated = true;
+    const boilerplate = matchBoilerplate(path, content);
+    if (boilerplate) entry.boilerplate = boilerplate;
+
+    if (!exact && this.tokenizer.info.exact) {
+      this.estimatedFiles++;
+      // Don't let a one-off estimate masquerade as an exact count later
+      return entry;
     }
+
+    if (this.cache && blobKey) {
+      await this.cache.setFileTokens(blobKey, entry);
+    }
+    return entry;
   }
 
-  async analyzeRepository(repo: Repository): Promise<{ totalTokens: number; fileStats: any }> {
-    const owner = repo.owner.login;
-    const repoName = repo.name;
+  private async readFileInfo(repo: Repository, fileInfo: FileInfo): Promise<FileDownload> {
+    if (this.source && fileInfo.sha) {
+      try {
+        return limitDownload(await this.source.readFile(repo, { path: fileInfo.path, size: fileInfo.size, sha: fileInfo.sha }));
+      } catch (error) {
+        if (abortsAnalysis(error)) throw error;
+        console.error(`Error reading ${fileInfo.path}:`, error);
+        return { content: '', error: error instanceof Error ? error.message : 'Read failed' };
+      }
+    }
+    if (fileInfo.sha) {
+      return this.fetchFileContent(`${this.apiBaseUrl}/repos/${repo.owner.login}/${repo.name}/git/blobs/${fileInfo.sha}`, 'application/vnd.github.raw');
+    }
+    return fileInfo.download_url ? this.fetchFileContent(fileInfo.download_url) : { content: '' };
+  }
+
+  // Adds a counted file, or records why its content excludes it
+  private tallyFile(tally: RepositoryTally, filter: FileFilter, path: string, size: number, entry: FileTokenEntry, blobSha?: string) {
+    const { fileStats } = tally;
+    const reason = filter.classifyContent(path, entry.trait);
+    if (reason) {
+      recordExclusion(fileStats.excluded, path, reason);
+      return;
+    }
+
+    const fileExt = getExtension(path);
+    fileStats.processed_files++;
+    fileStats.extensions[fileExt] = (fileStats.extensions[fileExt] || 0) + entry.tokens;
+    tally.fileTokens.push({ path, tokens: entry.tokens });
+    tally.totalTokens += entry.tokens;
+    tally.completeness.recordCounted(size, entry.tokens, entry.truncated ? Math.min(size, MAX_DOWNLOAD_CHARS) : size);
+
+    const { duplication } = tally;
+    if (entry.boilerplate) {
+      duplication.boilerplate.files++;
+      duplication.boilerplate.tokens += entry.tokens;
+      duplication.boilerplate.frameworks[entry.boilerplate] = (duplication.boilerplate.frameworks[entry.boilerplate] || 0) + entry.tokens;
+    } else if (blobSha) {
+      const hash = contentHashKey(blobSha);
+      if (hash in tally.contentHashes) {
+        duplication.internal_duplicate_tokens += entry.tokens;
+      } else {
+        tally.contentHashes[hash] = entry.tokens;
+      }
+    }
+  }
+
+  async analyzeRepository(repo: Repository, ref?: string, path?: string): Promise<RepositoryTally> {
+    if (this.ingestionMode === 'tarball') {
+      return this.analyzeRepositoryArchive(repo, ref, path);
+    }
+
+    const filter = new FileFilter(this.profile);
+    const inScope = scopeMatcher(path);
 
     // Get all files in the repository
-    const files = await this.getRepoContents(owner, repoName);
+    const listing = await this.listRepoFiles(repo, ref, path);
+    const files = listing.files.filter(fileInfo => inScope(fileInfo.path));
 
-    let totalTokens = 0;
-    const fileStats = {
-      total_files: files.length,
-      processed_files: 0,
-      extensions: {} as Record<string, number>
+    const tally: RepositoryTally = {
+      totalTokens: 0,
+      fileStats: {
+        total_files: files.length,
+        processed_files: 0,
+        extensions: {},
+        listing_backend: this.listingBackend,
+        listing_complete: listing.complete,
+        excluded: createExclusionSummary()
+      },
+      fileTokens: [],
+      completeness: new CompletenessTracker(),
+      duplication: {
+        boilerplate: createBoilerplateSummary(),
+        internal_duplicate_tokens: 0,
+        shared_tokens: 0,
+        shared_with: []
+      },
+      contentHashes: {}
     };
 
-    // Code file extensions to analyze
-    const codeExtensions = new Set([
-      '.py', '.js', '.jsx', '.ts', '.tsx', '.java', '.cpp', '.c', '.h', '.hpp',
-      '.cs', '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala', '.sh',
-      '.sql', '.html', '.css', '.scss', '.less', '.xml', '.json', '.yaml', '.yml',
-      '.md', '.txt', '.r', '.m', '.pl', '.lua', '.dart', '.elm', '.ex', '.exs'
-    ]);
-
-    for (const fileInfo of files) {
-      // Limit processing to prevent infinite loading (max 200 files per repo)
-      if (fileStats.processed_files >= 200) {
-        console.log(`Stopping analysis for ${repo.name} - processed 200 files`);
-        break;
+    // The repository's own ignore and linguist rules apply before anything is downloaded
+    if (filter.usesRepositoryRules) {
+      const rulesFiles = listing.files.filter(fileInfo => FileFilter.isRulesFile(fileInfo.path)).slice(0, MAX_RULES_FILES);
+      const rulesContents = await mapWithConcurrency(rulesFiles, this.fileConcurrency, fileInfo =>
+        this.readFileInfo(repo, fileInfo)
+      );
+      rulesFiles.forEach((fileInfo, index) => filter.addRulesFile(fileInfo.path, rulesContents[index].content));
+    }
+
+    // Skip excluded and very large files, and limit processing to prevent
+    // infinite loading (max 200 files per repo, or the provider's own limit)
+    const eligibleFiles = files.filter(fileInfo => {
+      const reason = filter.classifyPath(fileInfo.path) || (fileInfo.size > MAX_FILE_SIZE ? 'too_large' : null);
+      if (reason) recordExclusion(tally.fileStats.excluded, fileInfo.path, reason);
+      if (reason === 'too_large') tally.completeness.recordSkipped('too_large', fileInfo.size);
+      return !reason;
+    });
+    const fileLimit = this.source ? this.source.fileLimit ?? eligibleFiles.length : MAX_PROCESSED_FILES;
+    const filesToProcess = eligibleFiles.slice(0, fileLimit);
+    // The completeness report says how many files the limit left out
+    eligibleFiles.slice(filesToProcess.length).forEach(fileInfo => tally.completeness.recordSkipped('file_cap', fileInfo.size));
+
+    // Download and analyze file content, preferring the blob SHA from the tree listing
+    const fileEntries = await mapWithConcurrency(filesToProcess, this.fileConcurrency, fileInfo =>
+      this.countFileTokens(fileInfo.path, fileInfo.sha, async () => {
+        const download = await this.readFileInfo(repo, fileInfo);
+        if (download.error) tally.completeness.recordFailure(fileInfo.path, fileInfo.size, download.error);
+        return download;
+      })
+    );
+
+    filesToProcess.forEach((fileInfo, index) => {
+      const entry = fileEntries[index];
+      if (entry) {
+        this.tallyFile(tally, filter, fileInfo.path, fileInfo.size, entry, fileInfo.sha);
       }
+    });
+
+    return tally;
+  }
 
-      const filePath = fileInfo.path;
-      const fileExt = '.' + filePath.split('.').pop()?.toLowerCase() || '';
-
-      // Skip non-code files and very large files
-      if (!codeExtensions.has(fileExt)) continue;
-      if (fileInfo.size > 10 * 1024 * 1024) continue; // Skip files > 10MB
-
-      // Download and analyze file content
-      if (fileInfo.download_url) {
-        const content = await this.downloadFileContent(fileInfo.download_url);
-        if (content) {
-          const fileTokens = this.countTokensInText(content);
-          totalTokens += fileTokens;
-          
-          fileStats.processed_files++;
-          
-          if (fileStats.extensions[fileExt]) {
-            fileStats.extensions[fileExt] += fileTokens;
-          } else {
-            fileStats.extensions[fileExt] = fileTokens;
+  // Downloads the repository archive once and counts tokens for every eligible entry,
+  // without the per-file request budget or the 200-file cap of the default mode
+  async analyzeRepositoryArchive(repo: Repository, ref?: string, path?: string): Promise<RepositoryTally> {
+    const archiveRef = ref || repo.default_branch || '';
+    const url = `${this.apiBaseUrl}/repos/${repo.owner.login}/${repo.name}/tarball/${encodeURIComponent(archiveRef)}`;
+    const response = await this.fetchWithAuth(url);
+    if (!response.ok || !response.body) {
+      throw new RepoUnavailableError(`${repo.owner.login}/${repo.name}`, `Error downloading archive for ${repo.owner.login}/${repo.name}: ${response.status}`, response.status);
+    }
+
+    const tally: RepositoryTally = {
+      totalTokens: 0,
+      fileStats: {
+        total_files: 0,
+        processed_files: 0,
+        extensions: {},
+        listing_backend: 'tarball',
+        listing_complete: true,
+        excluded: createExclusionSummary()
+      },
+      fileTokens: [],
+      completeness: new CompletenessTracker(),
+      duplication: {
+        boilerplate: createBoilerplateSummary(),
+        internal_duplicate_tokens: 0,
+        shared_tokens: 0,
+        shared_with: []
+      },
+      contentHashes: {}
+    };
+
+    // Until the archive's .gitignore/.gitattributes have been seen, this filter only knows
+    // the profile's rules; it picks which entries are worth tokenizing while streaming
+    const streamingFilter = new FileFilter(this.profile);
+    const filter = new FileFilter(this.profile);
+
+    // GitHub wraps everything in a single `{owner}-{repo}-{sha}/` directory
+    const stripRoot = (entryPath: string) => entryPath.slice(entryPath.indexOf('/') + 1);
+    const inScope = scopeMatcher(path);
+
+    const entries = readTarGz(response.body, {
+      include: (entryPath, size) => {
+        const relativePath = stripRoot(entryPath);
+        if (FileFilter.isRulesFile(relativePath)) return true;
+        return inScope(relativePath) && size <= MAX_FILE_SIZE && streamingFilter.classifyPath(relativePath) === null;
+      }
+    });
+
+    const paths: { path: string; size: number; read: boolean; sha?: string; entry: FileTokenEntry | null }[] = [];
+
+    for await (const archiveEntry of entries) {
+      if (archiveEntry.type !== 'file') continue;
+
+      const relativePath = stripRoot(archiveEntry.path);
+      const content = archiveEntry.content;
+
+      if (content && FileFilter.isRulesFile(relativePath)) {
+        filter.addRulesFile(relativePath, content.toString('utf8'));
+      }
+      if (!inScope(relativePath)) continue;
+
+      const sha = content ? gitBlobSha(content) : undefined;
+      const entry = content
+        ? await this.countFileTokens(relativePath, sha, async () => ({ content: content.toString('utf8') }))
+        : null;
+      paths.push({ path: relativePath, size: archiveEntry.size, read: !!content, sha, entry });
+    }
+
+    // With every rules file known, decide what actually counts. Repository rules can only
+    // exclude more than the streaming filter did, except for files that .gitattributes
+    // marks as not vendored/generated, which were already skipped while streaming.
+    tally.fileStats.total_files = paths.length;
+    for (const file of paths) {
+      const reason = filter.classifyPath(file.path) || (file.size > MAX_FILE_SIZE ? 'too_large' : null);
+      if (reason) {
+        recordExclusion(tally.fileStats.excluded, file.path, reason);
+        if (reason === 'too_large') tally.completeness.recordSkipped('too_large', file.size);
+      } else if (file.entry) {
+        this.tallyFile(tally, filter, file.path, file.size, file.entry, file.sha);
+      } else if (!file.read && file.size > 0) {
+        tally.completeness.recordSkipped('not_read', file.size);
+      }
+    }
+
+    return tally;
+  }
+
+  // Analyzes one repository into its RepoAnalysis, reusing the cached result when the
+  // analyzed branch (the default one unless scoped to a ref) still points at the same commit.
+  // The file content hashes, when known, go into contentHashes under the label.
+  async buildRepoAnalysis(
+    repo: Repository,
+    minTokens: number,
+    label: string = repo.name,
+    scope: AnalysisScope = {},
+    contentHashes?: Map<string, ContentHashes>
+  ): Promise<RepoAnalysis> {
+    const headSha = this.cache ? await this.getHeadSha(repo, scope.ref) : null;
+    // Other sources' keys start with their origin, so equal owner/name pairs never collide
+    const cacheKey = headSha
+      ? `${this.source ? `${this.source.origin}/` : ''}${repo.owner.login}/${repo.name}@${headSha}${scope.path ? `:${scope.path}` : ''}#${this.ingestionMode === 'tarball' ? 'tarball' : this.listingBackend}:${this.tokenizer.encoding}:${this.profileKey()}:top${this.breakdownTopN}`
+      : null;
+
+    if (this.cache && cacheKey) {
+      const cached = await this.cache.getRepoAnalysis(cacheKey);
+      if (cached) {
+        if (cached.content_hashes) contentHashes?.set(label, cached.content_hashes);
+        return {
+          ...cached.analysis,
+          name: label,
+          // Stars, topics and the like can change without a new commit
+          metadata: this.repoMetadata(repo),
+          meets_criteria: cached.analysis.total_tokens >= minTokens,
+          completeness: cached.analysis.completeness && withVerdict(cached.analysis.completeness, cached.analysis.total_tokens, minTokens),
+          cache: {
+            hit: true,
+            key: cacheKey,
+            stored_at: cached.stored_at,
+            age_seconds: Math.max(0, Math.round((Date.now() - Date.parse(cached.stored_at)) / 1000))
           }
-        }
+        };
       }
     }
 
-    return { totalTokens, fileStats };
+    const tally = await this.analyzeRepository(repo, headSha || scope.ref, scope.path);
+    const { totalTokens, fileStats, fileTokens, completeness, duplication } = tally;
+    contentHashes?.set(label, tally.contentHashes);
+
+    const repoAnalysis: RepoAnalysis = {
+      name: label,
+      description: repo.description,
+      language: repo.language,
+      stars: repo.stargazers_count,
+      size_kb: repo.size,
+      total_tokens: totalTokens,
+      file_stats: fileStats,
+      url: repo.html_url,
+      private: !!repo.private,
+      archived: !!repo.archived,
+      fork: repo.fork,
+      meets_criteria: totalTokens >= minTokens,
+      breakdown: buildTokenBreakdown(fileTokens, { topN: this.breakdownTopN }),
+      completeness: completeness.report(totalTokens, minTokens, fileStats.listing_complete),
+      duplication,
+      unique_tokens: uniqueTokens(totalTokens, duplication),
+      metadata: this.repoMetadata(repo)
+    };
+
+    if (headSha) {
+      repoAnalysis.commit_sha = headSha;
+    }
+    if (scope.ref) {
+      repoAnalysis.ref = scope.ref;
+    }
+    if (scope.path) {
+      repoAnalysis.path = scope.path;
+    }
+
+    if (this.cache && cacheKey) {
+      await this.cache.setRepoAnalysis(cacheKey, repoAnalysis, tally.contentHashes);
+      repoAnalysis.cache = { hit: false, key: cacheKey, stored_at: new Date().toISOString(), age_seconds: 0 };
+    }
+
+    return repoAnalysis;
   }
 
-  async analyzeUserProfile(username: string, minTokens: number = 1000000): Promise<AnalysisResult> {
+  // Bytes per language as detected by GitHub linguist (or the provider), or null when unavailable
+  private async getLanguages(repo: Repository): Promise<Record<string, number> | null> {
+    if (repo.languages) return repo.languages;
+    if (this.source) return this.source.getLanguages(repo);
     try {
-      // Get user repositories
-      const repos = await this.getUserRepos(username);
+      const response = await this.fetchWithAuth(`${this.apiBaseUrl}/repos/${repo.owner.login}/${repo.name}/languages`);
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      if (abortsAnalysis(error)) throw error;
+      console.error(`Error fetching languages for ${repo.owner.login}/${repo.name}:`, error);
+      return null;
+    }
+  }
+
+  // Settles a repository from its metadata when the estimate is clearly above or below the
+  // threshold; otherwise analyzes it in full and feeds the measurement back into the calibration
+  private async prescreenRepoAnalysis(repo: Repository, minTokens: number, label: string, contentHashes: Map<string, ContentHashes>): Promise<RepoAnalysis> {
+    const languages = await this.getLanguages(repo);
+    const calibration = this.calibration ? await this.calibration.get(this.tokenizer.encoding) : {};
+    const estimate = estimateTokens(languages, repo.size, this.tokenizer.encoding, calibration, minTokens, this.prescreen);
+
+    if (estimate.decision !== 'near') {
+      return {
+        name: label,
+        description: repo.description,
+        language: repo.language,
+        stars: repo.stargazers_count,
+        size_kb: repo.size,
+        total_tokens: estimate.estimated_tokens,
+        file_stats: {
+          total_files: 0,
+          processed_files: 0,
+          extensions: {},
+          listing_backend: this.ingestionMode === 'tarball' ? 'tarball' : this.listingBackend,
+          listing_complete: false,
+          excluded: createExclusionSummary()
+        },
+        url: repo.html_url,
+        private: !!repo.private,
+        archived: !!repo.archived,
+        fork: repo.fork,
+        meets_criteria: estimate.decision === 'above',
+        estimate,
+        measured: false,
+        metadata: this.repoMetadata(repo)
+      };
+    }
+
+    const repoAnalysis = await this.buildRepoAnalysis(repo, minTokens, label, {}, contentHashes);
+    // Only complete counts under the default file selection say anything about a language's ratio
+    const defaultSelection = !this.profile.include?.length && !this.profile.exclude?.length;
+    if (this.calibration && languages && !repoAnalysis.cache?.hit && repoAnalysis.completeness?.complete && defaultSelection) {
+      await this.calibration.record(this.tokenizer.encoding, languages, repoAnalysis.total_tokens);
+    }
+    return { ...repoAnalysis, estimate, measured: true };
+  }
+
+  // Adds the user's share of the tokens, and judges the threshold on it when configured to
+  private async attributeRepoAnalysis(repo: Repository, repoAnalysis: RepoAnalysis, username: string, minTokens: number): Promise<RepoAnalysis> {
+    // Contributor statistics are GitHub's; other sources report no attribution
+    const share = this.source ? null : await getAuthorShare(this.client, repo.owner.login, repo.name, username);
+    if (!share) {
+      return { ...repoAnalysis, attribution: null };
+    }
+
+    const attribution: Attribution = {
+      ...share,
+      author: username,
+      authored_tokens: Math.round(repoAnalysis.total_tokens * share.share),
+      threshold_applied: !!this.attribution?.applyThreshold
+    };
+    const attributed = { ...repoAnalysis, attribution };
+    if (attribution.threshold_applied && attributed.completeness) {
+      attributed.completeness = withVerdict(attributed.completeness, attribution.authored_tokens, minTokens);
+    }
+    return { ...attributed, meets_criteria: meetsCriteria(attributed, minTokens) };
+  }
+
+  async getRepository(owner: string, repoName: string): Promise<Repository> {
+    if (this.source) {
+      return this.source.getRepository(owner, repoName);
+    }
+    if (this.useGraphQL()) {
+      return fetchRepository(this.client, owner, repoName);
+    }
+    const response = await this.fetchWithAuth(`${this.apiBaseUrl}/repos/${owner}/${repoName}`);
+    if (response.status === 404) {
+      throw new RepoUnavailableError(`${owner}/${repoName}`, `Repository '${owner}/${repoName}' not found. Check the name, or provide a token that can see it if it is private.`, 404);
+    } else if (!response.ok) {
+      throw new RepoUnavailableError(`${owner}/${repoName}`, `Error fetching repository '${owner}/${repoName}': ${response.status}`, response.status);
+    }
+    return response.json();
+  }
+
+  // Analyzes one repository, optionally at a given ref and/or inside one subdirectory
+  async analyzeSingleRepository(reference: RepoReference, minTokens: number = 1000000): Promise<RepoAnalysis> {
+    const repo = await this.getRepository(reference.owner, reference.repo);
+    const path = reference.path?.replace(/^\/+|\/+$/g, '') || undefined;
+    return this.buildRepoAnalysis(repo, minTokens, `${repo.owner.login}/${repo.name}`, { ref: reference.ref, path });
+  }
+
+  async analyzeUserProfile(username: string, minTokens: number = 1000000, onProgress?: ProgressCallback, runOptions: ProfileRunOptions = {}): Promise<AnalysisResult> {
+    // Every exit path reports either the final summary or the error to progress listeners
+    const finish = (result: AnalysisResult): AnalysisResult => {
+      if (onProgress) {
+        onProgress(result.error_info
+          ? { type: 'error', error: result.error_info.message, code: result.error_info.code, retryable: result.error_info.retryable }
+          : { type: 'summary', result });
+      }
+      return result;
+    };
+    const failed = (error: unknown, ownerType?: OwnerType): AnalysisResult => {
+      const info = toErrorInfo(error);
+      return finish({
+        username,
+        owner_type: ownerType,
+        total_repos_analyzed: 0,
+        repos_meeting_criteria: [],
+        all_repo_stats: {},
+        analysis_timestamp: new Date().toISOString(),
+        min_tokens_threshold: minTokens,
+        api_usage: this.getApiUsage(),
+        error: info.message,
+        error_info: info
+      });
+    };
+
+    try {
+      // Get the user's or organization's repositories
+      const { ownerType, repos } = await this.listRepositories(username);
       if (!repos.length) {
-        return {
-          username,
-          total_repos_analyzed: 0,
-          repos_meeting_criteria: [],
-          all_repo_stats: {},
-          analysis_timestamp: new Date().toISOString(),
-          min_tokens_threshold: minTokens,
-          error: 'No repositories found or user does not exist'
-        };
+        return failed(new NoRepositoriesError(username), ownerType);
       }
 
+      onProgress?.({
+        type: 'repos_listed',
+        username,
+        repos: repos.map(repo => ({ name: this.repoLabel(repo, username), language: repo.language, size_kb: repo.size }))
+      });
+
       const results: AnalysisResult = {
         username,
+        owner_type: ownerType,
         total_repos_analyzed: 0,
         repos_meeting_criteria: [],
         all_repo_stats: {},
@@ -272,45 +1233,91 @@ export class GitHubRepoAnalyzer {
         min_tokens_threshold: minTokens
       };
 
-      for (const repo of repos) {
+      // Set by a failure every remaining repository would run into as well
+      let stopError: AnalysisError | null = null;
+      let cancelled = false;
+      const repoErrors: (RepoError | null)[] = repos.map(() => null);
+      const contentHashes = new Map<string, ContentHashes>();
+
+      const outcomes = await mapWithConcurrency(repos, this.repoConcurrency, async (repo, index) => {
+        const label = this.repoLabel(repo, username);
+
+        // Once the budget is gone every remaining repository would fail the same way
+        if (stopError) {
+          repoErrors[index] = { repo: label, ...stopError.toInfo(), details: { ...stopError.details, skipped: true } };
+          return null;
+        }
+        if (cancelled) return null;
+        if (runOptions.isCancelled?.()) {
+          cancelled = true;
+          return null;
+        }
+
+        const checkpoint = runOptions.checkpoints?.[label];
+        if (checkpoint) {
+          const repoAnalysis = { ...checkpoint, meets_criteria: meetsCriteria(checkpoint, minTokens) };
+          onProgress?.({ type: 'repo_completed', repo: label, index, total: repos.length, analysis: repoAnalysis });
+          return repoAnalysis;
+        }
+
+        onProgress?.({ type: 'repo_started', repo: label, index, total: repos.length });
+
         try {
-          const { totalTokens, fileStats } = await this.analyzeRepository(repo);
-
-          const repoAnalysis: RepoAnalysis = {
-            name: repo.name,
-            description: repo.description,
-            language: repo.language,
-            stars: repo.stargazers_count,
-            size_kb: repo.size,
-            total_tokens: totalTokens,
-            file_stats: fileStats,
-            url: repo.html_url,
-            meets_criteria: totalTokens >= minTokens
-          };
-
-          results.all_repo_stats[repo.name] = repoAnalysis;
-          results.total_repos_analyzed++;
-
-          if (totalTokens >= minTokens) {
-            results.repos_meeting_criteria.push(repoAnalysis);
+          let repoAnalysis = this.prescreen
+            ? await this.prescreenRepoAnalysis(repo, minTokens, label, contentHashes)
+            : await this.buildRepoAnalysis(repo, minTokens, label, {}, contentHashes);
+          if (this.attribution) {
+            repoAnalysis = await this.attributeRepoAnalysis(repo, repoAnalysis, username, minTokens);
           }
+          onProgress?.({ type: 'repo_completed', repo: label, index, total: repos.length, analysis: repoAnalysis });
+          return repoAnalysis;
         } catch (error) {
-          console.error(`Error analyzing repository ${repo.name}:`, error);
-          continue;
+          console.error(`Error analyzing repository ${label}:`, error);
+          const info = toErrorInfo(error);
+          repoErrors[index] = { repo: label, ...info };
+          onProgress?.({
+            type: 'repo_failed',
+            repo: label,
+            index,
+            total: repos.length,
+            error: info.message,
+            code: info.code,
+            retryable: info.retryable
+          });
+
+          if (abortsAnalysis(error)) {
+            stopError = error;
+          }
+          return null;
+        }
+      });
+
+      // Assemble in listing order so output doesn't depend on which repo finished first
+      const analyzed = outcomes.filter((repoAnalysis): repoAnalysis is RepoAnalysis => !!repoAnalysis);
+      const { repos: deduplicated, report } = applyDuplication(analyzed, contentHashes);
+      results.duplication = report;
+      results.repo_errors = repoErrors.filter((repoError): repoError is RepoError => !!repoError);
+
+      for (const repoAnalysis of deduplicated) {
+        results.all_repo_stats[repoAnalysis.name] = repoAnalysis;
+        results.total_repos_analyzed++;
+
+        if (repoAnalysis.meets_criteria) {
+          results.repos_meeting_criteria.push(repoAnalysis);
         }
       }
 
-      return results;
+      if (stopError) {
+        results.aborted_reason = `${(stopError as AnalysisError).message} Analyzed ${results.total_repos_analyzed} of ${repos.length} repositories.`;
+      } else if (cancelled) {
+        results.aborted_reason = `Cancelled. Analyzed ${results.total_repos_analyzed} of ${repos.length} repositories.`;
+      }
+
+      results.api_usage = this.getApiUsage();
+      results.tokenizer = this.getTokenizerInfo();
+      return finish(results);
     } catch (error) {
-      return {
-        username,
-        total_repos_analyzed: 0,
-        repos_meeting_criteria: [],
-        all_repo_stats: {},
-        analysis_timestamp: new Date().toISOString(),
-        min_tokens_threshold: minTokens,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      };
+      return failed(error);
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { AuthInvalidError, RateLimitExceededError, RequestTimeoutError } from './errors';
+
+// Re-exported for callers that check for it next to the client
+export { RateLimitExceededError };
+
+export interface RateLimitStatus {
+  limit: number | null;
+  remaining: number | null;
+  reset_at: string | null;
+  resource: string | null;
+}
+
+export interface GitHubClientOptions {
+  token?: string;
+  // Defaults to https://api.github.com; point at a GitHub Enterprise or stub server instead
+  apiBaseUrl?: string;
+  // Retries for 5xx responses, network failures and secondary rate limits
+  maxRetries?: number;
+  // Longest the client will sleep waiting for a rate limit to reset before giving up
+  maxWaitMs?: number;
+  // Longest an API request may take to answer before it is retried (default 30s)
+  timeoutMs?: number;
+}
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const BASE_BACKOFF_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function headerNumber(response: Response, name: string): number | null {
+  const value = response.headers.get(name);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Thin wrapper around fetch that tracks GitHub's rate-limit headers, retries transient
+// failures with exponential backoff, and waits out (or refuses to exceed) an exhausted budget.
+// One client can be shared between analyzers so they draw on the same budget.
+export class GitHubClient {
+  readonly apiBaseUrl: string;
+  private token?: string;
+  private maxRetries: number;
+  private maxWaitMs: number;
+  private timeoutMs: number;
+
+  requestCount = 0;
+  // API requests sent but not yet answered; they may still spend the remaining budget
+  private inFlight = 0;
+  rateLimit: RateLimitStatus = { limit: null, remaining: null, reset_at: null, resource: null };
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.token = options.token;
+    this.apiBaseUrl = (options.apiBaseUrl || 'https://api.github.com').replace(/\/+$/, '');
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxWaitMs = options.maxWaitMs ?? 60000;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  get authenticated(): boolean {
+    return !!this.token;
+  }
+
+  private headers(accept: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Accept': accept,
+      'User-Agent': 'GitHub-Repo-Analyzer'
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `token ${this.token}`;
+    }
+
+    return headers;
+  }
+
+  private recordRateLimit(response: Response) {
+    const remaining = headerNumber(response, 'x-ratelimit-remaining');
+    // Raw content hosts don't send rate-limit headers and don't count against the budget
+    if (remaining === null) return;
+
+    const reset = headerNumber(response, 'x-ratelimit-reset');
+    this.rateLimit = {
+      limit: headerNumber(response, 'x-ratelimit-limit'),
+      remaining,
+      reset_at: reset !== null ? new Date(reset * 1000).toISOString() : null,
+      resource: response.headers.get('x-ratelimit-resource')
+    };
+  }
+
+  // Sleeps until the budget resets when that is soon enough, otherwise aborts
+  private async waitForReset(): Promise<void> {
+    const resetAt = this.rateLimit.reset_at ? new Date(this.rateLimit.reset_at) : null;
+    const waitMs = resetAt ? resetAt.getTime() - Date.now() + 1000 : Infinity;
+
+    if (waitMs > this.maxWaitMs) {
+      throw new RateLimitExceededError(resetAt);
+    }
+
+    console.warn(`GitHub rate limit exhausted, waiting ${Math.ceil(waitMs / 1000)}s for reset`);
+    await sleep(Math.max(0, waitMs));
+    this.rateLimit = { ...this.rateLimit, remaining: null };
+  }
+
+  private backoff(attempt: number): number {
+    return BASE_BACKOFF_MS * Math.pow(2, attempt) + Math.floor(Math.random() * BASE_BACKOFF_MS);
+  }
+
+  async fetch(url: string, accept: string = 'application/vnd.github.v3+json', init: RequestInit = {}): Promise<Response> {
+    const countsAgainstBudget = url.startsWith(this.apiBaseUrl);
+
+    for (let attempt = 0; ; attempt++) {
+      // Concurrent callers reserve budget up front so together they never overshoot it
+      if (countsAgainstBudget && this.rateLimit.remaining !== null && this.rateLimit.remaining - this.inFlight <= 0) {
+        await this.waitForReset();
+      }
+
+      // The caller's signal keeps aborting the body after the response arrives; the client's own
+      // timeout only covers waiting for the response
+      const controller = new AbortController();
+      const callerSignal = init.signal;
+      if (callerSignal?.aborted) controller.abort();
+      callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+      let response: Response;
+      if (countsAgainstBudget) this.inFlight++;
+      try {
+        this.requestCount++;
+        response = await fetch(url, {
+          ...init,
+          signal: controller.signal,
+          headers: { ...this.headers(accept), ...(init.headers as Record<string, string>) }
+        });
+      } catch (error) {
+        // Timeouts requested by the caller are final; anything else is treated as transient
+        if (callerSignal?.aborted) throw error;
+        if (attempt >= this.maxRetries) {
+          throw controller.signal.aborted ? new RequestTimeoutError(url.replace(this.apiBaseUrl, ''), this.timeoutMs) : error;
+        }
+        await sleep(this.backoff(attempt));
+        continue;
+      } finally {
+        clearTimeout(timer);
+        if (countsAgainstBudget) this.inFlight--;
+      }
+
+      this.recordRateLimit(response);
+
+      if (response.status === 401 && countsAgainstBudget) {
+        throw new AuthInvalidError(this.token
+          ? 'GitHub rejected the token (401 Bad credentials). Check that it is valid and has not expired.'
+          : 'GitHub requires authentication for this request. Please provide a GitHub token.');
+      }
+
+      if (response.status === 403 || response.status === 429) {
+        const retryAfter = headerNumber(response, 'retry-after');
+
+        // Secondary rate limits and abuse detection say how long to wait
+        if (retryAfter !== null) {
+          const waitMs = retryAfter * 1000;
+          if (attempt >= this.maxRetries || waitMs > this.maxWaitMs) {
+            throw new RateLimitExceededError(new Date(Date.now() + waitMs));
+          }
+          await sleep(waitMs);
+          continue;
+        }
+
+        // Primary budget exhausted
+        if (this.rateLimit.remaining === 0) {
+          if (attempt >= this.maxRetries) {
+            throw new RateLimitExceededError(this.rateLimit.reset_at ? new Date(this.rateLimit.reset_at) : null);
+          }
+          await this.waitForReset();
+          continue;
+        }
+
+        // Secondary limits without Retry-After only identify themselves in the body
+        const body = await response.clone().text().catch(() => '');
+        if (/secondary rate limit|abuse/i.test(body)) {
+          // GitHub asks for at least a minute between retries here
+          const waitMs = 60000 * (attempt + 1);
+          if (attempt >= this.maxRetries || waitMs > this.maxWaitMs) {
+            throw new RateLimitExceededError(new Date(Date.now() + waitMs));
+          }
+          await sleep(waitMs);
+          continue;
+        }
+
+        // A genuine permission error
+        return response;
+      }
+
+      if (RETRYABLE_STATUSES.includes(response.status) && attempt < this.maxRetries) {
+        await sleep(this.backoff(attempt));
+        continue;
+      }
+
+      return response;
+    }
+  }
+}
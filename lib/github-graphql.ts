@@ -0,0 +1,226 @@
+import { GitHubClient } from './github-client';
+import type { Repository, RepoFilters } from './github-analyzer';
+import {
+  AnalysisError,
+  AuthInvalidError,
+  RateLimitExceededError,
+  RepoUnavailableError,
+  UpstreamError,
+  UserNotFoundError
+} from './errors';
+
+// 100 repositories with up to 100 languages and 20 topics each stays well inside GitHub's
+// node limit, so a profile takes one query per 100 repositories
+const PAGE_SIZE = 100;
+
+const REPOSITORY_FIELDS = `
+  name
+  owner { login }
+  description
+  primaryLanguage { name }
+  stargazerCount
+  diskUsage
+  url
+  isFork
+  isPrivate
+  isArchived
+  isTemplate
+  isMirror
+  mirrorUrl
+  pushedAt
+  defaultBranchRef { name target { oid } }
+  repositoryTopics(first: 20) { nodes { topic { name } } }
+  languages(first: 100, orderBy: { field: SIZE, direction: DESC }) { edges { size node { name } } }
+`;
+
+interface RepositoryNode {
+  name: string;
+  owner: { login: string };
+  description: string | null;
+  primaryLanguage: { name: string } | null;
+  stargazerCount: number;
+  diskUsage: number | null;
+  url: string;
+  isFork: boolean;
+  isPrivate: boolean;
+  isArchived: boolean;
+  isTemplate: boolean;
+  isMirror: boolean;
+  mirrorUrl: string | null;
+  pushedAt: string | null;
+  defaultBranchRef: { name: string; target: { oid: string } | null } | null;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+  languages: { edges: { size: number; node: { name: string } }[] } | null;
+}
+
+interface RepositoryConnection {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: (RepositoryNode | null)[];
+}
+
+interface GraphQLError {
+  type?: string;
+  message: string;
+}
+
+// https://api.github.com/graphql, or https://host/api/graphql for GitHub Enterprise (REST at /api/v3)
+export function graphqlUrl(apiBaseUrl: string): string {
+  return /\/api\/v3$/.test(apiBaseUrl) ? apiBaseUrl.replace(/\/v3$/, '/graphql') : `${apiBaseUrl}/graphql`;
+}
+
+// Runs one query. GitHub answers most failures with 200 and an `errors` list, so those are
+// mapped to the same errors the REST calls raise; `notFound` is used for NOT_FOUND.
+async function query<T>(client: GitHubClient, text: string, variables: Record<string, unknown>, notFound: () => AnalysisError): Promise<T> {
+  const response = await client.fetch(graphqlUrl(client.apiBaseUrl), 'application/json', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query: text, variables })
+  });
+  if (response.status === 403) {
+    throw new AuthInvalidError('Access denied (403) querying the GraphQL API', 403);
+  } else if (!response.ok) {
+    throw new UpstreamError(`Error querying the GraphQL API: ${response.status}`, response.status);
+  }
+
+  const body: { data?: T; errors?: GraphQLError[] } = await response.json();
+  const error = body.errors?.[0];
+  if (error) {
+    switch (error.type) {
+      case 'NOT_FOUND':
+        throw notFound();
+      case 'RATE_LIMITED':
+        throw new RateLimitExceededError(client.rateLimit.reset_at ? new Date(client.rateLimit.reset_at) : null);
+      case 'FORBIDDEN':
+        throw new AuthInvalidError(`Access denied querying the GraphQL API: ${error.message}`, 403);
+      default:
+        // Partial results (e.g. one repository hidden by SAML enforcement) are still usable
+        if (!body.data) throw new UpstreamError(`GraphQL error: ${error.message}`, null, { type: error.type });
+    }
+  }
+  return body.data as T;
+}
+
+// The REST listing's shape, plus what the REST listing can't return in one call
+function toRepository(node: RepositoryNode): Repository {
+  const languages: Record<string, number> = {};
+  (node.languages?.edges || []).forEach(edge => {
+    languages[edge.node.name] = edge.size;
+  });
+
+  return {
+    name: node.name,
+    description: node.description,
+    language: node.primaryLanguage?.name || null,
+    stargazers_count: node.stargazerCount,
+    size: node.diskUsage || 0,
+    html_url: node.url,
+    fork: node.isFork,
+    private: node.isPrivate,
+    archived: node.isArchived,
+    is_template: node.isTemplate,
+    mirror_url: node.isMirror ? node.mirrorUrl || '' : null,
+    pushed_at: node.pushedAt,
+    topics: node.repositoryTopics.nodes.map(topicNode => topicNode.topic.name),
+    default_branch: node.defaultBranchRef?.name,
+    owner: { login: node.owner.login },
+    head_sha: node.defaultBranchRef?.target?.oid || null,
+    languages
+  };
+}
+
+// Narrows the listing on the server where GraphQL can; the rest is left to applyRepoFilters
+function filterArguments(filters: RepoFilters): { declarations: string; arguments: string; variables: Record<string, unknown> } {
+  const variables: Record<string, unknown> = {};
+  if (filters.visibility === 'public' || filters.visibility === 'private') {
+    variables.privacy = filters.visibility.toUpperCase();
+  }
+  if (!filters.includeForks) {
+    variables.isFork = false;
+  }
+  return {
+    declarations: '$cursor: String, $privacy: RepositoryPrivacy, $isFork: Boolean, $affiliations: [RepositoryAffiliation]',
+    arguments: `first: ${PAGE_SIZE}, after: $cursor, privacy: $privacy, isFork: $isFork, ownerAffiliations: $affiliations, orderBy: { field: UPDATED_AT, direction: DESC }`,
+    variables
+  };
+}
+
+async function paginateRepositories(
+  run: (cursor: string | null) => Promise<RepositoryConnection>
+): Promise<Repository[]> {
+  const repos: Repository[] = [];
+  let cursor: string | null = null;
+  while (true) {
+    const connection: RepositoryConnection = await run(cursor);
+    connection.nodes.forEach(node => {
+      if (node) repos.push(toRepository(node));
+    });
+    if (!connection.pageInfo.hasNextPage || !connection.pageInfo.endCursor) break;
+    cursor = connection.pageInfo.endCursor;
+  }
+  return repos;
+}
+
+// A user's or organization's own repositories; `ownerType` comes from the first page
+export async function listOwnerRepositories(client: GitHubClient, login: string, filters: RepoFilters): Promise<{ ownerType: 'User' | 'Organization'; repos: Repository[] }> {
+  const { declarations, arguments: args, variables } = filterArguments(filters);
+  const text = `query($login: String!, ${declarations}) {
+    repositoryOwner(login: $login) {
+      __typename
+      repositories(${args}) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${REPOSITORY_FIELDS} }
+      }
+    }
+  }`;
+
+  let ownerType: 'User' | 'Organization' = 'User';
+  const repos = await paginateRepositories(async cursor => {
+    const data = await query<{ repositoryOwner: { __typename: string; repositories: RepositoryConnection } | null }>(
+      client,
+      text,
+      { ...variables, login, cursor, affiliations: ['OWNER'] },
+      () => new UserNotFoundError(login)
+    );
+    if (!data.repositoryOwner) throw new UserNotFoundError(login);
+    ownerType = data.repositoryOwner.__typename === 'Organization' ? 'Organization' : 'User';
+    return data.repositoryOwner.repositories;
+  });
+  return { ownerType, repos };
+}
+
+// The token owner's repositories, including private ones and, with includeContributed, those
+// they collaborate on or reach through organization membership
+export async function listViewerRepositories(client: GitHubClient, filters: RepoFilters): Promise<Repository[]> {
+  const { declarations, arguments: args, variables } = filterArguments(filters);
+  const text = `query(${declarations}) {
+    viewer {
+      repositories(${args}) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${REPOSITORY_FIELDS} }
+      }
+    }
+  }`;
+  const affiliations = filters.includeContributed ? ['OWNER', 'COLLABORATOR', 'ORGANIZATION_MEMBER'] : ['OWNER'];
+
+  return paginateRepositories(async cursor => {
+    const data = await query<{ viewer: { repositories: RepositoryConnection } }>(
+      client,
+      text,
+      { ...variables, cursor, affiliations },
+      () => new AuthInvalidError('Authenticated user not found')
+    );
+    return data.viewer.repositories;
+  });
+}
+
+export async function fetchRepository(client: GitHubClient, owner: string, name: string): Promise<Repository> {
+  const notFound = () => new RepoUnavailableError(`${owner}/${name}`, `Repository '${owner}/${name}' not found. Check the name, or provide a token that can see it if it is private.`, 404);
+  const data = await query<{ repository: RepositoryNode | null }>(
+    client,
+    `query($owner: String!, $name: String!) { repository(owner: $owner, name: $name) { ${REPOSITORY_FIELDS} } }`,
+    { owner, name },
+    notFound
+  );
+  if (!data.repository) throw notFound();
+  return toRepository(data.repository);
+}
@@ -0,0 +1,159 @@
+import { GitHubClient } from './github-client';
+import { AuthInvalidError, OAuthError, UpstreamError } from './errors';
+import { Session, sessionsEnabled } from './session';
+
+export interface OAuthConfig {
+  clientId: string;
+  // Only the web flow needs it; the device flow works with the client id alone
+  clientSecret?: string;
+  // Defaults to https://github.com; point at GitHub Enterprise or a stub authorization server
+  oauthBaseUrl: string;
+  apiBaseUrl?: string;
+  scopes: string[];
+}
+
+export interface DeviceAuthorization {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  expires_in: number;
+  interval: number;
+}
+
+// What one poll of the device flow found; `slow_down` asks for a longer interval
+export type DevicePollResult =
+  | { status: 'pending' | 'slow_down'; interval: number }
+  | { status: 'complete'; token: string }
+  | { status: 'expired' | 'denied' };
+
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+// Configured from GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET, GITHUB_OAUTH_URL and GITHUB_OAUTH_SCOPES;
+// null when sign-in is not set up
+export function getOAuthConfig(): OAuthConfig | null {
+  const clientId = process.env.GITHUB_CLIENT_ID;
+  if (!clientId) return null;
+  return {
+    clientId,
+    clientSecret: process.env.GITHUB_CLIENT_SECRET || undefined,
+    oauthBaseUrl: (process.env.GITHUB_OAUTH_URL || 'https://github.com').replace(/\/+$/, ''),
+    apiBaseUrl: process.env.GITHUB_API_URL,
+    // public_repo is enough for public profiles; add repo to analyze private repositories
+    scopes: (process.env.GITHUB_OAUTH_SCOPES || 'read:user public_repo').split(/[\s,]+/).filter(Boolean)
+  };
+}
+
+// Sign-in needs both an OAuth app and a SESSION_SECRET to encrypt the session cookie with
+export function requireOAuthConfig(): OAuthConfig {
+  const config = getOAuthConfig();
+  if (!config || !sessionsEnabled()) {
+    throw new OAuthError('GitHub sign-in is not configured. Set GITHUB_CLIENT_ID and SESSION_SECRET on the server.', {}, 501);
+  }
+  return config;
+}
+
+export function authorizeUrl(config: OAuthConfig, redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes.join(' '),
+    state,
+    allow_signup: 'false'
+  });
+  return `${config.oauthBaseUrl}/login/oauth/authorize?${params.toString()}`;
+}
+
+// Both flows POST to GitHub's OAuth endpoints, which answer errors with 200 and an `error` field.
+// Sent once, without GitHubClient's retries: an authorization code is single-use and a device
+// poll has its own interval, so a retried request would fail or be told to slow down.
+async function postForm(config: OAuthConfig, path: string, fields: Record<string, string>): Promise<Record<string, any>> {
+  let response: Response;
+  try {
+    response = await fetch(`${config.oauthBaseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(fields).toString()
+    });
+  } catch (error) {
+    throw new UpstreamError(`Could not reach GitHub's OAuth endpoint: ${error instanceof Error ? error.message : String(error)}`, null, { path });
+  }
+  if (!response.ok) {
+    throw new UpstreamError(`GitHub's OAuth endpoint answered ${response.status}`, response.status, { path });
+  }
+  return response.json();
+}
+
+export async function exchangeCode(config: OAuthConfig, code: string, redirectUri: string): Promise<string> {
+  if (!config.clientSecret) {
+    throw new OAuthError('GITHUB_CLIENT_SECRET is not set, so only the device flow is available', {}, 501);
+  }
+  const data = await postForm(config, '/login/oauth/access_token', {
+    client_id: config.clientId,
+    client_secret: config.clientSecret,
+    code,
+    redirect_uri: redirectUri
+  });
+  if (!data.access_token) {
+    throw new OAuthError(data.error_description || data.error || 'GitHub did not return an access token', { oauth_error: data.error });
+  }
+  return data.access_token;
+}
+
+export async function startDeviceFlow(config: OAuthConfig): Promise<DeviceAuthorization> {
+  const data = await postForm(config, '/login/device/code', {
+    client_id: config.clientId,
+    scope: config.scopes.join(' ')
+  });
+  if (!data.device_code) {
+    // device_flow_disabled is the usual reason: it has to be enabled in the OAuth app's settings
+    throw new OAuthError(data.error_description || data.error || 'GitHub did not start the device flow', { oauth_error: data.error });
+  }
+  return {
+    device_code: data.device_code,
+    user_code: data.user_code,
+    verification_uri: data.verification_uri,
+    expires_in: data.expires_in,
+    interval: data.interval || 5
+  };
+}
+
+export async function pollDeviceFlow(config: OAuthConfig, deviceCode: string, interval: number): Promise<DevicePollResult> {
+  const data = await postForm(config, '/login/oauth/access_token', {
+    client_id: config.clientId,
+    device_code: deviceCode,
+    grant_type: DEVICE_GRANT_TYPE
+  });
+  if (data.access_token) return { status: 'complete', token: data.access_token };
+
+  switch (data.error) {
+    case 'authorization_pending':
+      return { status: 'pending', interval };
+    case 'slow_down':
+      return { status: 'slow_down', interval: data.interval || interval + 5 };
+    case 'expired_token':
+      return { status: 'expired' };
+    case 'access_denied':
+      return { status: 'denied' };
+    default:
+      throw new OAuthError(data.error_description || data.error || 'GitHub did not return an access token', { oauth_error: data.error });
+  }
+}
+
+// Looks up who the token belongs to and which scopes it was actually granted
+export async function sessionForToken(config: OAuthConfig, token: string, method: Session['method']): Promise<Session> {
+  const client = new GitHubClient({ token, apiBaseUrl: config.apiBaseUrl });
+  const response = await client.fetch(`${client.apiBaseUrl}/user`);
+  if (!response.ok) {
+    throw new AuthInvalidError(`GitHub did not accept the new token (${response.status})`, response.status);
+  }
+  const user = await response.json();
+  const scopes = (response.headers.get('x-oauth-scopes') || '').split(',').map(scope => scope.trim()).filter(Boolean);
+  return {
+    token,
+    login: user.login,
+    avatar_url: user.avatar_url,
+    scopes,
+    method,
+    created_at: new Date().toISOString()
+  };
+}
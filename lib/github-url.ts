@@ -0,0 +1,42 @@
+// Accepts a bare user/organization name or any github.com profile URL
+// (including github.com/orgs/{org}) and returns the login
+export function extractUsername(input: string): string {
+  const trimmed = input.trim();
+  if (trimmed.includes('github.com/')) {
+    const match = trimmed.match(/github\.com\/(?:orgs\/)?([^\/\?#]+)/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return trimmed;
+}
+
+export interface RepoReference {
+  owner: string;
+  repo: string;
+  ref?: string;
+  path?: string;
+}
+
+// Parses `owner/repo` or a github.com repository URL, including
+// /tree/{ref}/{path} and /blob/{ref}/{path} links. Returns null when no repository is named.
+export function parseRepoReference(input: string): RepoReference | null {
+  let trimmed = input.trim().replace(/\/+$/, '');
+  const urlMatch = trimmed.match(/github\.com\/(.+)$/);
+  if (urlMatch) {
+    trimmed = urlMatch[1];
+  }
+  trimmed = trimmed.split(/[?#]/)[0];
+
+  const [owner, rawRepo, kind, ref, ...pathParts] = trimmed.split('/');
+  if (!owner || !rawRepo) return null;
+
+  const reference: RepoReference = { owner, repo: rawRepo.replace(/\.git$/, '') };
+  if ((kind === 'tree' || kind === 'blob') && ref) {
+    reference.ref = decodeURIComponent(ref);
+    if (pathParts.length) {
+      reference.path = pathParts.map(decodeURIComponent).join('/');
+    }
+  }
+  return reference;
+}
@@ -0,0 +1,169 @@
+import type { GitHubClient } from './github-client';
+import type { OwnerType, Repository } from './github-analyzer';
+import type { SourceFile, SourceListing, SourceProvider } from './source-provider';
+import { ForgeClient } from './forge-client';
+import { abortsAnalysis, RepoUnavailableError, UserNotFoundError } from './errors';
+
+const PAGE_SIZE = 100;
+// Trees are listed 100 entries per request; bigger ones are reported as incomplete listings
+const MAX_TREE_PAGES = 100;
+// Every file is a request, so the per-file cap of GitHub analyses applies
+const FILE_LIMIT = 200;
+
+interface GitLabProject {
+  path: string;
+  description: string | null;
+  star_count: number;
+  web_url: string;
+  default_branch?: string | null;
+  visibility: 'public' | 'internal' | 'private';
+  archived?: boolean;
+  forked_from_project?: unknown;
+  topics?: string[];
+  tag_list?: string[];
+  last_activity_at?: string;
+  mirror?: boolean;
+  import_url?: string | null;
+  namespace: { full_path: string };
+  // Only for members with at least the Reporter role
+  statistics?: { repository_size: number };
+}
+
+interface TreeEntry {
+  id: string;
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+// GitLab projects in the shape of a GitHub listing. Projects have no language or template flag
+// in listings, and their owner is the full namespace path (group/subgroup).
+function toRepository(project: GitLabProject): Repository {
+  return {
+    name: project.path,
+    description: project.description || null,
+    language: null,
+    stargazers_count: project.star_count || 0,
+    size: project.statistics ? Math.round(project.statistics.repository_size / 1024) : 0,
+    html_url: project.web_url,
+    fork: !!project.forked_from_project,
+    private: project.visibility !== 'public',
+    archived: !!project.archived,
+    is_template: false,
+    mirror_url: project.mirror ? project.import_url || '' : null,
+    pushed_at: project.last_activity_at || null,
+    topics: project.topics || project.tag_list || [],
+    default_branch: project.default_branch || undefined,
+    owner: { login: project.namespace.full_path }
+  };
+}
+
+// Reads groups, users and projects through the GitLab REST API (v4) of gitlab.com or a
+// self-hosted instance. Tokens are sent as PRIVATE-TOKEN.
+export class GitLabSource implements SourceProvider {
+  readonly kind = 'gitlab';
+  readonly origin: string;
+  readonly client: GitHubClient;
+  readonly fileLimit = FILE_LIMIT;
+  private api: ForgeClient;
+
+  constructor(origin: string, token?: string) {
+    this.origin = origin.replace(/\/+$/, '');
+    this.api = new ForgeClient(`${this.origin}/api/v4`, 'GitLab', token ? { 'PRIVATE-TOKEN': token } : {});
+    this.client = this.api.client;
+  }
+
+  // Projects are addressed by their URL-encoded full path instead of a numeric id
+  private projectPath(repo: Repository): string {
+    return encodeURIComponent(`${repo.owner.login}/${repo.name}`);
+  }
+
+  private unavailable(repo: Repository, message: string, status: number | null = 404): RepoUnavailableError {
+    return new RepoUnavailableError(`${repo.owner.login}/${repo.name}`, message, status);
+  }
+
+  // Groups list their subgroups' projects too; an account that is no group is looked up as a user
+  async listRepositories(account: string): Promise<{ ownerType: OwnerType; repos: Repository[] }> {
+    const notFound = () => new UserNotFoundError(account);
+    const query = 'statistics=true&order_by=last_activity_at&sort=desc';
+
+    try {
+      const { items } = await this.api.paginate<GitLabProject>(`/groups/${encodeURIComponent(account)}/projects?include_subgroups=true&${query}`, 'per_page', PAGE_SIZE, notFound);
+      return { ownerType: 'Organization', repos: items.map(toRepository) };
+    } catch (error) {
+      if (!(error instanceof UserNotFoundError)) throw error;
+    }
+
+    const users = await this.api.getJson<{ id: number }[]>(`/users?username=${encodeURIComponent(account)}`, notFound);
+    if (!users.length) throw notFound();
+    const { items } = await this.api.paginate<GitLabProject>(`/users/${users[0].id}/projects?${query}`, 'per_page', PAGE_SIZE, notFound);
+    return { ownerType: 'User', repos: items.map(toRepository) };
+  }
+
+  async getRepository(owner: string, name: string): Promise<Repository> {
+    const project = await this.api.getJson<GitLabProject>(
+      `/projects/${encodeURIComponent(`${owner}/${name}`)}?statistics=true`,
+      () => new RepoUnavailableError(`${owner}/${name}`, `Project '${owner}/${name}' not found on ${this.origin}. Check the path, or provide a token that can see it if it is private.`, 404)
+    );
+    return toRepository(project);
+  }
+
+  async getHeadSha(repo: Repository, ref: string = repo.default_branch || 'HEAD'): Promise<string | null> {
+    try {
+      const commit = await this.api.getJson<{ id: string }>(
+        `/projects/${this.projectPath(repo)}/repository/commits/${encodeURIComponent(ref)}`,
+        () => this.unavailable(repo, `Ref '${ref}' not found in ${repo.owner.login}/${repo.name}`)
+      );
+      return commit.id;
+    } catch (error) {
+      if (abortsAnalysis(error)) throw error;
+      console.error(`Error resolving head commit for ${repo.owner.login}/${repo.name}:`, error);
+      return null;
+    }
+  }
+
+  // GitLab's tree listing has blob SHAs but no sizes
+  async listFiles(repo: Repository, ref: string | undefined = repo.default_branch): Promise<SourceListing> {
+    // Empty projects have no default branch and nothing to list
+    if (!ref) return { files: [], complete: true };
+
+    const { items, complete } = await this.api.paginate<TreeEntry>(
+      `/projects/${this.projectPath(repo)}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}`,
+      'per_page',
+      PAGE_SIZE,
+      () => this.unavailable(repo, `Could not list ${repo.owner.login}/${repo.name} at '${ref}'`),
+      MAX_TREE_PAGES
+    );
+    return {
+      files: items.filter(entry => entry.type === 'blob').map(entry => ({ path: entry.path, size: 0, sha: entry.id })),
+      complete
+    };
+  }
+
+  async readFile(repo: Repository, file: SourceFile): Promise<string> {
+    const response = await this.api.get(
+      `/projects/${this.projectPath(repo)}/repository/blobs/${file.sha}/raw`,
+      () => this.unavailable(repo, `Blob ${file.sha} (${file.path}) not found`)
+    );
+    return response.text();
+  }
+
+  // GitLab reports languages as percentages, which are turned into bytes with the repository size
+  async getLanguages(repo: Repository): Promise<Record<string, number> | null> {
+    if (!repo.size) return null;
+    try {
+      const shares = await this.api.getJson<Record<string, number>>(
+        `/projects/${this.projectPath(repo)}/languages`,
+        () => this.unavailable(repo, `Languages of ${repo.owner.login}/${repo.name} not found`)
+      );
+      const languages: Record<string, number> = {};
+      Object.keys(shares).forEach(language => {
+        languages[language] = Math.round(repo.size * 1024 * shares[language] / 100);
+      });
+      return languages;
+    } catch (error) {
+      if (abortsAnalysis(error)) throw error;
+      console.error(`Error fetching languages for ${repo.owner.login}/${repo.name}:`, error);
+      return null;
+    }
+  }
+}
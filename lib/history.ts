@@ -0,0 +1,291 @@
+import { AnalyzerOptions, GitHubRepoAnalyzer } from './github-analyzer';
+import { GitHubClient, RateLimitStatus } from './github-client';
+import { MemoryAnalysisCache } from './analysis-cache';
+import { RepoUnavailableError, UpstreamError } from './errors';
+import type { RepoReference } from './github-url';
+
+// 'auto' spreads the points evenly between the first commit and the head; the others step
+// back from the head one calendar period at a time
+export type HistoryInterval = 'auto' | 'week' | 'month' | 'quarter';
+
+export interface HistoryCommit {
+  sha: string;
+  date: string;
+  // First line of the commit message
+  message: string;
+  author: string | null;
+}
+
+export interface HistoryPoint extends HistoryCommit {
+  tokens: number;
+  processed_files: number;
+  // False when some files at this commit could not be read, so tokens is a lower bound
+  complete: boolean;
+  // Tokens gained since the previous point (negative when code was removed)
+  delta: number;
+}
+
+export interface HistoryJump {
+  from_sha: string;
+  to_sha: string;
+  tokens_added: number;
+  // Share of the peak token count that this interval added
+  share: number;
+  // The commit that added most of the interval's tokens, when a single one did
+  commit: (HistoryCommit & { tokens_added: number }) | null;
+}
+
+export interface TokenHistory {
+  repository: string;
+  ref: string;
+  path?: string;
+  interval: HistoryInterval;
+  total_commits: number;
+  // Oldest first
+  points: HistoryPoint[];
+  jumps: HistoryJump[];
+  analysis_timestamp: string;
+  api_usage: {
+    requests: number;
+    rate_limit: RateLimitStatus;
+  };
+}
+
+export interface HistoryOptions {
+  token?: string;
+  minTokens?: number;
+  // Commits sampled (default 12, at most 36)
+  points?: number;
+  interval?: HistoryInterval;
+  // Intervals adding at least this share of the peak token count are flagged (default 0.25)
+  jumpShare?: number;
+  analyzerOptions?: AnalyzerOptions;
+}
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ['auto', 'week', 'month', 'quarter'];
+
+// Flagged intervals searched for the commit responsible; each search tokenizes up to ~8 more commits
+const MAX_BISECTED_JUMPS = 3;
+// A commit counts as the cause of a jump when it added at least this share of it
+const SINGLE_COMMIT_SHARE = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toHistoryCommit(commit: any): HistoryCommit {
+  return {
+    sha: commit.sha,
+    date: commit.commit?.committer?.date || commit.commit?.author?.date || '',
+    message: (commit.commit?.message || '').split('\n')[0],
+    author: commit.author?.login || commit.commit?.author?.name || null
+  };
+}
+
+// The same day and time `months` earlier, on the month's last day when it is shorter
+// (a month before March 31 is February 28 or 29, not March 2 or 3)
+function monthsBefore(head: Date, months: number): Date {
+  const date = new Date(head.getTime());
+  date.setUTCDate(1);
+  date.setUTCMonth(head.getUTCMonth() - months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(head.getUTCDate(), lastDay));
+  return date;
+}
+
+// Calendar steps back from the head, oldest first, never before the first commit
+function steppedDates(head: Date, first: Date, interval: Exclude<HistoryInterval, 'auto'>, points: number): Date[] {
+  const dates: Date[] = [];
+  for (let step = 0; step < points; step++) {
+    const date = interval === 'week'
+      ? new Date(head.getTime() - step * 7 * DAY_MS)
+      : monthsBefore(head, step * (interval === 'quarter' ? 3 : 1));
+    if (date < first) break;
+    dates.push(date);
+  }
+  return dates.reverse();
+}
+
+function evenDates(head: Date, first: Date, points: number): Date[] {
+  if (points < 2 || head.getTime() <= first.getTime()) return [head];
+  const span = head.getTime() - first.getTime();
+  return Array.from({ length: points }, (_, index) => new Date(first.getTime() + (span * index) / (points - 1)));
+}
+
+class HistorySampler {
+  private tokenCounts = new Map<string, { tokens: number; processed_files: number; complete: boolean }>();
+
+  constructor(
+    private client: GitHubClient,
+    private analyzer: GitHubRepoAnalyzer,
+    private repo: Awaited<ReturnType<GitHubRepoAnalyzer['getRepository']>>,
+    private ref: string,
+    private path: string | undefined,
+    private minTokens: number
+  ) {}
+
+  private get repoUrl(): string {
+    return `${this.client.apiBaseUrl}/repos/${this.repo.owner.login}/${this.repo.name}`;
+  }
+
+  private get label(): string {
+    return `${this.repo.owner.login}/${this.repo.name}`;
+  }
+
+  // One page of the ref's commits, newest first, plus the last page number from the Link header
+  async listCommits(params: Record<string, string>): Promise<{ commits: HistoryCommit[]; lastPage: number | null }> {
+    const query = new URLSearchParams({ sha: this.ref, ...params });
+    if (this.path) query.set('path', this.path);
+
+    const response = await this.client.fetch(`${this.repoUrl}/commits?${query.toString()}`);
+    if (response.status === 404 || response.status === 422) {
+      throw new RepoUnavailableError(this.label, `Ref '${this.ref}' not found in ${this.label}`, 404);
+    } else if (response.status === 409) {
+      throw new RepoUnavailableError(this.label, `Repository '${this.label}' has no commits`, 409);
+    } else if (!response.ok) {
+      throw new UpstreamError(`Error listing commits of ${this.label}: ${response.status}`, response.status);
+    }
+
+    const lastPage = (response.headers.get('link') || '').match(/<[^>]*[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+    const commits: any[] = await response.json();
+    return { commits: commits.map(toHistoryCommit), lastPage: lastPage ? Number(lastPage[1]) : null };
+  }
+
+  async tokensAt(sha: string) {
+    let counted = this.tokenCounts.get(sha);
+    if (!counted) {
+      const analysis = await this.analyzer.buildRepoAnalysis(this.repo, this.minTokens, this.label, { ref: sha, path: this.path });
+      counted = {
+        tokens: analysis.total_tokens,
+        processed_files: analysis.file_stats.processed_files,
+        complete: analysis.completeness ? analysis.completeness.complete : analysis.file_stats.listing_complete
+      };
+      this.tokenCounts.set(sha, counted);
+    }
+    return counted;
+  }
+
+  // Binary search over the commits between two points for the one where the count crosses
+  // the middle of the jump. When one commit did most of the work, that is the commit.
+  async findJumpCommit(from: HistoryPoint, to: HistoryPoint): Promise<HistoryJump['commit']> {
+    const response = await this.client.fetch(`${this.repoUrl}/compare/${from.sha}...${to.sha}`);
+    if (!response.ok) return null;
+    const comparison = await response.json();
+    const commits: HistoryCommit[] = (comparison.commits || []).map(toHistoryCommit);
+    // The compare API lists at most 250 commits; a partial list can't be searched reliably
+    if (!commits.length || comparison.total_commits > commits.length) return null;
+
+    const chain: HistoryCommit[] = [from, ...commits];
+    let low = 0;
+    let high = chain.length - 1;
+    let lowTokens = from.tokens;
+    let highTokens = to.tokens;
+
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      const middleTokens = (await this.tokensAt(chain[middle].sha)).tokens;
+      if (middleTokens - lowTokens >= (highTokens - lowTokens) / 2) {
+        high = middle;
+        highTokens = middleTokens;
+      } else {
+        low = middle;
+        lowTokens = middleTokens;
+      }
+    }
+
+    const tokensAdded = highTokens - lowTokens;
+    if (tokensAdded < (to.tokens - from.tokens) * SINGLE_COMMIT_SHARE) return null;
+    return { ...chain[high], tokens_added: tokensAdded };
+  }
+}
+
+// Counts a repository's tokens at commits sampled across its history, using the same filtering
+// and tokenizer as a regular analysis. Blob counts are cached, so each sample only tokenizes the
+// files that changed since the previous one.
+export async function analyzeTokenHistory(reference: RepoReference, options: HistoryOptions = {}): Promise<TokenHistory> {
+  const analyzerOptions = options.analyzerOptions || {};
+  const client = new GitHubClient({ token: options.token, apiBaseUrl: analyzerOptions.apiBaseUrl });
+  const analyzer = new GitHubRepoAnalyzer(options.token, {
+    ...analyzerOptions,
+    // Samples read the commit's archive: the per-repository file cap of the file-by-file mode
+    // would flatten the curve at the cap and send the jump search after false jumps
+    ingestionMode: 'tarball',
+    client,
+    cache: analyzerOptions.cache || new MemoryAnalysisCache()
+  });
+  const pointCount = Math.max(2, Math.min(options.points || 12, 36));
+  const interval = options.interval || 'auto';
+  const jumpShare = options.jumpShare ?? 0.25;
+
+  const repo = await analyzer.getRepository(reference.owner, reference.repo);
+  const ref = reference.ref || repo.default_branch || 'HEAD';
+  const path = reference.path?.replace(/^\/+|\/+$/g, '') || undefined;
+  const sampler = new HistorySampler(client, analyzer, repo, ref, path, options.minTokens ?? 1000000);
+
+  const latest = await sampler.listCommits({ per_page: '1' });
+  const head = latest.commits[0];
+  if (!head) {
+    throw new RepoUnavailableError(`${repo.owner.login}/${repo.name}`, `No commits found for ${repo.owner.login}/${repo.name}${path ? `/${path}` : ''} at '${ref}'`, 404);
+  }
+  const totalCommits = latest.lastPage || 1;
+  const first = totalCommits > 1
+    ? (await sampler.listCommits({ per_page: '1', page: String(totalCommits) })).commits[0] || head
+    : head;
+
+  const headDate = new Date(head.date);
+  const firstDate = new Date(first.date);
+  const dates = interval === 'auto'
+    ? evenDates(headDate, firstDate, pointCount)
+    : steppedDates(headDate, firstDate, interval, pointCount);
+
+  // The newest commit at or before each date; the ends are already known
+  const sampled: HistoryCommit[] = [];
+  for (const date of dates) {
+    let commit: HistoryCommit | undefined;
+    if (date.getTime() >= headDate.getTime()) {
+      commit = head;
+    } else if (date.getTime() <= firstDate.getTime()) {
+      commit = first;
+    } else {
+      commit = (await sampler.listCommits({ per_page: '1', until: date.toISOString() })).commits[0];
+    }
+    if (commit && !sampled.some(existing => existing.sha === commit!.sha)) {
+      sampled.push(commit);
+    }
+  }
+
+  const points: HistoryPoint[] = [];
+  for (const commit of sampled) {
+    const counted = await sampler.tokensAt(commit.sha);
+    const previous = points[points.length - 1];
+    points.push({ ...commit, ...counted, delta: previous ? counted.tokens - previous.tokens : counted.tokens });
+  }
+
+  const peak = points.reduce((max, point) => Math.max(max, point.tokens), 0);
+  const flagged = points
+    .slice(1)
+    .map((point, index) => ({ from: points[index], to: point }))
+    .filter(({ to }) => to.delta > 0 && to.delta >= peak * jumpShare);
+  const largest = flagged.slice().sort((a, b) => b.to.delta - a.to.delta).slice(0, MAX_BISECTED_JUMPS);
+
+  const jumps: HistoryJump[] = [];
+  for (const { from, to } of flagged) {
+    jumps.push({
+      from_sha: from.sha,
+      to_sha: to.sha,
+      tokens_added: to.delta,
+      share: peak > 0 ? Math.round((to.delta / peak) * 1000) / 1000 : 0,
+      commit: largest.some(jump => jump.to === to) ? await sampler.findJumpCommit(from, to) : null
+    });
+  }
+
+  return {
+    repository: `${repo.owner.login}/${repo.name}`,
+    ref,
+    ...(path ? { path } : {}),
+    interval,
+    total_commits: totalCommits,
+    points,
+    jumps,
+    analysis_timestamp: new Date().toISOString(),
+    api_usage: { requests: client.requestCount, rate_limit: { ...client.rateLimit } }
+  };
+}
@@ -0,0 +1,254 @@
+import { randomUUID } from 'crypto';
+import { AnalysisProgressEvent, GitHubRepoAnalyzer } from './github-analyzer';
+import { analyzerOptionsFromBody } from './request-options';
+import { parseSourceTarget } from './source-provider';
+import { AnalysisJob, getSharedJobStore, JobStore } from './job-store';
+import { perProcess } from './storage';
+
+export interface JobRequest {
+  username: string;
+  minTokens?: number;
+  // Analyzer options as accepted by the analyze endpoints
+  options?: Record<string, any>;
+  owner?: string;
+}
+
+// The job as API responses show it, without its owner hash
+export function publicJob(job: AnalysisJob): Omit<AnalysisJob, 'owner'> {
+  const { owner, ...rest } = job;
+  return rest;
+}
+
+// Jobs stopped by the rate limit are resumed automatically when the budget resets within this window
+const MAX_AUTO_RESUME_MS = 60 * 60 * 1000;
+
+// Runs analysis jobs inside this server process, one at a time by default. Every finished
+// repository is checkpointed to the store, so a job interrupted by the rate limit, a
+// cancellation or a restart picks up where it stopped instead of starting over.
+export class JobQueue {
+  private waiting: string[] = [];
+  private running = new Set<string>();
+  private cancelled = new Set<string>();
+  // Tokens stay in memory only; a job resumed after a restart needs its token again
+  private tokens = new Map<string, string | undefined>();
+  // GitLab and Gitea tokens of jobs on those hosts, kept the same way
+  private sourceTokens = new Map<string, string | undefined>();
+  // Serializes writes per job so a slow checkpoint never overwrites a newer one
+  private writes = new Map<string, Promise<void>>();
+  private recovered: Promise<void>;
+
+  constructor(private store: JobStore = getSharedJobStore(), private maxConcurrentJobs: number = 1) {
+    this.recovered = this.recoverStaleJobs();
+  }
+
+  // Jobs left queued or running by an earlier process will never finish on their own
+  private async recoverStaleJobs(): Promise<void> {
+    for (const job of await this.store.list()) {
+      if (job.status === 'queued' || job.status === 'running') {
+        await this.store.save({
+          ...job,
+          status: 'interrupted',
+          updated_at: new Date().toISOString(),
+          error: 'The server restarted before the job finished. Resume it to continue.'
+        });
+      }
+    }
+  }
+
+  // Rejects when this write fails; the next write for the job goes ahead regardless
+  private save(job: AnalysisJob): Promise<void> {
+    job.updated_at = new Date().toISOString();
+    const snapshot = { ...job, progress: { ...job.progress }, checkpoints: { ...job.checkpoints }, repo_errors: { ...job.repo_errors } };
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous.then(() => this.store.save(snapshot));
+    this.writes.set(job.id, write.catch(() => {}));
+    return write;
+  }
+
+  async enqueue(request: JobRequest, githubToken?: string, sourceToken?: string): Promise<AnalysisJob> {
+    await this.recovered;
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+      id: randomUUID(),
+      status: 'queued',
+      username: request.username,
+      min_tokens: request.minTokens ?? 1000000,
+      options: request.options || {},
+      owner: request.owner,
+      created_at: now,
+      updated_at: now,
+      attempts: 0,
+      progress: { total_repos: null, completed: 0, failed: 0 },
+      checkpoints: {},
+      repo_errors: {}
+    };
+
+    this.tokens.set(job.id, githubToken);
+    this.sourceTokens.set(job.id, sourceToken);
+    await this.save(job);
+    this.waiting.push(job.id);
+    this.pump();
+    return job;
+  }
+
+  // Another owner's job is reported as missing, so its id can't be probed either
+  async get(id: string, owner: string | undefined): Promise<AnalysisJob | undefined> {
+    await this.recovered;
+    const job = await this.store.get(id);
+    return job && (!job.owner || job.owner === owner) ? job : undefined;
+  }
+
+  // Queued jobs are cancelled at once; running ones stop before their next repository
+  async cancel(id: string, owner: string | undefined): Promise<AnalysisJob | undefined> {
+    const job = await this.get(id, owner);
+    if (!job) return undefined;
+
+    if (this.running.has(id)) {
+      this.cancelled.add(id);
+    } else if (job.status === 'queued') {
+      this.waiting = this.waiting.filter(waitingId => waitingId !== id);
+      job.status = 'cancelled';
+      job.finished_at = new Date().toISOString();
+      await this.save(job);
+    }
+    return job;
+  }
+
+  // Re-runs an interrupted, failed or cancelled job, reusing its checkpointed repositories
+  async resume(id: string, owner: string | undefined, githubToken?: string, sourceToken?: string): Promise<AnalysisJob | undefined> {
+    const job = await this.get(id, owner);
+    if (!job) return undefined;
+    if (job.status === 'queued' || job.status === 'running' || job.status === 'completed') {
+      return job;
+    }
+
+    if (githubToken) {
+      this.tokens.set(id, githubToken);
+    }
+    if (sourceToken) {
+      this.sourceTokens.set(id, sourceToken);
+    }
+    job.status = 'queued';
+    job.error = undefined;
+    job.resume_after = undefined;
+    await this.save(job);
+    this.waiting.push(id);
+    this.pump();
+    return job;
+  }
+
+  private pump() {
+    while (this.running.size < this.maxConcurrentJobs && this.waiting.length) {
+      const id = this.waiting.shift()!;
+      this.running.add(id);
+      this.run(id)
+        .catch(error => console.error(`Job ${id} crashed:`, error))
+        .finally(() => {
+          this.running.delete(id);
+          this.cancelled.delete(id);
+          this.pump();
+        });
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'queued') return;
+
+    job.status = 'running';
+    job.attempts++;
+    job.started_at = new Date().toISOString();
+    job.finished_at = undefined;
+    await this.save(job);
+
+    const token = this.tokens.get(id) || process.env.GITHUB_TOKEN;
+
+    // Progress callbacks can't wait for their checkpoint to be written, so the first failed
+    // write is kept and fails the job once the analysis returns
+    let checkpointError: unknown = null;
+    const onProgress = (event: AnalysisProgressEvent) => {
+      switch (event.type) {
+        case 'repos_listed':
+          job.progress.total_repos = event.repos.length;
+          break;
+        case 'repo_completed':
+          job.checkpoints[event.repo] = event.analysis;
+          delete job.repo_errors[event.repo];
+          break;
+        case 'repo_failed':
+          job.repo_errors[event.repo] = event.error;
+          break;
+        default:
+          return;
+      }
+      job.progress.completed = Object.keys(job.checkpoints).length;
+      job.progress.failed = Object.keys(job.repo_errors).length;
+      this.save(job).catch(error => {
+        console.error(`Error saving job ${id}:`, error);
+        checkpointError = checkpointError || error;
+      });
+    };
+
+    try {
+      // Parsed again on every run, so a job on another host keeps its provider after a restart
+      const target = parseSourceTarget(job.username);
+      const analyzer = new GitHubRepoAnalyzer(token, analyzerOptionsFromBody({ ...job.options, sourceToken: this.sourceTokens.get(id) }, target));
+      const result = await analyzer.analyzeUserProfile(target.account, job.min_tokens, onProgress, {
+        checkpoints: job.checkpoints,
+        isCancelled: () => this.cancelled.has(id)
+      });
+      await this.writes.get(id);
+      if (checkpointError) throw checkpointError;
+
+      job.finished_at = new Date().toISOString();
+      job.result = result;
+
+      if (result.error) {
+        job.status = result.error_info?.code === 'rate_limited' ? 'interrupted' : 'failed';
+        job.error = result.error;
+      } else if (result.aborted_reason) {
+        // A cancellation that came after the last repository started changes nothing; a rejected
+        // token won't get better by waiting for the rate limit to reset
+        job.status = this.cancelled.has(id)
+          ? 'cancelled'
+          : result.repo_errors?.some(repoError => repoError.code === 'auth_invalid') ? 'failed' : 'interrupted';
+        job.error = result.aborted_reason;
+      } else {
+        job.status = 'completed';
+      }
+
+      if (job.status === 'interrupted') {
+        job.resume_after = analyzer.getApiUsage().rate_limit.reset_at || undefined;
+        this.scheduleResume(job);
+      }
+    } catch (error) {
+      job.status = 'failed';
+      job.finished_at = new Date().toISOString();
+      job.error = error instanceof Error ? error.message : 'Unknown error occurred';
+    }
+
+    await this.save(job);
+  }
+
+  private scheduleResume(job: AnalysisJob) {
+    if (!job.resume_after) return;
+    const delay = Date.parse(job.resume_after) - Date.now() + 1000;
+    if (delay > MAX_AUTO_RESUME_MS) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        // The job may have been cancelled or resumed by hand in the meantime
+        const current = await this.get(job.id, job.owner);
+        if (current?.status === 'interrupted') {
+          await this.resume(job.id, job.owner);
+        }
+      } catch (error) {
+        console.error(`Error resuming job ${job.id}:`, error);
+      }
+    }, Math.max(0, delay));
+    // A pending resume should never keep the process alive on its own
+    timer.unref?.();
+  }
+}
+
+export const getJobQueue = perProcess(() => new JobQueue());
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnalysisResult, RepoAnalysis } from './github-analyzer';
+import { evictOldest, perProcess, writeFileAtomic } from './storage';
+
+// queued -> running -> completed | failed | cancelled | interrupted.
+// Interrupted jobs ran out of rate-limit budget (or lost their server) and can be resumed.
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
+  username: string;
+  min_tokens: number;
+  // The request's analyzer options; the GitHub token is never stored
+  options: Record<string, any>;
+  // Hash of the login or token that created the job (see requestOwner); only the same caller
+  // can see it. Jobs created without either are open to anyone with their id.
+  owner?: string;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  finished_at?: string;
+  // Runs so far, including resumes
+  attempts: number;
+  progress: {
+    total_repos: number | null;
+    completed: number;
+    failed: number;
+  };
+  // Finished repositories keyed by label; a resumed run starts from these
+  checkpoints: Record<string, RepoAnalysis>;
+  repo_errors: Record<string, string>;
+  // When an interrupted job's rate-limit budget resets
+  resume_after?: string;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export interface JobStore {
+  get(id: string): Promise<AnalysisJob | undefined>;
+  save(job: AnalysisJob): Promise<void>;
+  list(): Promise<AnalysisJob[]>;
+}
+
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, AnalysisJob>();
+
+  constructor(private maxJobs: number = 500) {}
+
+  async get(id: string): Promise<AnalysisJob | undefined> {
+    const job = this.jobs.get(id);
+    return job && structuredClone(job);
+  }
+
+  async save(job: AnalysisJob): Promise<void> {
+    this.jobs.delete(job.id);
+    // Re-inserted, so the least recently saved jobs are evicted first
+    this.jobs.set(job.id, structuredClone(job));
+    evictOldest(this.jobs, this.maxJobs);
+  }
+
+  async list(): Promise<AnalysisJob[]> {
+    return Array.from(this.jobs.values()).map(job => structuredClone(job));
+  }
+}
+
+// One JSON file per job: {dir}/{id}.json
+export class FileJobStore implements JobStore {
+  constructor(private directory: string) {}
+
+  private jobPath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+
+  async get(id: string): Promise<AnalysisJob | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.jobPath(id), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(job: AnalysisJob): Promise<void> {
+    await writeFileAtomic(this.jobPath(job.id), JSON.stringify(job));
+  }
+
+  async list(): Promise<AnalysisJob[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const jobs = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(name => this.get(decodeURIComponent(name.slice(0, -'.json'.length))))
+    );
+    return jobs.filter((job): job is AnalysisJob => !!job);
+  }
+}
+
+// On disk when JOB_STORE_DIR is set, in memory otherwise
+export const getSharedJobStore = perProcess<JobStore>(() => {
+  const directory = process.env.JOB_STORE_DIR;
+  return directory ? new FileJobStore(directory) : new MemoryJobStore();
+});
@@ -0,0 +1,49 @@
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { LocalSource } from './local-source';
+import { InvalidRequestError } from './errors';
+
+describe('LocalSource', () => {
+  let root: string;
+  let checkout: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'local-source-'));
+    checkout = join(root, 'project');
+    mkdirSync(checkout);
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-C', checkout, '-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { stdio: 'pipe' });
+    git('init', '-q', '-b', 'main');
+    writeFileSync(join(checkout, 'index.ts'), 'export const answer = 42;\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'First');
+    git('tag', 'v1');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('lists and reads a checkout at a ref', async () => {
+    const source = new LocalSource(root);
+    const repo = await source.getRepository(root, 'project');
+
+    expect(await source.getHeadSha(repo, 'v1')).toBe(repo.head_sha);
+    const { files } = await source.listFiles(repo, 'v1');
+    expect(files.map(file => file.path)).toEqual(['index.ts']);
+    expect(await source.readFile(repo, files[0])).toBe('export const answer = 42;\n');
+  });
+
+  it('refuses refs that git would read as options', async () => {
+    const source = new LocalSource(root);
+    const repo = await source.getRepository(root, 'project');
+    const leak = join(root, 'leak');
+
+    await expect(source.getHeadSha(repo, `--output=${leak}`)).rejects.toBeInstanceOf(InvalidRequestError);
+    await expect(source.listFiles(repo, `--output=${leak}`)).rejects.toBeInstanceOf(InvalidRequestError);
+    expect(existsSync(leak)).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { basename, join, resolve, sep } from 'path';
+import { promisify } from 'util';
+import type { OwnerType, Repository } from './github-analyzer';
+import type { SourceFile, SourceListing, SourceProvider } from './source-provider';
+import { mapWithConcurrency } from './concurrency';
+import { AnalysisError, InvalidRequestError, RepoUnavailableError } from './errors';
+
+const execFileAsync = promisify(execFile);
+
+// Enough for the largest file an analysis reads (10MB) and for tree listings of big repositories
+const MAX_GIT_OUTPUT = 64 * 1024 * 1024;
+// Checkouts inspected at the same time while listing a directory
+const LISTING_CONCURRENCY = 4;
+
+async function git(directory: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-C', directory, ...args], { maxBuffer: MAX_GIT_OUTPUT, encoding: 'utf8' });
+    return stdout;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      throw new AnalysisError('Reading local checkouts needs git on the PATH', 'internal_error', false);
+    }
+    throw error;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  return fs.stat(path).then(() => true, () => false);
+}
+
+// Refs come from the request; one starting with '-' would be read as an option by git
+function checkRef(ref: string): string {
+  if (ref.startsWith('-')) {
+    throw new InvalidRequestError(`'${ref}' is not a valid git ref`, { ref });
+  }
+  return ref;
+}
+
+// `git ls-tree -r -l -z` entries: "<mode> <type> <sha> <size>\t<path>"
+function parseTree(output: string): SourceFile[] {
+  const files: SourceFile[] = [];
+  output.split('\0').forEach(line => {
+    const tab = line.indexOf('\t');
+    if (tab === -1) return;
+    const [, type, sha, size] = line.slice(0, tab).split(/\s+/);
+    // Submodules are commits, not blobs
+    if (type === 'blob') files.push({ path: line.slice(tab + 1), size: Number(size) || 0, sha });
+  });
+  return files;
+}
+
+// Reads git checkouts on disk. What was committed is analyzed, at HEAD unless a ref is given, so
+// results are keyed by commit like remote ones; uncommitted changes are not counted. A directory
+// is either a checkout or holds checkouts one level down, which are then its repositories.
+export class LocalSource implements SourceProvider {
+  readonly kind = 'local';
+  readonly origin = 'file://';
+  readonly fileLimit = null;
+  private root: string;
+  // Real paths by `owner/name`, since Repository has no field for them
+  private directories = new Map<string, string>();
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  private directoryOf(repo: Repository): string {
+    const directory = this.directories.get(`${repo.owner.login}/${repo.name}`);
+    if (!directory) {
+      throw new RepoUnavailableError(`${repo.owner.login}/${repo.name}`, `${repo.name} was not listed from a local directory`, 404);
+    }
+    return directory;
+  }
+
+  // The real path, which has to be inside the root so symlinks can't lead out of it
+  private async resolveDirectory(path: string, missing: () => AnalysisError): Promise<string> {
+    const [real, realRoot] = await Promise.all([
+      fs.realpath(path).catch(() => null),
+      fs.realpath(this.root).catch(() => this.root)
+    ]);
+    if (!real) throw missing();
+    if (real !== realRoot && !real.startsWith(realRoot.endsWith(sep) ? realRoot : realRoot + sep)) {
+      throw new InvalidRequestError(`'${path}' is outside the directory local analyses may read`, { path });
+    }
+    return real;
+  }
+
+  private async isCheckout(directory: string): Promise<boolean> {
+    // .git is a file in worktrees and submodules
+    return exists(join(directory, '.git'));
+  }
+
+  // The last commit stands in for the push date, and the committed bytes for the disk usage
+  private async describe(directory: string, owner: string): Promise<Repository> {
+    const [head, branch, tree] = await Promise.all([
+      git(directory, ['log', '-1', '--format=%H%n%cI']).catch(() => ''),
+      git(directory, ['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => ''),
+      git(directory, ['ls-tree', '-r', '-l', '-z', '--full-tree', 'HEAD']).catch(() => '')
+    ]);
+    const [sha, committedAt] = head.trim().split('\n');
+    const bytes = parseTree(tree).reduce((sum, file) => sum + file.size, 0);
+    const name = basename(directory);
+    this.directories.set(`${owner}/${name}`, directory);
+
+    return {
+      name,
+      description: null,
+      language: null,
+      stargazers_count: 0,
+      size: Math.round(bytes / 1024),
+      html_url: `file://${directory}`,
+      fork: false,
+      private: false,
+      archived: false,
+      is_template: false,
+      mirror_url: null,
+      pushed_at: committedAt || null,
+      topics: [],
+      // Detached checkouts have no branch and are analyzed at HEAD
+      default_branch: branch.trim() || undefined,
+      owner: { login: owner },
+      head_sha: sha || null
+    };
+  }
+
+  async listRepositories(account: string): Promise<{ ownerType: OwnerType; repos: Repository[] }> {
+    const directory = await this.resolveDirectory(account, () => new InvalidRequestError(`Directory '${account}' does not exist`, { path: account }));
+    if (await this.isCheckout(directory)) {
+      return { ownerType: 'User', repos: [await this.describe(directory, account)] };
+    }
+
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const candidates = entries
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => join(directory, entry.name));
+    const checkouts = await mapWithConcurrency(candidates, LISTING_CONCURRENCY, async candidate =>
+      (await this.isCheckout(candidate)) ? this.describe(candidate, account) : null
+    );
+    return { ownerType: 'Organization', repos: checkouts.filter((repo): repo is Repository => !!repo) };
+  }
+
+  async getRepository(owner: string, name: string): Promise<Repository> {
+    const path = join(owner, name);
+    const directory = await this.resolveDirectory(path, () => new RepoUnavailableError(path, `Directory '${path}' does not exist`, 404));
+    if (!(await this.isCheckout(directory))) {
+      throw new RepoUnavailableError(path, `'${path}' is not a git checkout`, 404);
+    }
+    return this.describe(directory, owner);
+  }
+
+  async getHeadSha(repo: Repository, ref: string = 'HEAD'): Promise<string | null> {
+    const revision = `${checkRef(ref)}^{commit}`;
+    const output = await git(this.directoryOf(repo), ['rev-parse', '--verify', '-q', revision]).catch(() => '');
+    return output.trim() || null;
+  }
+
+  async listFiles(repo: Repository, ref: string = 'HEAD'): Promise<SourceListing> {
+    // A repository without commits has nothing to list
+    if (!repo.head_sha && ref === 'HEAD') return { files: [], complete: true };
+    checkRef(ref);
+    try {
+      return { files: parseTree(await git(this.directoryOf(repo), ['ls-tree', '-r', '-l', '-z', '--full-tree', ref])), complete: true };
+    } catch (error) {
+      if (error instanceof AnalysisError) throw error;
+      throw new RepoUnavailableError(`${repo.owner.login}/${repo.name}`, `Could not list ${repo.name} at '${ref}'`, 404);
+    }
+  }
+
+  async readFile(repo: Repository, file: SourceFile): Promise<string> {
+    return git(this.directoryOf(repo), ['cat-file', 'blob', file.sha]);
+  }
+
+  async getLanguages(): Promise<Record<string, number> | null> {
+    return null;
+  }
+}
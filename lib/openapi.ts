@@ -0,0 +1,148 @@
+import type { Schema } from './schema';
+import { API_SCHEMAS } from './api-schemas';
+
+// Current version of the stable API surface under /api/v1
+export const API_VERSION = 'v1';
+export const API_BASE_PATH = `/api/${API_VERSION}`;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+function jsonBody(name: string) {
+  return { required: true, content: { 'application/json': { schema: ref(name) } } };
+}
+
+function jsonResponse(description: string, name: string) {
+  return { description, content: { 'application/json': { schema: ref(name) } } };
+}
+
+const ndjsonResponse = {
+  description: 'Newline-delimited JSON, one ProgressEvent per line',
+  content: { 'application/x-ndjson': { schema: ref('ProgressEvent') } }
+};
+
+// Every endpoint can fail with these; 422 carries details.fields
+const errorResponses = {
+  '400': jsonResponse('Malformed JSON or an unusable value (invalid_request)', 'ErrorBody'),
+  '422': jsonResponse('The body breaks the request schema (validation_failed); details.fields lists each violation', 'ErrorBody'),
+  default: jsonResponse('Any other failure; see code for the reason', 'ErrorBody')
+};
+
+const jobNotFound = jsonResponse("No such job, or another caller's (job_not_found)", 'ErrorBody');
+
+const jobIdParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+// Query parameters of GET /export, mirroring the analysis request bodies
+const exportParameters = [
+  ['username', 'string', 'GitHub user or organization; either this or repo'],
+  ['repo', 'string', 'owner/repo or a GitHub repository URL'],
+  ['ref', 'string', 'Branch, tag or commit SHA for repo'],
+  ['path', 'string', 'Subdirectory for repo'],
+  ['format', 'string', 'csv, json or markdown'],
+  ['table', 'string', 'summary or extensions (CSV only)'],
+  ['minTokens', 'integer', 'Tokens a repository needs to meet the criteria'],
+  ['encoding', 'string', 'Token encoding'],
+  ['ingestionMode', 'string', 'files or tarball'],
+  ['listingBackend', 'string', 'tree or contents'],
+  ['discoveryBackend', 'string', 'rest or graphql'],
+  ['breakdownTopN', 'integer', 'Entries in each breakdown list'],
+  ['prescreen', 'boolean', 'Estimate repositories from metadata first'],
+  ['attribution', 'string', 'report or threshold'],
+  ['download', 'boolean', 'Answer as an attachment']
+].map(([name, type, description]) => ({ name, in: 'query', required: false, description, schema: { type } }));
+
+// The OpenAPI 3.0 description of the v1 API, generated from the schemas requests are validated with
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'GitHub Repository Analyzer API',
+      version: API_VERSION,
+      description: 'Counts the tokens in GitHub repositories and checks them against a threshold. Requests that break a schema are answered with 422 and field-level errors.'
+    },
+    servers: [{ url: API_BASE_PATH }],
+    paths: {
+      '/analyze': {
+        post: {
+          operationId: 'analyzeProfile',
+          summary: 'Analyze every repository of a user or organization',
+          requestBody: jsonBody('AnalyzeRequest'),
+          responses: { '200': jsonResponse('The analysis', 'AnalysisResult'), ...errorResponses }
+        }
+      },
+      '/analyze/stream': {
+        post: {
+          operationId: 'analyzeProfileStream',
+          summary: 'Analyze a profile, streaming progress events and a final summary',
+          requestBody: jsonBody('AnalyzeRequest'),
+          responses: { '200': ndjsonResponse, ...errorResponses }
+        }
+      },
+      '/analyze/repo': {
+        post: {
+          operationId: 'analyzeRepository',
+          summary: 'Analyze one repository, optionally at a ref or in a subdirectory',
+          requestBody: jsonBody('RepoAnalysisRequest'),
+          responses: { '200': jsonResponse('The repository analysis', 'RepoAnalysis'), ...errorResponses }
+        }
+      },
+      '/analyze/history': {
+        post: {
+          operationId: 'analyzeHistory',
+          summary: 'Sample token counts across the commit history of a repository',
+          requestBody: jsonBody('HistoryRequest'),
+          responses: { '200': jsonResponse('Token counts over time and the flagged jumps', 'TokenHistory'), ...errorResponses }
+        }
+      },
+      '/batch': {
+        post: {
+          operationId: 'analyzeBatch',
+          summary: 'Screen a list of profiles, streaming progress and a batch_summary leaderboard',
+          requestBody: jsonBody('BatchRequest'),
+          responses: { '200': ndjsonResponse, ...errorResponses }
+        }
+      },
+      '/export': {
+        get: {
+          operationId: 'exportAnalysis',
+          summary: 'Run an analysis and return it as CSV, JSON or Markdown',
+          parameters: exportParameters,
+          responses: { '200': { description: 'The exported file' }, ...errorResponses }
+        },
+        post: {
+          operationId: 'convertAnalysis',
+          summary: 'Convert an existing AnalysisResult to CSV, JSON or Markdown',
+          requestBody: jsonBody('ExportRequest'),
+          responses: { '200': { description: 'The exported file' }, ...errorResponses }
+        }
+      },
+      '/jobs': {
+        post: {
+          operationId: 'createJob',
+          summary: 'Queue a profile analysis',
+          requestBody: jsonBody('AnalyzeRequest'),
+          responses: { '202': jsonResponse('The queued job', 'AnalysisJob'), ...errorResponses }
+        }
+      },
+      '/jobs/{id}': {
+        parameters: [jobIdParameter],
+        get: {
+          operationId: 'getJob',
+          summary: 'Status, progress, checkpointed repositories and errors of a job; only found with the sign-in or token it was created with',
+          responses: { '200': jsonResponse('The job', 'AnalysisJob'), '404': jobNotFound }
+        },
+        post: {
+          operationId: 'resumeJob',
+          summary: 'Resume an interrupted, failed or cancelled job from its checkpoints',
+          requestBody: { required: false, content: { 'application/json': { schema: ref('ResumeJobRequest') } } },
+          responses: { '200': jsonResponse('The job', 'AnalysisJob'), '202': jsonResponse('The requeued job', 'AnalysisJob'), ...errorResponses }
+        },
+        delete: {
+          operationId: 'cancelJob',
+          summary: 'Cancel a job; a running job stops before its next repository',
+          responses: { '200': jsonResponse('The job', 'AnalysisJob'), '202': jsonResponse('The job, still stopping', 'AnalysisJob'), '404': jobNotFound }
+        }
+      }
+    },
+    components: { schemas: API_SCHEMAS }
+  };
+}
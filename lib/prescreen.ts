@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs';
+import type { TokenEncoding } from './tokenizer';
+import { perProcess, writeFileAtomic } from './storage';
+
+// 'below' and 'above' repositories are settled by their estimate; 'near' ones are fully analyzed
+export type PrescreenDecision = 'below' | 'near' | 'above';
+
+export interface PrescreenOptions {
+  // Estimates under minTokens * lowerFactor are taken as below the threshold (default 0.5)
+  lowerFactor?: number;
+  // Estimates over minTokens * upperFactor are taken as meeting it (default 2)
+  upperFactor?: number;
+}
+
+export interface TokenEstimate {
+  estimated_tokens: number;
+  // 'languages' uses GitHub's per-language byte counts; 'size' the repository size when those are missing
+  source: 'languages' | 'size';
+  bytes: number;
+  // Effective ratio across the repository's languages
+  bytes_per_token: number;
+  // Whether ratios measured on earlier runs went into the estimate
+  calibrated: boolean;
+  decision: PrescreenDecision;
+}
+
+// Measured totals for one language; bytes / tokens is its calibrated ratio
+export interface LanguageCalibration {
+  bytes: number;
+  tokens: number;
+  repos: number;
+}
+
+export type CalibrationTable = Record<string, LanguageCalibration>;
+
+export interface CalibrationStore {
+  get(encoding: TokenEncoding): Promise<CalibrationTable>;
+  // Adds one fully measured repository: its /languages byte counts and its token total
+  record(encoding: TokenEncoding, languages: Record<string, number>, tokens: number): Promise<void>;
+}
+
+// Uncalibrated bytes per token for cl100k-style encodings, per GitHub language name
+const DEFAULT_BYTES_PER_TOKEN: Record<string, number> = {
+  'C': 3.6,
+  'C#': 4.2,
+  'C++': 3.7,
+  'CSS': 3.1,
+  'Dart': 4.0,
+  'Go': 3.6,
+  'HTML': 3.3,
+  'Java': 4.3,
+  'JavaScript': 3.7,
+  'Jupyter Notebook': 2.9,
+  'Kotlin': 4.1,
+  'Markdown': 4.4,
+  'PHP': 3.7,
+  'Python': 3.9,
+  'Ruby': 3.9,
+  'Rust': 3.6,
+  'SCSS': 3.1,
+  'Shell': 3.4,
+  'Swift': 4.0,
+  'TypeScript': 3.8,
+  'Vue': 3.6
+};
+const FALLBACK_BYTES_PER_TOKEN = 3.8;
+// The character-based estimator counts 4.5 characters per token whatever the language
+const APPROXIMATE_BYTES_PER_TOKEN = 4.5;
+// Repository.size includes git history, so only part of it is assumed to be source
+const SIZE_SOURCE_SHARE = 0.5;
+// Weight of the default ratio, in tokens, against measured data; keeps one odd repository from swinging a language
+const PRIOR_TOKENS = 50000;
+
+function bytesPerToken(language: string, encoding: TokenEncoding, calibration?: LanguageCalibration): number {
+  const prior = encoding === 'approximate'
+    ? APPROXIMATE_BYTES_PER_TOKEN
+    : DEFAULT_BYTES_PER_TOKEN[language] || FALLBACK_BYTES_PER_TOKEN;
+  if (!calibration || calibration.tokens <= 0) return prior;
+  return (calibration.bytes + PRIOR_TOKENS * prior) / (calibration.tokens + PRIOR_TOKENS);
+}
+
+export function prescreenDecision(estimatedTokens: number, minTokens: number, options: PrescreenOptions = {}): PrescreenDecision {
+  const { lowerFactor = 0.5, upperFactor = 2 } = options;
+  if (estimatedTokens < minTokens * lowerFactor) return 'below';
+  if (estimatedTokens > minTokens * upperFactor) return 'above';
+  return 'near';
+}
+
+// Estimates a repository's tokens from its language byte counts, or from its size in KB
+// when GitHub reports no languages
+export function estimateTokens(
+  languages: Record<string, number> | null,
+  sizeKb: number,
+  encoding: TokenEncoding,
+  calibration: CalibrationTable,
+  minTokens: number,
+  options: PrescreenOptions = {}
+): TokenEstimate {
+  let bytes = 0;
+  let tokens = 0;
+  let calibrated = false;
+  let source: TokenEstimate['source'] = 'languages';
+
+  const entries = Object.entries(languages || {}).filter(([, languageBytes]) => languageBytes > 0);
+  if (entries.length) {
+    for (const [language, languageBytes] of entries) {
+      const measured = calibration[language];
+      if (measured) calibrated = true;
+      bytes += languageBytes;
+      tokens += languageBytes / bytesPerToken(language, encoding, measured);
+    }
+  } else {
+    source = 'size';
+    bytes = Math.round(sizeKb * 1024 * SIZE_SOURCE_SHARE);
+    tokens = bytes / bytesPerToken('', encoding);
+  }
+
+  const estimatedTokens = Math.round(tokens);
+  return {
+    estimated_tokens: estimatedTokens,
+    source,
+    bytes,
+    bytes_per_token: tokens > 0 ? Math.round((bytes / tokens) * 100) / 100 : 0,
+    calibrated,
+    decision: prescreenDecision(estimatedTokens, minTokens, options)
+  };
+}
+
+// Splits a repository's measured tokens across its languages by their share of the bytes
+function addMeasurement(table: CalibrationTable, languages: Record<string, number>, tokens: number) {
+  const totalBytes = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+  if (totalBytes <= 0 || tokens <= 0) return;
+
+  for (const [language, bytes] of Object.entries(languages)) {
+    if (bytes <= 0) continue;
+    const entry = table[language] || { bytes: 0, tokens: 0, repos: 0 };
+    entry.bytes += bytes;
+    entry.tokens += tokens * (bytes / totalBytes);
+    entry.repos++;
+    table[language] = entry;
+  }
+}
+
+export class MemoryCalibrationStore implements CalibrationStore {
+  private tables = new Map<TokenEncoding, CalibrationTable>();
+
+  async get(encoding: TokenEncoding): Promise<CalibrationTable> {
+    return structuredClone(this.tables.get(encoding) || {});
+  }
+
+  async record(encoding: TokenEncoding, languages: Record<string, number>, tokens: number): Promise<void> {
+    const table = this.tables.get(encoding) || {};
+    addMeasurement(table, languages, tokens);
+    this.tables.set(encoding, table);
+  }
+}
+
+// One JSON file holding every encoding's table: { [encoding]: CalibrationTable }
+export class FileCalibrationStore implements CalibrationStore {
+  // Serializes read-modify-write cycles within this process
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async readAll(): Promise<Record<string, CalibrationTable>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  async get(encoding: TokenEncoding): Promise<CalibrationTable> {
+    await this.writes;
+    return (await this.readAll())[encoding] || {};
+  }
+
+  record(encoding: TokenEncoding, languages: Record<string, number>, tokens: number): Promise<void> {
+    this.writes = this.writes.then(async () => {
+      const tables = await this.readAll();
+      const table = tables[encoding] || {};
+      addMeasurement(table, languages, tokens);
+      tables[encoding] = table;
+
+      await writeFileAtomic(this.filePath, JSON.stringify(tables));
+    }).catch(error => {
+      console.error('Error saving token calibration:', error);
+    });
+    return this.writes;
+  }
+}
+
+// On disk when CALIBRATION_FILE is set, in memory otherwise
+export const getSharedCalibrationStore = perProcess<CalibrationStore>(() => {
+  const filePath = process.env.CALIBRATION_FILE;
+  return filePath ? new FileCalibrationStore(filePath) : new MemoryCalibrationStore();
+});
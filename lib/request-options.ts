@@ -0,0 +1,87 @@
+import { createHash } from 'crypto';
+import type { AnalyzerOptions } from './github-analyzer';
+import { getSharedAnalysisCache } from './analysis-cache';
+import { getSharedCalibrationStore } from './prescreen';
+import { validateRequest } from './api-schemas';
+import { InvalidRequestError } from './errors';
+import { readSession } from './session';
+import { createSourceProvider, isKnownHost, SourceOptions, SourceProvider, SourceTarget } from './source-provider';
+
+// Analyzer settings shared by every analysis endpoint's JSON body. With a target, GitLab, Gitea
+// and local targets get their source provider.
+export function analyzerOptionsFromBody(body: Record<string, any>, target?: SourceTarget): AnalyzerOptions {
+  const {
+    listingBackend,
+    ingestionMode,
+    discoveryBackend,
+    useCache = true,
+    repoConcurrency,
+    fileConcurrency,
+    encoding,
+    profile,
+    repoFilters,
+    breakdownTopN,
+    prescreen,
+    attribution
+  } = body;
+
+  return {
+    listingBackend,
+    ingestionMode,
+    discoveryBackend,
+    apiBaseUrl: process.env.GITHUB_API_URL,
+    source: target && sourceProviderFor(target, body),
+    cache: useCache ? getSharedAnalysisCache() : undefined,
+    repoConcurrency,
+    fileConcurrency,
+    encoding,
+    profile,
+    repoFilters,
+    breakdownTopN,
+    // `true` pre-screens with the default band; an object sets lowerFactor/upperFactor
+    prescreen: prescreen ? (typeof prescreen === 'object' ? prescreen : {}) : undefined,
+    calibration: getSharedCalibrationStore(),
+    // `true` reports authored tokens; { "applyThreshold": true } also judges minTokens on them
+    attribution: attribution ? (typeof attribution === 'object' ? attribution : {}) : undefined
+  };
+}
+
+// GitLab and Gitea use the body's sourceToken, then GITLAB_TOKEN or GITEA_TOKEN for known hosts
+// only; never the GitHub token or session. By default only known hosts over https and local
+// directories inside LOCAL_SOURCE_ROOT are read; the CLI passes its own scope.
+export function sourceProviderFor(
+  target: SourceTarget,
+  body: Record<string, any>,
+  scope: Omit<SourceOptions, 'token'> = { localRoot: process.env.LOCAL_SOURCE_ROOT }
+): SourceProvider | undefined {
+  const envToken = !isKnownHost(target) ? undefined : target.kind === 'gitlab' ? process.env.GITLAB_TOKEN : process.env.GITEA_TOKEN;
+  return createSourceProvider(target, { ...scope, token: body.sourceToken || envToken });
+}
+
+// Use the token in the body, then the signed-in user's session token, then the environment
+// variable, or no token
+export function resolveGithubToken(body: Record<string, any>, request?: Request): string | undefined {
+  return body.githubToken || (request && readSession(request)?.token) || process.env.GITHUB_TOKEN;
+}
+
+// Who a job belongs to: the signed-in login, else the token the request carries in its body or
+// Authorization header. Only a hash is kept; undefined when the request identifies nobody.
+export function requestOwner(request: Request, body: Record<string, any> = {}): string | undefined {
+  const session = readSession(request);
+  const authorization = request.headers.get('authorization');
+  const token = body.githubToken || body.sourceToken || (authorization ? authorization.replace(/^(token|bearer)\s+/i, '') : undefined);
+  const identity = session ? `login:${session.login.toLowerCase()}` : token ? `token:${token}` : undefined;
+  return identity && createHash('sha256').update(identity).digest('hex');
+}
+
+// Reads a JSON body and validates it against one of the request schemas in api-schemas.ts.
+// Malformed JSON is a 400; a body that parses but breaks the schema is a 422 with field errors.
+export async function readRequestBody(request: Request, schema: string): Promise<Record<string, any>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new InvalidRequestError('Request body must be valid JSON');
+  }
+  return validateRequest(schema, body);
+}
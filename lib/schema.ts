@@ -0,0 +1,124 @@
+// The subset of OpenAPI 3.0 schema objects the API is described with. The same objects
+// validate requests at runtime and are published unchanged in the OpenAPI document.
+export interface Schema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  nullable?: boolean;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  // Unknown properties are allowed unless this is false
+  additionalProperties?: boolean | Schema;
+  anyOf?: Schema[];
+  // '#/components/schemas/Name', resolved against the definitions passed to validate()
+  $ref?: string;
+  default?: unknown;
+  example?: unknown;
+}
+
+export interface FieldError {
+  // Dotted path into the value, e.g. "profile.include[2]"; empty for the value itself
+  field: string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(schema: Schema, value: unknown): boolean {
+  const actual = typeOf(value);
+  if (!schema.type) return true;
+  if (schema.type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === schema.type;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// Checks a value against a schema and returns every violation, or an empty list
+export function validate(schema: Schema, value: unknown, definitions: Record<string, Schema> = {}, path: string = ''): FieldError[] {
+  if (schema.$ref) {
+    const target = definitions[schema.$ref.split('/').pop() || ''];
+    return target ? validate(target, value, definitions, path) : [];
+  }
+  if (value === null && schema.nullable) return [];
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(branch => branch.$ref ? definitions[branch.$ref.split('/').pop() || ''] || {} : branch);
+    if (branches.some(branch => !validate(branch, value, definitions, path).length)) return [];
+    // Report the branch of the value's own type, which is the one the caller most likely meant
+    const sameType = branches.filter(branch => matchesType(branch, value));
+    if (sameType.length === 1) return validate(sameType[0], value, definitions, path);
+    const expected = branches.map(branch => branch.type ? article(branch.type) : 'a value').join(' or ');
+    return [{ field: path, message: `must be ${expected}` }];
+  }
+
+  if (!matchesType(schema, value)) {
+    return [{ field: path, message: `must be ${article(schema.type!)}` }];
+  }
+
+  const errors: FieldError[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push({ field: path, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (!isFinite(value)) errors.push({ field: path, message: 'must be a finite number' });
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push({ field: path, message: `must be at least ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push({ field: path, message: `must be at most ${schema.maximum}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field: path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field: path, message: `must be at most ${schema.maxLength} characters long` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push({ field: path, message: `must have at least ${schema.minItems} items` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push({ field: path, message: `must have at most ${schema.maxItems} items` });
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validate(schema.items!, item, definitions, join(path, index))));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    (schema.required || []).forEach(key => {
+      if (object[key] === undefined) errors.push({ field: join(path, key), message: 'is required' });
+    });
+    Object.keys(object).forEach(key => {
+      if (object[key] === undefined) return;
+      if (properties[key]) {
+        errors.push(...validate(properties[key], object[key], definitions, join(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: join(path, key), message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validate(schema.additionalProperties, object[key], definitions, join(path, key)));
+      }
+    });
+  }
+
+  return errors;
+}
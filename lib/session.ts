@@ -0,0 +1,118 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+export const SESSION_COOKIE = 'gh_session';
+// Holds the OAuth state or device code while a sign-in is in progress
+export const PENDING_SIGN_IN_COOKIE = 'gh_sign_in';
+
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+const PENDING_MAX_AGE_SECONDS = 15 * 60;
+
+export interface Session {
+  token: string;
+  login: string;
+  avatar_url?: string;
+  // Scopes GitHub granted the token (X-OAuth-Scopes), which may be fewer than were requested
+  scopes: string[];
+  method: 'web' | 'device';
+  created_at: string;
+}
+
+export type PendingSignIn =
+  | { method: 'web'; state: string; return_to: string }
+  | { method: 'device'; device_code: string; interval: number; expires_at: string };
+
+export interface CookieOptions {
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'lax';
+  path: string;
+  maxAge: number;
+}
+
+// The AES-256-GCM key is derived from SESSION_SECRET; without one, sessions are disabled
+function sessionKey(): Buffer | null {
+  const secret = process.env.SESSION_SECRET;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+export function sessionsEnabled(): boolean {
+  return sessionKey() !== null;
+}
+
+// Encrypts and authenticates a value with an expiry, as base64url(iv | tag | ciphertext)
+function seal(value: unknown, maxAgeSeconds: number): string {
+  const key = sessionKey();
+  if (!key) throw new Error('SESSION_SECRET is not set');
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const plaintext = JSON.stringify({ value, expires: Date.now() + maxAgeSeconds * 1000 });
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+// Tampered, expired or undecryptable cookies (e.g. after the secret changed) read as absent
+function unseal<T>(sealed: string): T | null {
+  const key = sessionKey();
+  if (!key) return null;
+  try {
+    const data = Buffer.from(sealed, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const plaintext = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+    const { value, expires } = JSON.parse(plaintext);
+    return typeof expires === 'number' && expires > Date.now() ? value as T : null;
+  } catch {
+    return null;
+  }
+}
+
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return null;
+}
+
+export function readSession(request: Request): Session | null {
+  const sealed = readCookie(request, SESSION_COOKIE);
+  return sealed ? unseal<Session>(sealed) : null;
+}
+
+// What the browser may see of a session: everything but the token
+export function describeSession(session: Session) {
+  const { token, ...visible } = session;
+  return {
+    ...visible,
+    // Without the repo scope, private repositories are not listed or analyzed
+    private_repos: session.scopes.includes('repo')
+  };
+}
+
+export function sealSession(session: Session): string {
+  return seal(session, SESSION_MAX_AGE_SECONDS);
+}
+
+export function readPendingSignIn(request: Request): PendingSignIn | null {
+  const sealed = readCookie(request, PENDING_SIGN_IN_COOKIE);
+  return sealed ? unseal<PendingSignIn>(sealed) : null;
+}
+
+export function sealPendingSignIn(pending: PendingSignIn): string {
+  return seal(pending, PENDING_MAX_AGE_SECONDS);
+}
+
+// HttpOnly so page scripts never see the token; Secure whenever the site is served over HTTPS
+export function cookieOptions(request: Request, kind: 'session' | 'pending' = 'session'): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: new URL(request.url).protocol === 'https:',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: kind === 'session' ? SESSION_MAX_AGE_SECONDS : PENDING_MAX_AGE_SECONDS
+  };
+}
@@ -0,0 +1,207 @@
+import { homedir } from 'os';
+import { basename, dirname, resolve } from 'path';
+import type { GitHubClient } from './github-client';
+import type { OwnerType, Repository } from './github-analyzer';
+import { extractUsername, parseRepoReference, RepoReference } from './github-url';
+import { InvalidRequestError } from './errors';
+import { GitLabSource } from './gitlab-source';
+import { GiteaSource } from './gitea-source';
+import { LocalSource } from './local-source';
+
+// Where repositories come from. GitHub is served by GitHubRepoAnalyzer itself; the other
+// sources implement SourceProvider and are handed to it as the `source` option.
+export type SourceKind = 'github' | 'gitlab' | 'gitea' | 'local';
+
+export type ProviderKind = Exclude<SourceKind, 'github'>;
+
+export interface SourceFile {
+  path: string;
+  // Bytes; 0 when the host's listing doesn't report sizes (GitLab)
+  size: number;
+  // Git blob SHA, which keys the token cache and duplicate detection
+  sha: string;
+}
+
+export interface SourceListing {
+  files: SourceFile[];
+  complete: boolean;
+}
+
+// Lists and reads repositories. Filtering, tokenizing, caching and reporting stay in
+// GitHubRepoAnalyzer, so every source is analyzed the same way.
+export interface SourceProvider {
+  readonly kind: ProviderKind;
+  // Host the repositories live on (file:// for local checkouts); part of every cache key
+  readonly origin: string;
+  // Carries the provider's HTTP requests, so they show up in api_usage; local checkouts make none
+  readonly client?: GitHubClient;
+  // Files read per repository; null reads every eligible file
+  readonly fileLimit: number | null;
+  // The account's repositories, before repoFilters are applied
+  listRepositories(account: string): Promise<{ ownerType: OwnerType; repos: Repository[] }>;
+  getRepository(owner: string, name: string): Promise<Repository>;
+  // Resolves a branch, tag or SHA (the default branch when omitted) to its commit SHA
+  getHeadSha(repo: Repository, ref?: string): Promise<string | null>;
+  // Every file in the repository at `ref` (the default branch when omitted)
+  listFiles(repo: Repository, ref?: string): Promise<SourceListing>;
+  // The file's text; throws when it can't be read
+  readFile(repo: Repository, file: SourceFile): Promise<string>;
+  // Bytes per language, or null when the host doesn't report them
+  getLanguages(repo: Repository): Promise<Record<string, number> | null>;
+}
+
+// What an analysis input names, and on which source
+export interface SourceTarget {
+  kind: SourceKind;
+  // https://host for GitLab and Gitea
+  origin?: string;
+  // The user, organization, group or directory a profile analysis lists
+  account: string;
+  // The repository a single-repository analysis reads, or null when the input names none
+  reference: RepoReference | null;
+}
+
+export interface SourceOptions {
+  // GitLab or Gitea token; never the GitHub one
+  token?: string;
+  // Local paths must lie inside this directory; without one they are refused
+  localRoot?: string;
+  // Reads GitLab and Gitea hosts that aren't listed, and plain http. Only for callers that
+  // control the input themselves (the CLI); a server would call whatever its users name.
+  anyHost?: boolean;
+}
+
+// The public instances are always read; self-hosted ones once listed in GITLAB_HOSTS / GITEA_HOSTS
+const PUBLIC_HOSTS: Record<ProviderKind, string[]> = { gitlab: ['gitlab.com'], gitea: ['codeberg.org'], local: [] };
+
+function listedHosts(variable: string): string[] {
+  return (process.env[variable] || '').split(/[\s,]+/).filter(Boolean).map(host => host.toLowerCase());
+}
+
+function knownHosts(kind: ProviderKind): string[] {
+  const variable = kind === 'gitlab' ? 'GITLAB_HOSTS' : kind === 'gitea' ? 'GITEA_HOSTS' : null;
+  return variable ? [...PUBLIC_HOSTS[kind], ...listedHosts(variable)] : [];
+}
+
+// Known hosts, then hosts named like an instance (gitlab.example.com, gitea.example.com), which
+// only the CLI reads; everything else is GitHub
+function hostKind(url: URL): SourceKind {
+  const hosts = [url.hostname.toLowerCase(), url.host.toLowerCase()];
+  if (knownHosts('gitlab').some(host => hosts.includes(host))) return 'gitlab';
+  if (knownHosts('gitea').some(host => hosts.includes(host))) return 'gitea';
+  if (/(^|\.)gitlab\./.test(hosts[0])) return 'gitlab';
+  if (/(^|\.)gitea\./.test(hosts[0])) return 'gitea';
+  return 'github';
+}
+
+// Whether a GitLab or Gitea target's host is gitlab.com, codeberg.org or listed by the server.
+// The server's own tokens are only ever sent to these.
+export function isKnownHost(target: SourceTarget): boolean {
+  if (!target.origin || (target.kind !== 'gitlab' && target.kind !== 'gitea')) return false;
+  const url = new URL(target.origin);
+  const hosts = [url.hostname.toLowerCase(), url.host.toLowerCase()];
+  return knownHosts(target.kind).some(host => hosts.includes(host));
+}
+
+// Absolute or relative paths, ~/..., file:// URLs and Windows drive paths
+function isLocalPath(input: string): boolean {
+  return /^(\/|\.{1,2}([\\/]|$)|~([\\/]|$)|file:\/\/|[A-Za-z]:[\\/])/.test(input);
+}
+
+function pathSegments(pathname: string): string[] {
+  return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+}
+
+// gitlab.com/group/subgroup/project/-/tree/{ref}/{path}. Profiles name a user or a group
+// (with or without the groups/ prefix); repositories are the last segment of the project path.
+function gitlabTarget(url: URL): SourceTarget {
+  const [projectPath, route = ''] = url.pathname.split('/-/');
+  const segments = pathSegments(projectPath);
+  if (segments[0] === 'groups') segments.shift();
+
+  const target: SourceTarget = { kind: 'gitlab', origin: url.origin, account: segments.join('/'), reference: null };
+  if (segments.length >= 2) {
+    target.reference = { owner: segments.slice(0, -1).join('/'), repo: segments[segments.length - 1].replace(/\.git$/, '') };
+    const [kind, ref, ...pathParts] = pathSegments(route);
+    if ((kind === 'tree' || kind === 'blob') && ref) {
+      target.reference.ref = ref;
+      if (pathParts.length) target.reference.path = pathParts.join('/');
+    }
+  }
+  return target;
+}
+
+// gitea.example.com/{owner}/{repo}/src/{branch|tag|commit}/{ref}/{path}
+function giteaTarget(url: URL): SourceTarget {
+  const [owner = '', repo, kind, refKind, ref, ...pathParts] = pathSegments(url.pathname);
+  const target: SourceTarget = { kind: 'gitea', origin: url.origin, account: owner, reference: null };
+  if (owner && repo) {
+    target.reference = { owner, repo: repo.replace(/\.git$/, '') };
+    if (kind === 'src' && ['branch', 'tag', 'commit'].includes(refKind) && ref) {
+      target.reference.ref = ref;
+      if (pathParts.length) target.reference.path = pathParts.join('/');
+    }
+  }
+  return target;
+}
+
+// A directory is both the account (its checkouts are the repositories) and, when it is a
+// checkout itself, the repository
+function localTarget(input: string): SourceTarget {
+  const path = input.replace(/^file:\/\//, '').replace(/^~(?=[\\/]|$)/, homedir());
+  const directory = resolve(path);
+  return { kind: 'local', account: directory, reference: { owner: dirname(directory), repo: basename(directory) } };
+}
+
+// Picks the source from the input: a local path, a GitLab or Gitea URL, or anything GitHub
+// accepted before (a login, owner/repo or a github.com URL). Scheme-less URLs work too.
+export function parseSourceTarget(input: string): SourceTarget {
+  const trimmed = input.trim();
+  if (isLocalPath(trimmed)) return localTarget(trimmed);
+
+  // GitHub logins can't contain dots, so a dotted first segment is a host
+  const withScheme = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : /^[^\/]+\.[^\/]+(\/|$)/.test(trimmed) ? `https://${trimmed}` : null;
+  if (withScheme) {
+    let url: URL | null = null;
+    try {
+      url = new URL(withScheme.split(/[?#]/)[0].replace(/\/+$/, ''));
+    } catch {
+      // Not a URL after all; GitHub parsing decides
+    }
+    const kind = url ? hostKind(url) : 'github';
+    if (url && kind === 'gitlab') return gitlabTarget(url);
+    if (url && kind === 'gitea') return giteaTarget(url);
+  }
+
+  return { kind: 'github', account: extractUsername(trimmed), reference: parseRepoReference(trimmed) };
+}
+
+// Servers only call the instances they were configured for, over https, so requests can't be
+// pointed at internal addresses
+function checkHost(target: SourceTarget) {
+  const url = new URL(target.origin!);
+  if (!isKnownHost(target)) {
+    const variable = target.kind === 'gitlab' ? 'GITLAB_HOSTS' : 'GITEA_HOSTS';
+    throw new InvalidRequestError(`${url.host} is not a host this server reads. Add it to ${variable} to allow it.`, { host: url.host });
+  }
+  if (url.protocol !== 'https:') {
+    throw new InvalidRequestError(`${url.host} can only be read over https`, { host: url.host });
+  }
+}
+
+// The provider for a target, or undefined for GitHub, which the analyzer reads itself
+export function createSourceProvider(target: SourceTarget, options: SourceOptions = {}): SourceProvider | undefined {
+  switch (target.kind) {
+    case 'gitlab':
+    case 'gitea':
+      if (!options.anyHost) checkHost(target);
+      return target.kind === 'gitlab' ? new GitLabSource(target.origin!, options.token) : new GiteaSource(target.origin!, options.token);
+    case 'local':
+      if (!options.localRoot) {
+        throw new InvalidRequestError('Local directories are not enabled on this server. Set LOCAL_SOURCE_ROOT to allow the directories inside it.', { path: target.account });
+      }
+      return new LocalSource(options.localRoot);
+    default:
+      return undefined;
+  }
+}
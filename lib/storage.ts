@@ -0,0 +1,31 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Distinguishes temp files of writes started within the same millisecond
+let writeCount = 0;
+
+// Writes then renames, so readers never see a half-written file and concurrent writers of
+// the same path leave one complete version
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${writeCount++}.tmp`;
+  await fs.writeFile(tempPath, contents, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+// Maps iterate in insertion order, so the first keys are the oldest entries
+export function evictOldest<K, V>(map: Map<K, V>, maxEntries: number) {
+  while (map.size > maxEntries) {
+    map.delete(map.keys().next().value as K);
+  }
+}
+
+// A getter for one instance per server process, created on first use so it sees the
+// environment the server was started with
+export function perProcess<T>(create: () => T): () => T {
+  let instance: T | null = null;
+  return () => {
+    if (instance === null) instance = create();
+    return instance;
+  };
+}
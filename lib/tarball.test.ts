@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { readTarGz, TarEntry, TarReadOptions } from './tarball';
+import { streamOf, tarGz } from './test-fixtures';
+
+async function readAll(archive: Buffer, options?: TarReadOptions, chunkSize?: number): Promise<TarEntry[]> {
+  const entries: TarEntry[] = [];
+  for await (const entry of readTarGz(streamOf(archive, chunkSize), options)) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+const text = (entry: TarEntry) => entry.content?.toString('utf8');
+
+describe('readTarGz', () => {
+  const archive = tarGz([
+    { path: 'repo-abc123/', directory: true },
+    { path: 'repo-abc123/README.md', content: '# Fixture\n' },
+    { path: 'repo-abc123/src/index.ts', content: 'export const answer = 42;\n'.repeat(40) },
+    { path: 'repo-abc123/empty.txt', content: '' }
+  ]);
+
+  it('reads files and directories with their contents', async () => {
+    const entries = await readAll(archive);
+
+    expect(entries.map(entry => [entry.path, entry.type, entry.size])).toEqual([
+      ['repo-abc123/', 'directory', 0],
+      ['repo-abc123/README.md', 'file', 10],
+      ['repo-abc123/src/index.ts', 'file', 1040],
+      ['repo-abc123/empty.txt', 'file', 0]
+    ]);
+    expect(text(entries[1])).toBe('# Fixture\n');
+    expect(text(entries[2])).toBe('export const answer = 42;\n'.repeat(40));
+  });
+
+  it('keeps only the bodies the include filter accepts', async () => {
+    const entries = await readAll(archive, { include: path => path.endsWith('.md') });
+
+    expect(entries.map(entry => entry.path)).toContain('repo-abc123/src/index.ts');
+    expect(entries.find(entry => entry.path.endsWith('index.ts'))?.content).toBeUndefined();
+    expect(text(entries.find(entry => entry.path.endsWith('README.md'))!)).toBe('# Fixture\n');
+  });
+
+  it('reads the same entries when the stream arrives in small chunks', async () => {
+    const whole = await readAll(archive);
+    const chunked = await readAll(archive, undefined, 7);
+
+    expect(chunked.map(entry => [entry.path, text(entry)])).toEqual(whole.map(entry => [entry.path, text(entry)]));
+  });
+
+  it('takes long paths from PAX headers and GNU long-name entries', async () => {
+    const longPath = `repo-abc123/${'nested/'.repeat(20)}deep.ts`;
+    const entries = await readAll(tarGz([
+      { path: longPath, content: 'pax', longName: 'pax' },
+      { path: longPath.replace('deep', 'deeper'), content: 'gnu', longName: 'gnu' },
+      { path: 'repo-abc123/short.ts', content: 'short' }
+    ]));
+
+    expect(entries.map(entry => [entry.path, text(entry)])).toEqual([
+      [longPath, 'pax'],
+      [longPath.replace('deep', 'deeper'), 'gnu'],
+      ['repo-abc123/short.ts', 'short']
+    ]);
+  });
+
+  it('skips oversized PAX and GNU long-name bodies and keeps the header names', async () => {
+    const hugePath = `repo-abc123/${'a/'.repeat(40 * 1024)}huge.ts`;
+    const entries = await readAll(tarGz([
+      { path: hugePath, content: 'pax', longName: 'pax' },
+      { path: hugePath.replace('huge', 'huger'), content: 'gnu', longName: 'gnu' },
+      { path: 'repo-abc123/short.ts', content: 'short' }
+    ]));
+
+    expect(entries.map(entry => [entry.path, text(entry)])).toEqual([
+      [hugePath.slice(0, 100), 'pax'],
+      [hugePath.slice(0, 100), 'gnu'],
+      ['repo-abc123/short.ts', 'short']
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { createGunzip } from 'zlib';
+
+export interface TarEntry {
+  path: string;
+  type: 'file' | 'directory' | 'other';
+  size: number;
+  // Only present for files accepted by the `include` filter
+  content?: Buffer;
+}
+
+export interface TarReadOptions {
+  // Decide from the path and size whether a file's bytes should be kept in memory
+  include?: (path: string, size: number) => boolean;
+}
+
+const BLOCK_SIZE = 512;
+// PAX and GNU long-name bodies hold a path and a few attributes; anything larger is skipped
+// unread rather than buffered, and the entry it describes keeps the name from its own header
+const MAX_METADATA_SIZE = 64 * 1024;
+
+// Collects incoming chunks without re-concatenating the whole backlog on every push
+class ByteQueue {
+  private chunks: Buffer[] = [];
+  length = 0;
+
+  push(chunk: Buffer) {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  take(size: number): Buffer {
+    const result = Buffer.alloc(size);
+    let offset = 0;
+    while (offset < size) {
+      const chunk = this.chunks[0];
+      const needed = size - offset;
+      if (chunk.length <= needed) {
+        chunk.copy(result, offset);
+        offset += chunk.length;
+        this.chunks.shift();
+      } else {
+        chunk.copy(result, offset, 0, needed);
+        this.chunks[0] = chunk.subarray(needed);
+        offset += needed;
+      }
+    }
+    this.length -= size;
+    return result;
+  }
+
+  // Drops up to `size` bytes and returns how many were dropped
+  skip(size: number): number {
+    let skipped = 0;
+    while (skipped < size && this.chunks.length) {
+      const chunk = this.chunks[0];
+      const needed = size - skipped;
+      if (chunk.length <= needed) {
+        skipped += chunk.length;
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(needed);
+        skipped += needed;
+      }
+    }
+    this.length -= skipped;
+    return skipped;
+  }
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+function readSize(block: Buffer): number {
+  // GNU tar stores sizes above 8GB in base-256 with the high bit set
+  if (block[124] & 0x80) {
+    let size = 0;
+    for (let i = 125; i < 136; i++) {
+      size = size * 256 + block[i];
+    }
+    return size;
+  }
+  const octal = readString(block, 124, 12).trim();
+  return octal ? parseInt(octal, 8) : 0;
+}
+
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString('utf8'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf8');
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+function paddedSize(size: number): number {
+  return Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+}
+
+// Reads a gzip-compressed tar stream entry by entry. File bodies are buffered only when
+// `include` accepts them, so skipped entries never occupy memory.
+export async function* readTarGz(body: ReadableStream<Uint8Array>, options: TarReadOptions = {}): AsyncGenerator<TarEntry> {
+  // fetch's body is the DOM type of the same stream
+  const gunzip = Readable.fromWeb(body as WebReadableStream<Uint8Array>).pipe(createGunzip());
+  const queue = new ByteQueue();
+
+  let header: { path: string; type: string; size: number } | null = null;
+  let pendingBody: Buffer | null = null;
+  let skipRemaining = 0;
+  let nextPath: string | null = null;
+
+  for await (const chunk of gunzip) {
+    queue.push(chunk as Buffer);
+
+    while (true) {
+      if (skipRemaining > 0) {
+        skipRemaining -= queue.skip(skipRemaining);
+        if (skipRemaining > 0) break;
+      }
+
+      if (!header) {
+        if (queue.length < BLOCK_SIZE) break;
+        const block = queue.take(BLOCK_SIZE);
+        // End-of-archive marker is two zero blocks; a single one is simply ignored
+        if (block.every(byte => byte === 0)) continue;
+
+        let path = readString(block, 0, 100);
+        if (readString(block, 257, 5) === 'ustar') {
+          const prefix = readString(block, 345, 155);
+          if (prefix) path = `${prefix}/${path}`;
+        }
+        if (nextPath) {
+          path = nextPath;
+          nextPath = null;
+        }
+        header = { path, type: String.fromCharCode(block[156] || 0x30), size: readSize(block) };
+      }
+
+      const isMetadata = header.type === 'x' || header.type === 'g' || header.type === 'L';
+      const isFile = header.type === '0' || header.type === '\0' || header.type === '7';
+      const keepBody = isMetadata
+        ? header.size <= MAX_METADATA_SIZE
+        : isFile && (!options.include || options.include(header.path, header.size));
+
+      if (keepBody) {
+        if (queue.length < header.size) break;
+        pendingBody = queue.take(header.size);
+        skipRemaining = paddedSize(header.size) - header.size;
+      } else {
+        skipRemaining = paddedSize(header.size);
+      }
+
+      const current = header;
+      header = null;
+
+      if (isMetadata) {
+        if (pendingBody && current.type === 'x') {
+          const records = parsePaxRecords(pendingBody);
+          if (records.path) nextPath = records.path;
+        } else if (pendingBody && current.type === 'L') {
+          nextPath = readString(pendingBody, 0, pendingBody.length);
+        }
+      } else {
+        yield {
+          path: current.path,
+          type: isFile ? 'file' : current.type === '5' ? 'directory' : 'other',
+          size: current.size,
+          content: keepBody ? pendingBody! : undefined
+        };
+      }
+      pendingBody = null;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { gzipSync } from 'zlib';
+
+// Archives and streams for tests, built in memory so no binary fixtures are checked in
+
+export interface TarFixtureEntry {
+  path: string;
+  content?: string;
+  directory?: boolean;
+  // Stores the path in a PAX extended header or a GNU long-name entry instead of the header
+  longName?: 'pax' | 'gnu';
+}
+
+const BLOCK_SIZE = 512;
+
+function tarHeader(path: string, size: number, type: string): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const write = (value: string, offset: number, length: number) => header.write(value.slice(0, length), offset, length, 'utf8');
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0');
+
+  write(path, 0, 100);
+  write(octal(0o644, 8), 100, 8);
+  write(octal(0, 8), 108, 8);
+  write(octal(0, 8), 116, 8);
+  write(octal(size, 12), 124, 12);
+  write(octal(0, 12), 136, 12);
+  write(type, 156, 1);
+  write('ustar\u000000', 257, 8);
+
+  // The checksum is computed with its own field read as spaces
+  write('        ', 148, 8);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  write(`${octal(checksum, 7)}\u0000 `, 148, 8);
+  return header;
+}
+
+function tarRecord(path: string, body: Buffer, type: string): Buffer[] {
+  const padding = Buffer.alloc((BLOCK_SIZE - (body.length % BLOCK_SIZE)) % BLOCK_SIZE);
+  return [tarHeader(path, body.length, type), body, padding];
+}
+
+// A PAX record's length prefix counts its own digits
+function paxRecord(key: string, value: string): string {
+  const record = ` ${key}=${value}\n`;
+  const length = Buffer.byteLength(record);
+  let digits = String(length).length;
+  while (String(length + digits).length !== digits) digits++;
+  return `${length + digits}${record}`;
+}
+
+// A gzip-compressed tar archive holding the entries in order
+export function tarGz(entries: TarFixtureEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const body = Buffer.from(entry.content || '', 'utf8');
+    const type = entry.directory ? '5' : '0';
+    if (entry.longName === 'pax') {
+      blocks.push(...tarRecord('PaxHeader', Buffer.from(paxRecord('path', entry.path), 'utf8'), 'x'));
+    } else if (entry.longName === 'gnu') {
+      blocks.push(...tarRecord('././@LongLink', Buffer.from(`${entry.path}\u0000`, 'utf8'), 'L'));
+    }
+    blocks.push(...tarRecord(entry.longName ? entry.path.slice(0, 100) : entry.path, body, type));
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+// A web stream of the bytes, cut into chunks of `chunkSize` to exercise reads across boundaries
+export function streamOf(bytes: Buffer, chunkSize: number = bytes.length): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+        controller.enqueue(new Uint8Array(bytes.subarray(offset, offset + chunkSize)));
+      }
+      controller.close();
+    }
+  });
+}
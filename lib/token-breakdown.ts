@@ -0,0 +1,105 @@
+export interface FileTokenCount {
+  path: string;
+  tokens: number;
+}
+
+export interface DirectoryTokenCount {
+  path: string;
+  tokens: number;
+  files: number;
+}
+
+// One directory in the aggregated tree. `tokens` includes every file below it;
+// `own_tokens` only the files directly inside it.
+export interface DirectoryNode {
+  name: string;
+  path: string;
+  tokens: number;
+  own_tokens: number;
+  files: number;
+  children: DirectoryNode[];
+  // Tokens of subdirectories dropped by the depth or width limits
+  other_tokens: number;
+}
+
+export interface TokenBreakdown {
+  top_files: FileTokenCount[];
+  top_directories: DirectoryTokenCount[];
+  tree: DirectoryNode;
+}
+
+export interface BreakdownOptions {
+  // Entries returned in top_files and top_directories (default 10)
+  topN?: number;
+  // Directory levels kept in the tree (default 4)
+  maxDepth?: number;
+  // Subdirectories kept per directory, heaviest first (default 20)
+  maxChildren?: number;
+}
+
+function createNode(name: string, path: string): DirectoryNode {
+  return { name, path, tokens: 0, own_tokens: 0, files: 0, children: [], other_tokens: 0 };
+}
+
+// Sorts children heaviest first and folds what falls outside the limits into other_tokens
+function prune(node: DirectoryNode, depth: number, maxDepth: number, maxChildren: number) {
+  node.children.sort((a, b) => b.tokens - a.tokens);
+  const keep = depth < maxDepth ? node.children.slice(0, maxChildren) : [];
+  node.other_tokens = node.children.slice(keep.length).reduce((sum, child) => sum + child.tokens, 0);
+  node.children = keep;
+  for (const child of keep) {
+    prune(child, depth + 1, maxDepth, maxChildren);
+  }
+}
+
+// Aggregates per-file counts into the heaviest files, the heaviest directories at any
+// depth, and a size-limited directory tree rooted at the repository (or scoped subdirectory)
+export function buildTokenBreakdown(files: FileTokenCount[], options: BreakdownOptions = {}): TokenBreakdown {
+  const topN = options.topN ?? 10;
+  const root = createNode('', '');
+  const nodes = new Map<string, DirectoryNode>([['', root]]);
+  const childNames = new Map<DirectoryNode, Map<string, DirectoryNode>>();
+
+  for (const file of files) {
+    const segments = file.path.split('/');
+    segments.pop();
+
+    let node = root;
+    node.tokens += file.tokens;
+    node.files++;
+    for (const segment of segments) {
+      let children = childNames.get(node);
+      if (!children) {
+        children = new Map();
+        childNames.set(node, children);
+      }
+      let child = children.get(segment);
+      if (!child) {
+        child = createNode(segment, node.path ? `${node.path}/${segment}` : segment);
+        children.set(segment, child);
+        node.children.push(child);
+        nodes.set(child.path, child);
+      }
+      node = child;
+      node.tokens += file.tokens;
+      node.files++;
+    }
+    node.own_tokens += file.tokens;
+  }
+
+  const topFiles = files
+    .slice()
+    .sort((a, b) => b.tokens - a.tokens)
+    .slice(0, topN);
+
+  // The root directory would always win, so only real directories are ranked
+  const topDirectories = Array.from(nodes.values())
+    .filter(node => node !== root)
+    .sort((a, b) => b.tokens - a.tokens)
+    .slice(0, topN)
+    .map(node => ({ path: node.path, tokens: node.tokens, files: node.files }));
+
+  prune(root, 0, options.maxDepth ?? 4, options.maxChildren ?? 20);
+
+  return { top_files: topFiles, top_directories: topDirectories, tree: root };
+}
@@ -0,0 +1,96 @@
+import { get_encoding, Tiktoken } from 'tiktoken';
+import { TokenizerError } from './errors';
+
+export type ExactEncoding = 'cl100k_base' | 'o200k_base' | 'p50k_base';
+export type TokenEncoding = ExactEncoding | 'approximate';
+
+export const TOKEN_ENCODINGS: TokenEncoding[] = ['cl100k_base', 'o200k_base', 'p50k_base', 'approximate'];
+
+export interface TokenizerInfo {
+  // Encoding the counts were produced with; 'approximate' when the estimator was used
+  encoding: TokenEncoding;
+  requested_encoding: TokenEncoding;
+  exact: boolean;
+  fallback_reason?: string;
+}
+
+// Encoders are WASM objects that must never be garbage collected mid-use, so one
+// instance per encoding is kept for the lifetime of the process
+const encoders = new Map<ExactEncoding, Tiktoken>();
+
+function getEncoder(encoding: ExactEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = get_encoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+// Rough token estimate for when no BPE encoding is available.
+// Source code averages about 4.5 ASCII characters per cl100k_base token (prose is closer
+// to 4), while non-ASCII characters (CJK, emoji, accented text) usually cost about one
+// token each. On JavaScript/TypeScript sources the total lands within a few percent of
+// cl100k_base, with most individual files between -10% and +15%.
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  let asciiChars = 0;
+  let otherChars = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    // Count surrogate pairs once
+    if (code >= 0xdc00 && code <= 0xdfff) continue;
+    if (code < 0x80) asciiChars++;
+    else otherChars++;
+  }
+  return Math.ceil(asciiChars / 4.5) + otherChars;
+}
+
+export class TokenCounter {
+  readonly info: TokenizerInfo;
+  private encoder: Tiktoken | null = null;
+
+  constructor(encoding: TokenEncoding = 'cl100k_base') {
+    // A known encoding that fails to load falls back to estimates; a misspelled one is the caller's mistake
+    if (!TOKEN_ENCODINGS.includes(encoding)) {
+      throw new TokenizerError(`Unknown encoding '${encoding}'. Use one of ${TOKEN_ENCODINGS.join(', ')}`, { encoding, supported: TOKEN_ENCODINGS }, 400);
+    }
+
+    if (encoding === 'approximate') {
+      this.info = { encoding, requested_encoding: encoding, exact: false };
+      return;
+    }
+
+    try {
+      this.encoder = getEncoder(encoding);
+      this.info = { encoding, requested_encoding: encoding, exact: true };
+    } catch (error) {
+      console.warn(`Could not initialize ${encoding} tokenizer, falling back to estimates:`, error);
+      this.info = {
+        encoding: 'approximate',
+        requested_encoding: encoding,
+        exact: false,
+        fallback_reason: error instanceof Error ? error.message : `Could not load ${encoding}`
+      };
+    }
+  }
+
+  get encoding(): TokenEncoding {
+    return this.info.encoding;
+  }
+
+  // Returns the token count and whether it is exact. Text that the encoder rejects is
+  // estimated rather than counted as zero.
+  count(text: string): { tokens: number; exact: boolean } {
+    if (!text) return { tokens: 0, exact: this.info.exact };
+    if (!this.encoder) return { tokens: estimateTokens(text), exact: false };
+
+    try {
+      // Special-token markers such as <|endoftext|> inside files are counted as plain text
+      return { tokens: this.encoder.encode(text, [], []).length, exact: true };
+    } catch (error) {
+      console.error('Error counting tokens, using estimate:', error);
+      return { tokens: estimateTokens(text), exact: false };
+    }
+  }
+}
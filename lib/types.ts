@@ -0,0 +1,28 @@
+// The shapes the API sends and accepts, for code that must not pull in the server modules
+// they are declared in (client components, other teams' integrations). Type-only, so
+// importing it adds nothing to a bundle; the runtime schemas are in api-schemas.ts.
+export type {
+  AnalysisResult,
+  RepoAnalysis,
+  AnalysisProgressEvent,
+  OwnerType,
+  ListingBackend,
+  IngestionMode,
+  RepoFilters,
+  RepoMetadata,
+  DiscoveryBackend
+} from './github-analyzer';
+export type { BatchEntry, BatchRepo, BatchResult, BatchProgressEvent } from './batch';
+export type { TokenHistory, HistoryPoint, HistoryJump, HistoryInterval } from './history';
+export type { DuplicationReport, RepoDuplication, RepoOverlap } from './duplication';
+export type { DirectoryNode, TokenBreakdown } from './token-breakdown';
+export type { CompletenessReport } from './completeness';
+export type { TokenEstimate } from './prescreen';
+export type { Attribution } from './attribution';
+export type { SourceKind, ProviderKind } from './source-provider';
+export type { AnalysisProfile, ExclusionSummary } from './file-filter';
+export type { TokenEncoding, TokenizerInfo } from './tokenizer';
+export type { AnalysisJob, JobStatus } from './job-store';
+export type { ErrorCode, ErrorInfo, ErrorBody, RepoError } from './errors';
+export type { FieldError } from './schema';
+export type { ExportFormat, CsvTable } from './export';